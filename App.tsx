@@ -1,65 +1,617 @@
-import React, { useState, useMemo } from 'react';
-import { Play, RotateCcw, Settings, MapPin, X, Wind, Layers, Gauge, Ruler, Weight, Sun, Moon, RefreshCw, Power, CarFront, Globe } from 'lucide-react'; 
-import { NODES, VEHICLES, DEFAULT_GRID_SCALE } from './constants';
-import { VehicleType, SimulationResult } from './types';
-import SimulationCanvas from './components/SimulationCanvas';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Play, RotateCcw, Settings, MapPin, X, Wind, Gauge, Ruler, Weight, Sun, Moon, RefreshCw, Power, CarFront, Globe, Map as MapIcon, Route, Plus, PencilRuler, Download, Upload, AlertTriangle, History, Link, Check, LineChart, Pause, StepForward, Zap, CornerUpRight } from 'lucide-react'; 
+import { VEHICLES, DEFAULT_GRID_SCALE, DEFAULT_PHYSICS, SINGLE_STEP_TIME } from './constants';
+import { VehicleType, DragModel, SurfaceZone, TrafficControl, TrafficControlType, SimulationResult, MapDefinition, MapHistory, EditorTool, BuildingType, ExperimentSettings, ExperimentSetup, RunRecord, TelemetrySample, RunStatus, RaceEntry, RaceStanding, RaceVehicle, SimulationConfig } from './types';
+import { MAPS, DEFAULT_MAP_ID, getMapById, validateMap } from './simulation/maps';
+import { findTripRoute, getEdgeKey } from './simulation/routing';
+import { createSurfaceZone, isZoneOnMap } from './simulation/surfaces';
+import { createTrafficControl, isControlOnMap } from './simulation/traffic';
+import { createEngineLimits, getPathLength, TELEMETRY_INTERVAL } from './simulation/engine';
+import { createRaceEntry, getRacerName } from './simulation/race';
+import { CUSTOM_MAP_ID, createBlankMap, toCustomMap, createHistory, pushHistory, undo, redo, addNode, moveNode, updateNode, deleteNode, toggleRoad, setStartNode } from './simulation/mapEditor';
+import { createSetup, serializeSetup, parseSetup, SETUP_FILE_EXTENSION } from './utils/experimentFile';
+import { downloadTextFile, readTextFile, toFileSlug } from './utils/files';
+import { encodeShareHash, decodeShareHash, buildShareUrl, SharedExperiment } from './utils/urlState';
+import { loadStoredSetup, storeSetup, loadPreferences, storePreferences, loadHistory, storeHistory, createRunRecord, addRunRecord } from './utils/storage';
+import SimulationCanvas, { CanvasEditor } from './components/SimulationCanvas';
 import ResultsModal from './components/ResultsModal';
+import MapEditorPanel from './components/MapEditorPanel';
+import HistoryPanel from './components/HistoryPanel';
+import MotionGraphs from './components/MotionGraphs';
+import ReplayControls from './components/ReplayControls';
+import ComparisonModal from './components/ComparisonModal';
+import RaceSetup from './components/RaceSetup';
+import RaceResultsModal from './components/RaceResultsModal';
+import SurfaceZoneSetup from './components/SurfaceZoneSetup';
+import TrafficSetup from './components/TrafficSetup';
+
+const NO_ZONES: SurfaceZone[] = [];
+
+const DEFAULT_MAP = getMapById(DEFAULT_MAP_ID);
 
 const App: React.FC = () => {
   // State
-  const [vehicleType] = useState<VehicleType>(VehicleType.CAR);
-  const [finishNodeId, setFinishNodeId] = useState<string>('J'); 
+  const [vehicleType, setVehicleType] = useState<VehicleType>(VehicleType.CAR);
+  const [mapId, setMapId] = useState<string>(DEFAULT_MAP_ID);
+  const [startNodeId, setStartNodeId] = useState<string>(DEFAULT_MAP.defaultStartNodeId);
+  const [finishNodeId, setFinishNodeId] = useState<string>(DEFAULT_MAP.defaultFinishNodeId); 
+  const [checkpointIds, setCheckpointIds] = useState<string[]>([]);
+  const [isRoundTrip, setIsRoundTrip] = useState<boolean>(false);
   const [gridScale, setGridScale] = useState<number>(DEFAULT_GRID_SCALE);
   const [showBuildings, setShowBuildings] = useState<boolean>(true);
 
   // PHYSICS STATE
-  const [targetSpeed, setTargetSpeed] = useState<number>(30); // m/s
-  const [friction, setFriction] = useState<number>(0); // 0 to 5
-  const [isFrictionOn, setIsFrictionOn] = useState<boolean>(true);
-  const [airResistance, setAirResistance] = useState<number>(0); // 0 to 50 N
-  const [mass, setMass] = useState<number>(20); // kg
-  const [frictionStartNode, setFrictionStartNode] = useState<string>('B');
-  const [frictionEndNode, setFrictionEndNode] = useState<string>('D');
-
-  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [targetSpeed, setTargetSpeed] = useState<number>(DEFAULT_PHYSICS.targetSpeed); // m/s
+  const [isFrictionOn, setIsFrictionOn] = useState<boolean>(DEFAULT_PHYSICS.isFrictionOn);
+  const [surfaceZones, setSurfaceZones] = useState<SurfaceZone[]>([]);
+  const [trafficControls, setTrafficControls] = useState<TrafficControl[]>([]);
+  const [airResistance, setAirResistance] = useState<number>(DEFAULT_PHYSICS.airResistance); // 0 to 50 N
+  const [dragModel, setDragModel] = useState<DragModel>(DEFAULT_PHYSICS.dragModel);
+  const [linearDrag, setLinearDrag] = useState<number>(DEFAULT_PHYSICS.linearDrag); // N·s/m
+  const [airDensity, setAirDensity] = useState<number>(DEFAULT_PHYSICS.airDensity); // kg/m³
+  const [dragArea, setDragArea] = useState<number>(DEFAULT_PHYSICS.dragArea); // m²
+  const [mass, setMass] = useState<number>(DEFAULT_PHYSICS.mass); // kg
+  const [isRealisticEngine, setIsRealisticEngine] = useState<boolean>(DEFAULT_PHYSICS.isRealisticEngine);
+  const [reactionTime, setReactionTime] = useState<number>(DEFAULT_PHYSICS.reactionTime); // s
+  const [isCornering, setIsCornering] = useState<boolean>(DEFAULT_PHYSICS.isCornering);
+
+  const [runStatus, setRunStatus] = useState<RunStatus>(RunStatus.IDLE);
+  const [stepCount, setStepCount] = useState<number>(0);
+  const [liveTelemetry, setLiveTelemetry] = useState<TelemetrySample[]>([]);
   const [result, setResult] = useState<SimulationResult | null>(null);
+  const [isStalled, setIsStalled] = useState<boolean>(false);
+
+  // MAP EDITOR STATE
+  const [customMap, setCustomMap] = useState<MapDefinition | null>(null);
+  const [editorHistory, setEditorHistory] = useState<MapHistory | null>(null);
+  const [editorTool, setEditorTool] = useState<EditorTool>(EditorTool.SELECT);
+  const [newNodeType, setNewNodeType] = useState<BuildingType>(BuildingType.CORNER);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [roadStartNodeId, setRoadStartNodeId] = useState<string | null>(null);
+  const isEditing = !!editorHistory;
+
+  const map = useMemo(
+    () => (mapId === CUSTOM_MAP_ID && customMap ? customMap : getMapById(mapId)),
+    [mapId, customMap]
+  );
+  const route = useMemo(
+    () => findTripRoute(map, startNodeId, checkpointIds, finishNodeId, isRoundTrip),
+    [map, startNodeId, checkpointIds, finishNodeId, isRoundTrip]
+  );
   
   // UX State
   const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(true);
   const [isDarkMode, setIsDarkMode] = useState<boolean>(true);
+  const [isGraphsOpen, setIsGraphsOpen] = useState<boolean>(false);
+
+  // RUN HISTORY STATE
+  const [runHistory, setRunHistory] = useState<RunRecord[]>(() => loadHistory());
+  const [unsavedRunCount, setUnsavedRunCount] = useState(0); // oldest runs that did not fit in browser storage
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [viewedRun, setViewedRun] = useState<RunRecord | null>(null);
+  const [comparedRuns, setComparedRuns] = useState<RunRecord[] | null>(null);
+  const [isLaunchRequested, setIsLaunchRequested] = useState<boolean>(false);
+  const [isStorageLoaded, setIsStorageLoaded] = useState<boolean>(false);
+  const [isLinkCopied, setIsLinkCopied] = useState<boolean>(false);
+
+  // Race Mode
+  const [isRaceMode, setIsRaceMode] = useState<boolean>(false);
+  const [raceEntries, setRaceEntries] = useState<RaceEntry[]>([]);
+  const [raceStandings, setRaceStandings] = useState<RaceStanding[] | null>(null);
+  const [raceDetail, setRaceDetail] = useState<RaceStanding | null>(null);
+
+  // Realistic engine limits come from the vehicle profile
+  const engine = useMemo(
+    () => (isRealisticEngine ? createEngineLimits(VEHICLES[vehicleType], reactionTime) : null),
+    [isRealisticEngine, vehicleType, reactionTime]
+  );
+
+  // Zones the physics sees: none while friction is switched off
+  const activeZones = isFrictionOn ? surfaceZones : NO_ZONES;
+
+  // Rivals share the start, checkpoints and environment of the main vehicle
+  const raceVehicles = useMemo<RaceVehicle[]>(() => {
+    if (!isRaceMode) return [];
+    return raceEntries.flatMap(entry => {
+      const finish = entry.finishNodeId && map.nodes.some(n => n.id === entry.finishNodeId) ? entry.finishNodeId : finishNodeId;
+      const path = findTripRoute(map, startNodeId, checkpointIds, finish, isRoundTrip);
+      if (!path) return [];
+      const config: SimulationConfig = {
+        path,
+        roads: map.edges,
+        gridScale,
+        targetSpeed: entry.targetSpeed,
+        mass: entry.mass,
+        airResistance,
+        dragModel,
+        linearDrag,
+        airDensity,
+        dragArea: VEHICLES[entry.vehicleType].dragArea,
+        surfaceZones: activeZones,
+        trafficControls,
+        engine: isRealisticEngine ? createEngineLimits(VEHICLES[entry.vehicleType], reactionTime) : null,
+        isCornering
+      };
+      return [{ id: entry.id, name: entry.name, vehicleType: entry.vehicleType, colorIndex: entry.colorIndex, config }];
+    });
+  }, [isRaceMode, raceEntries, map, startNodeId, checkpointIds, finishNodeId, isRoundTrip, gridScale, activeZones, trafficControls, airResistance, dragModel, linearDrag, airDensity, isRealisticEngine, reactionTime, isCornering]);
+
+  // Replay of the finished run
+  const [isReplaying, setIsReplaying] = useState<boolean>(false);
+  const [replayTime, setReplayTime] = useState<number>(0);
+  const [isReplayPlaying, setIsReplayPlaying] = useState<boolean>(false);
+  const [replayRate, setReplayRate] = useState<number>(1);
+
+  // A run is in progress (running or paused): settings are locked
+  const isRunning = runStatus === RunStatus.RUNNING || runStatus === RunStatus.PAUSED;
+  const runSetupRef = useRef<ExperimentSetup | null>(null); // taken at launch, saved with the run's result
 
   // Handlers
   const handleLaunch = () => {
-    if (isRunning) return;
+    if (runStatus !== RunStatus.IDLE || !route) return;
+    runSetupRef.current = createSetup(map, currentSettings);
     setResult(null);
-    setIsRunning(true);
+    setIsStalled(false);
+    setRaceStandings(null);
+    setLiveTelemetry([]);
+    setIsReplaying(false);
+    setRunStatus(RunStatus.RUNNING);
+  };
+
+  const handleTogglePause = () => {
+    if (runStatus === RunStatus.RUNNING) setRunStatus(RunStatus.PAUSED);
+    else if (runStatus === RunStatus.PAUSED) setRunStatus(RunStatus.RUNNING);
+  };
+
+  // Stepping from idle starts a paused run; stepping a running one pauses it.
+  const handleStep = () => {
+    if (runStatus === RunStatus.FINISHED || !route || isEditing) return;
+    if (runStatus === RunStatus.IDLE) {
+      runSetupRef.current = createSetup(map, currentSettings);
+      setResult(null);
+      setIsStalled(false);
+      setRaceStandings(null);
+      setLiveTelemetry([]);
+      setIsReplaying(false);
+    }
+    setRunStatus(RunStatus.PAUSED);
+    setStepCount(count => count + 1);
   };
 
   const handleReset = () => {
-    setIsRunning(false);
+    setRunStatus(RunStatus.IDLE);
     setResult(null);
+    setIsStalled(false);
+    setRaceStandings(null);
+    setLiveTelemetry([]);
+    setIsReplaying(false);
   };
 
   const handleFinish = (res: SimulationResult) => {
-    setIsRunning(false);
+    setRunStatus(RunStatus.FINISHED);
     setResult(res);
+    setIsReplaying(false);
+    const setup = runSetupRef.current ?? createSetup(map, currentSettings);
+    setRunHistory(records => addRunRecord(records, createRunRecord(setup, res)));
+  };
+
+  // The run is over but there is no result to show
+  const handleStall = () => {
+    setRunStatus(RunStatus.FINISHED);
+    setIsStalled(true);
   };
 
   const handleResetSettings = () => {
     setGridScale(DEFAULT_GRID_SCALE);
-    setTargetSpeed(30);
-    setFriction(0);
-    setIsFrictionOn(true);
-    setAirResistance(0);
-    setMass(20);
-    setFrictionStartNode('B');
-    setFrictionEndNode('D');
+    setVehicleType(VehicleType.CAR);
+    setTargetSpeed(DEFAULT_PHYSICS.targetSpeed);
+    setIsFrictionOn(DEFAULT_PHYSICS.isFrictionOn);
+    setSurfaceZones([]);
+    setTrafficControls([]);
+    setAirResistance(DEFAULT_PHYSICS.airResistance);
+    setDragModel(DEFAULT_PHYSICS.dragModel);
+    setLinearDrag(DEFAULT_PHYSICS.linearDrag);
+    setAirDensity(DEFAULT_PHYSICS.airDensity);
+    setDragArea(DEFAULT_PHYSICS.dragArea);
+    setMass(DEFAULT_PHYSICS.mass);
+    setIsRealisticEngine(DEFAULT_PHYSICS.isRealisticEngine);
+    setReactionTime(DEFAULT_PHYSICS.reactionTime);
+    setIsCornering(DEFAULT_PHYSICS.isCornering);
+  };
+
+  // A new vehicle starts from its own cruising speed, weight and shape
+  const handleVehicleChange = (type: VehicleType) => {
+    setVehicleType(type);
+    setTargetSpeed(VEHICLES[type].baseSpeed);
+    setMass(VEHICLES[type].defaultMass);
+    setDragArea(VEHICLES[type].dragArea);
+  };
+
+  const handleRaceEntryUpdate = (id: string, changes: Partial<RaceEntry>) => {
+    setRaceEntries(raceEntries.map(entry => {
+      if (entry.id !== id) return entry;
+      const next = { ...entry, ...changes };
+      if (!changes.vehicleType || changes.vehicleType === entry.vehicleType) return next;
+      const vehicle = VEHICLES[changes.vehicleType];
+      return { ...next, name: getRacerName(vehicle.type, entry.colorIndex), targetSpeed: vehicle.baseSpeed, mass: vehicle.defaultMass };
+    }));
+  };
+
+  // New zones go on the first road of the route that has none yet
+  const handleAddSurfaceZone = () => {
+    const used = surfaceZones.map(zone => getEdgeKey(zone.fromNodeId, zone.toNodeId));
+    const routeRoad = route?.slice(1).map((node, i) => [route[i].id, node.id]).find(([a, b]) => !used.includes(getEdgeKey(a, b)));
+    const road = routeRoad ?? (map.edges[0] ? [map.edges[0].from, map.edges[0].to] : null);
+    if (road) setSurfaceZones([...surfaceZones, createSurfaceZone(road[0], road[1])]);
+  };
+
+  const handleSurfaceZoneUpdate = (id: string, changes: Partial<SurfaceZone>) => {
+    setSurfaceZones(surfaceZones.map(zone => (zone.id === id ? { ...zone, ...changes } : zone)));
+  };
+
+  // New controls go on the first node along the route that has none yet
+  const handleAddTrafficControl = (type: TrafficControlType) => {
+    const used = trafficControls.map(control => control.nodeId);
+    const node = (route ?? []).slice(1, -1).find(n => !used.includes(n.id)) ?? map.nodes.find(n => !used.includes(n.id));
+    if (node) setTrafficControls([...trafficControls, createTrafficControl(node.id, type)]);
+  };
+
+  const handleTrafficControlUpdate = (id: string, changes: Partial<TrafficControl>) => {
+    setTrafficControls(trafficControls.map(control => (control.id === id ? { ...control, ...changes } : control)));
+  };
+
+  // Zones stay on roads the new map still has, controls on its nodes
+  const selectMap = (nextMap: MapDefinition) => {
+    setMapId(nextMap.id);
+    setStartNodeId(nextMap.defaultStartNodeId);
+    setFinishNodeId(nextMap.defaultFinishNodeId);
+    setCheckpointIds([]);
+    setSurfaceZones(zones => zones.filter(zone => isZoneOnMap(nextMap, zone)));
+    setTrafficControls(controls => controls.filter(control => isControlOnMap(nextMap, control)));
+    setResult(null);
+    setRunStatus(RunStatus.IDLE);
+  };
+
+  const handleMapChange = (id: string) => {
+    selectMap(id === CUSTOM_MAP_ID && customMap ? customMap : getMapById(id));
+  };
+
+  // Experiment Settings (snapshot of every control, used for files)
+  const currentSettings = useMemo<ExperimentSettings>(() => ({
+    mapId: map.id,
+    startNodeId,
+    finishNodeId,
+    checkpointIds,
+    isRoundTrip,
+    gridScale,
+    vehicleType,
+    targetSpeed,
+    isFrictionOn,
+    surfaceZones,
+    trafficControls,
+    airResistance,
+    dragModel,
+    linearDrag,
+    airDensity,
+    dragArea,
+    mass,
+    isRealisticEngine,
+    reactionTime,
+    isCornering
+  }), [map, startNodeId, finishNodeId, checkpointIds, isRoundTrip, gridScale, vehicleType, targetSpeed, isFrictionOn, surfaceZones, trafficControls, airResistance, dragModel, linearDrag, airDensity, dragArea, mass, isRealisticEngine, reactionTime, isCornering]);
+
+  const applySettings = (nextMap: MapDefinition, settings: ExperimentSettings) => {
+    setMapId(nextMap.id);
+    setStartNodeId(settings.startNodeId);
+    setFinishNodeId(settings.finishNodeId);
+    setCheckpointIds(settings.checkpointIds);
+    setIsRoundTrip(settings.isRoundTrip);
+    setGridScale(settings.gridScale);
+    setVehicleType(settings.vehicleType);
+    setTargetSpeed(settings.targetSpeed);
+    setIsFrictionOn(settings.isFrictionOn);
+    setSurfaceZones(settings.surfaceZones);
+    setTrafficControls(settings.trafficControls);
+    setAirResistance(settings.airResistance);
+    setDragModel(settings.dragModel);
+    setLinearDrag(settings.linearDrag);
+    setAirDensity(settings.airDensity);
+    setDragArea(settings.dragArea);
+    setMass(settings.mass);
+    setIsRealisticEngine(settings.isRealisticEngine);
+    setReactionTime(settings.reactionTime);
+    setIsCornering(settings.isCornering);
+    setResult(null);
+    setRunStatus(RunStatus.IDLE);
+  };
+
+  // Imported maps that match a built-in map exactly keep pointing at it;
+  // anything else becomes the custom map.
+  const applySetup = (setup: ExperimentSetup) => {
+    const builtIn = MAPS.find(m => m.id === setup.map.id);
+    if (builtIn && JSON.stringify(builtIn) === JSON.stringify(setup.map)) {
+      applySettings(builtIn, setup.settings);
+      return;
+    }
+    const imported = { ...setup.map, id: CUSTOM_MAP_ID };
+    setCustomMap(imported);
+    applySettings(imported, setup.settings);
+  };
+
+  // Experiment File Handlers
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const handleExportSetup = () => {
+    const setup = createSetup(map, currentSettings);
+    downloadTextFile(`${toFileSlug(map.name)}${SETUP_FILE_EXTENSION}`, serializeSetup(setup), 'application/json');
+  };
+
+  const handleImportSetup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseSetup(await readTextFile(file));
+      if (parsed.setup) applySetup(parsed.setup);
+      setImportErrors(parsed.errors);
+    } catch (err) {
+      setImportErrors([err instanceof Error ? err.message : 'Could not read the file.']);
+    }
+  };
+
+  const applySharedExperiment = (shared: SharedExperiment) => {
+    if (!shared.setup) {
+      setImportErrors(shared.errors);
+      return false;
+    }
+    applySetup(shared.setup);
+    if (shared.preferences.isDarkMode !== undefined) setIsDarkMode(shared.preferences.isDarkMode);
+    if (shared.preferences.showBuildings !== undefined) setShowBuildings(shared.preferences.showBuildings);
+    return true;
+  };
+
+  // Persistence: restore once (a shared link wins over browser storage),
+  // then save on every change
+  useEffect(() => {
+    const preferences = loadPreferences();
+    if (preferences) {
+      setIsDarkMode(preferences.isDarkMode);
+      setShowBuildings(preferences.showBuildings);
+    }
+    const shared = decodeShareHash(window.location.hash);
+    if (!shared || !applySharedExperiment(shared)) {
+      const stored = loadStoredSetup();
+      if (stored) applySetup(stored);
+    }
+    setIsStorageLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isStorageLoaded) storeSetup(createSetup(map, currentSettings));
+  }, [isStorageLoaded, map, currentSettings]);
+
+  useEffect(() => {
+    if (isStorageLoaded) storePreferences({ isDarkMode, showBuildings });
+  }, [isStorageLoaded, isDarkMode, showBuildings]);
+
+  useEffect(() => {
+    setUnsavedRunCount(storeHistory(runHistory));
+  }, [runHistory]);
+
+  // Shareable Link: the hash always mirrors the current experiment
+  const shareHash = useMemo(
+    () => encodeShareHash(map, currentSettings, { isDarkMode, showBuildings }),
+    [map, currentSettings, isDarkMode, showBuildings]
+  );
+
+  useEffect(() => {
+    if (isStorageLoaded && window.location.hash !== `#${shareHash}`) {
+      window.history.replaceState(null, '', `#${shareHash}`);
+    }
+  }, [isStorageLoaded, shareHash]);
+
+  // A pasted link in the same tab only changes the hash, without a reload
+  useEffect(() => {
+    const handleHashChange = () => {
+      const shared = decodeShareHash(window.location.hash);
+      if (shared && !isRunning) applySharedExperiment(shared);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  });
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(shareHash));
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch {
+      window.prompt('Copy this link:', buildShareUrl(shareHash));
+    }
+  };
+
+  // Run History Handlers
+  const handleViewRun = (record: RunRecord) => {
+    setIsHistoryOpen(false);
+    setViewedRun(record);
+  };
+
+  // Settings are applied first; the launch waits for the next render so the
+  // canvas has reset onto the new route.
+  const handleRerun = (record: RunRecord) => {
+    if (isRunning) return;
+    setIsHistoryOpen(false);
+    applySetup(record.setup);
+    setIsLaunchRequested(true);
+  };
+
+  useEffect(() => {
+    if (!isLaunchRequested) return;
+    setIsLaunchRequested(false);
+    handleLaunch();
+  }, [isLaunchRequested]);
+
+  // Replay Handlers
+  const replayResult = isReplaying ? result : null;
+  // A race replays until its last car arrives
+  const replayDuration = result
+    ? Math.max(result.timeTaken, ...(raceStandings ?? []).map(s => s.result.timeTaken))
+    : 0;
+
+  const handleReplay = () => {
+    setReplayTime(0);
+    setIsReplayPlaying(true);
+    setIsReplaying(true);
+  };
+
+  const handleReplayStep = (direction: 1 | -1) => {
+    if (!result) return;
+    setIsReplayPlaying(false);
+    setReplayTime(t => Math.min(Math.max(t + direction * TELEMETRY_INTERVAL, 0), replayDuration));
+  };
+
+  const handleToggleReplay = () => {
+    if (!result) return;
+    if (!isReplayPlaying && replayTime >= replayDuration) setReplayTime(0);
+    setIsReplayPlaying(!isReplayPlaying);
+  };
+
+  // Replay clock: advances in wall-clock time scaled by the playback rate
+  useEffect(() => {
+    if (!replayResult || !isReplayPlaying) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const delta = (now - last) / 1000;
+      last = now;
+      setReplayTime(t => Math.min(t + delta * replayRate, replayDuration));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [replayResult, isReplayPlaying, replayRate, replayDuration]);
+
+  useEffect(() => {
+    if (replayResult && replayTime >= replayDuration) setIsReplayPlaying(false);
+  }, [replayResult, replayTime, replayDuration]);
+
+  // Map Editor Handlers
+  const draftMap = editorHistory?.present ?? null;
+  const draftErrors = useMemo(() => (draftMap ? validateMap(draftMap) : []), [draftMap]);
+  const selectedNode = draftMap?.nodes.find(n => n.id === selectedNodeId) ?? null;
+
+  const applyEdit = (next: MapDefinition) => {
+    setEditorHistory(h => (h ? pushHistory(h, next) : h));
   };
 
-  const carConfig = VEHICLES[VehicleType.CAR];
+  const handleStartEditing = () => {
+    if (isRunning) return;
+    setResult(null);
+    setRunStatus(RunStatus.IDLE);
+    setEditorHistory(createHistory(toCustomMap(map)));
+    setEditorTool(EditorTool.SELECT);
+    setSelectedNodeId(null);
+    setRoadStartNodeId(null);
+  };
 
-  // Available nodes for range selection (excluding A and J for start, A for end roughly)
-  const rangeOptions = NODES.filter(n => n.id !== 'A'); 
+  const handleStopEditing = () => {
+    setEditorHistory(null);
+    setSelectedNodeId(null);
+    setRoadStartNodeId(null);
+  };
+
+  const handleApplyMap = () => {
+    if (!draftMap || draftErrors.length > 0) return;
+    setCustomMap(draftMap);
+    selectMap(draftMap);
+    handleStopEditing();
+  };
+
+  const handleToolChange = (tool: EditorTool) => {
+    setEditorTool(tool);
+    setRoadStartNodeId(null);
+  };
+
+  const canvasEditor: CanvasEditor | null = draftMap ? {
+    tool: editorTool,
+    selectedNodeId,
+    roadStartNodeId,
+    onGridClick: (x, y) => {
+      setRoadStartNodeId(null);
+      if (editorTool !== EditorTool.NODE) {
+        setSelectedNodeId(null);
+        return;
+      }
+      const next = addNode(draftMap, x, y, newNodeType);
+      applyEdit(next);
+      setSelectedNodeId(next.nodes[next.nodes.length - 1].id);
+    },
+    onNodeClick: (id) => {
+      if (editorTool === EditorTool.DELETE) {
+        applyEdit(deleteNode(draftMap, id));
+        if (selectedNodeId === id) setSelectedNodeId(null);
+      } else if (editorTool === EditorTool.ROAD) {
+        // Chain roads: each clicked node becomes the start of the next road
+        if (roadStartNodeId && roadStartNodeId !== id) applyEdit(toggleRoad(draftMap, roadStartNodeId, id));
+        setRoadStartNodeId(roadStartNodeId === id ? null : id);
+      } else {
+        setSelectedNodeId(id);
+      }
+    },
+    onNodeMove: (id, x, y) => applyEdit(moveNode(draftMap, id, x, y))
+  } : null;
+
+  // Undo / Redo shortcuts while editing
+  useEffect(() => {
+    if (!isEditing) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement).tagName === 'INPUT') return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        setEditorHistory(h => (h ? undo(h) : h));
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        setEditorHistory(h => (h ? redo(h) : h));
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isEditing]);
+
+  // Run shortcuts: Space launches, pauses and resumes (or plays a replay),
+  // S steps, R resets, arrow keys step through a replay.
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement).tagName;
+      if (isEditing || e.ctrlKey || e.metaKey || e.altKey || ['INPUT', 'SELECT', 'TEXTAREA'].includes(tag)) return;
+      const key = e.key.toLowerCase();
+      if (replayResult) {
+        if (key === ' ') handleToggleReplay();
+        else if (key === 'arrowleft') handleReplayStep(-1);
+        else if (key === 'arrowright') handleReplayStep(1);
+        else return;
+      } else if (key === ' ') {
+        if (runStatus === RunStatus.IDLE) handleLaunch();
+        else handleTogglePause();
+      } else if (key === 's') {
+        handleStep();
+      } else if (key === 'r' && runStatus !== RunStatus.IDLE) {
+        handleReset();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const vehicleConfig = VEHICLES[vehicleType];
+
+  const startNode = map.nodes.find(n => n.id === startNodeId);
+  const routeLength = route ? Math.round(getPathLength(route, map.edges) * gridScale) : 0;
 
   // Dynamic Classes based on Theme
   const bgClass = isDarkMode ? 'bg-slate-950' : 'bg-slate-100';
@@ -87,6 +639,49 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-4 lg:gap-6">
+            {/* Map Selector */}
+            <div className={`flex items-center gap-2 px-3 py-1.5 rounded-xl border ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-100 border-slate-200'}`}>
+                <MapIcon size={14} className="text-slate-400" />
+                <select 
+                    value={mapId}
+                    onChange={(e) => handleMapChange(e.target.value)}
+                    disabled={isRunning || isEditing}
+                    title={map.description}
+                    className={`bg-transparent text-sm font-bold focus:outline-none focus:ring-0 cursor-pointer disabled:cursor-not-allowed ${isDarkMode ? 'text-white bg-slate-800' : 'text-slate-900 bg-slate-100'}`}
+                >
+                    {[...MAPS, ...(customMap ? [customMap] : [])].map(m => (
+                        <option key={m.id} value={m.id} className={isDarkMode ? "bg-slate-800 text-white" : "bg-white text-slate-900"}>
+                            {m.name}
+                        </option>
+                    ))}
+                </select>
+                <button
+                    onClick={isEditing ? handleStopEditing : handleStartEditing}
+                    disabled={isRunning}
+                    title={isEditing ? 'Leave the map editor' : 'Edit this map'}
+                    className={`p-1 rounded-md transition-all disabled:opacity-40 disabled:cursor-not-allowed ${isEditing ? 'bg-yellow-500 text-slate-900' : 'text-slate-400 hover:text-yellow-500'}`}
+                >
+                    <PencilRuler size={14} />
+                </button>
+            </div>
+
+            {/* Start Selector */}
+            <div className={`flex items-center gap-2 px-3 py-1.5 rounded-xl border ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-100 border-slate-200'}`}>
+                <span className="text-[10px] uppercase font-bold text-slate-400 tracking-wider">Start:</span>
+                <select 
+                    value={startNodeId}
+                    onChange={(e) => setStartNodeId(e.target.value)}
+                    disabled={isRunning}
+                    className={`bg-transparent text-sm font-bold focus:outline-none focus:ring-0 cursor-pointer disabled:cursor-not-allowed ${isDarkMode ? 'text-emerald-400' : 'text-emerald-600'} ${isDarkMode ? 'bg-slate-800' : 'bg-slate-100'}`}
+                >
+                    {map.nodes.filter(n => n.id !== finishNodeId).map(n => (
+                        <option key={n.id} value={n.id} className={isDarkMode ? "bg-slate-800 text-white" : "bg-white text-slate-900"}>
+                            {n.label} ({n.name})
+                        </option>
+                    ))}
+                </select>
+            </div>
+
             {/* Finish Line Selector */}
             <div className={`flex items-center gap-2 px-3 py-1.5 rounded-xl border ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-100 border-slate-200'}`}>
                 <span className="text-[10px] uppercase font-bold text-slate-400 tracking-wider">Destination:</span>
@@ -96,7 +691,7 @@ const App: React.FC = () => {
                     disabled={isRunning}
                     className={`bg-transparent text-sm font-bold focus:outline-none focus:ring-0 cursor-pointer disabled:cursor-not-allowed ${isDarkMode ? 'text-yellow-400' : 'text-yellow-600'} ${isDarkMode ? 'bg-slate-800' : 'bg-slate-100'}`}
                 >
-                    {NODES.filter(n => n.isFinishOption).map(n => (
+                    {map.nodes.filter(n => n.isFinishOption && n.id !== startNodeId).map(n => (
                         <option key={n.id} value={n.id} className={isDarkMode ? "bg-slate-800 text-white" : "bg-white text-slate-900"}>
                             Checkpoint {n.label} ({n.name})
                         </option>
@@ -104,27 +699,102 @@ const App: React.FC = () => {
                 </select>
             </div>
 
-            {/* Launch / Reset Button */}
-            <div className="w-32 lg:w-40 flex justify-end">
-                {!isRunning ? (
+            {/* Run Controls */}
+            <div className="flex items-center gap-2">
+                {runStatus === RunStatus.IDLE && (
                     <button 
                         onClick={handleLaunch}
-                        className="w-full flex items-center justify-center gap-2 bg-green-600 hover:bg-green-500 text-white font-bold py-2 rounded-full shadow-lg transition-all transform hover:scale-105 active:scale-95 text-sm"
+                        disabled={!route || isEditing}
+                        title={route ? 'Launch (Space)' : 'No road connects the start to the destination'}
+                        className="disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 w-32 lg:w-40 flex items-center justify-center gap-2 bg-green-600 hover:bg-green-500 text-white font-bold py-2 rounded-full shadow-lg transition-all transform hover:scale-105 active:scale-95 text-sm"
                     >
                         <Play size={16} fill="currentColor" />
                         LAUNCH
                     </button>
-                ) : (
+                )}
+                {runStatus === RunStatus.RUNNING && (
+                    <button 
+                        onClick={handleTogglePause}
+                        title="Pause (Space)"
+                        className="w-32 lg:w-40 flex items-center justify-center gap-2 font-bold py-2 rounded-full shadow-lg transition-all border text-sm bg-amber-500 hover:bg-amber-400 text-slate-900 border-amber-400"
+                    >
+                        <Pause size={16} fill="currentColor" />
+                        PAUSE
+                    </button>
+                )}
+                {runStatus === RunStatus.PAUSED && (
+                    <button 
+                        onClick={handleTogglePause}
+                        title="Resume (Space)"
+                        className="w-32 lg:w-40 flex items-center justify-center gap-2 font-bold py-2 rounded-full shadow-lg transition-all border text-sm bg-green-600 hover:bg-green-500 text-white border-green-500"
+                    >
+                        <Play size={16} fill="currentColor" />
+                        RESUME
+                    </button>
+                )}
+                {runStatus === RunStatus.FINISHED && (
                     <button 
                         onClick={handleReset}
-                        className={`w-full flex items-center justify-center gap-2 font-bold py-2 rounded-full shadow-lg transition-all border text-sm ${isDarkMode ? 'bg-slate-700 hover:bg-slate-600 text-white border-slate-600' : 'bg-slate-200 hover:bg-slate-300 text-slate-800 border-slate-300'}`}
+                        title="Reset (R)"
+                        className={`w-32 lg:w-40 flex items-center justify-center gap-2 font-bold py-2 rounded-full shadow-lg transition-all border text-sm ${isDarkMode ? 'bg-slate-700 hover:bg-slate-600 text-white border-slate-600' : 'bg-slate-200 hover:bg-slate-300 text-slate-800 border-slate-300'}`}
                     >
                         <RotateCcw size={16} />
                         RESET
                     </button>
                 )}
+                {runStatus !== RunStatus.FINISHED && (
+                    <button
+                        onClick={handleStep}
+                        disabled={!route || isEditing}
+                        title={`Step ${SINGLE_STEP_TIME} s (S)`}
+                        className={`p-2 rounded-full shadow-lg transition-all border disabled:opacity-50 disabled:cursor-not-allowed ${isDarkMode ? 'bg-slate-700 hover:bg-slate-600 text-white border-slate-600' : 'bg-slate-200 hover:bg-slate-300 text-slate-800 border-slate-300'}`}
+                    >
+                        <StepForward size={16} />
+                    </button>
+                )}
+                {isRunning && (
+                    <button
+                        onClick={handleReset}
+                        title="Reset (R)"
+                        className={`p-2 rounded-full shadow-lg transition-all border disabled:opacity-50 disabled:cursor-not-allowed ${isDarkMode ? 'bg-slate-700 hover:bg-slate-600 text-white border-slate-600' : 'bg-slate-200 hover:bg-slate-300 text-slate-800 border-slate-300'}`}
+                    >
+                        <RotateCcw size={16} />
+                    </button>
+                )}
             </div>
 
+            {/* Copy Link */}
+            <button
+                onClick={handleCopyLink}
+                title="Copy a link to this experiment"
+                className={`p-2 rounded-lg border transition-all ${isLinkCopied ? 'bg-emerald-500 text-white border-emerald-400' : isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white' : 'bg-white border-slate-200 text-slate-500 hover:text-slate-900'}`}
+            >
+                {isLinkCopied ? <Check size={20} /> : <Link size={20} />}
+            </button>
+
+            {/* Graphs Toggle */}
+            <button
+                onClick={() => setIsGraphsOpen(!isGraphsOpen)}
+                title="Motion Graphs"
+                className={`p-2 rounded-lg border transition-all ${isGraphsOpen ? 'bg-yellow-500 text-slate-900 border-yellow-400' : isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white' : 'bg-white border-slate-200 text-slate-500 hover:text-slate-900'}`}
+            >
+                <LineChart size={20} />
+            </button>
+
+            {/* History Toggle */}
+            <button
+                onClick={() => setIsHistoryOpen(true)}
+                title="Run History"
+                className={`relative p-2 rounded-lg border transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white' : 'bg-white border-slate-200 text-slate-500 hover:text-slate-900'}`}
+            >
+                <History size={20} />
+                {runHistory.length > 0 && (
+                    <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-yellow-500 text-slate-900 text-[10px] font-bold flex items-center justify-center">
+                        {runHistory.length}
+                    </span>
+                )}
+            </button>
+
             {/* Sidebar Toggle */}
             <button
                 onClick={() => setIsSidebarOpen(!isSidebarOpen)}
@@ -139,30 +809,114 @@ const App: React.FC = () => {
       <div className="flex-1 flex overflow-hidden relative">
         
         {/* CENTER: Canvas */}
-        <main className="flex-1 relative flex p-2 lg:p-4">
+        <main className="flex-1 relative flex gap-2 lg:gap-4 p-2 lg:p-4">
+            {/* LEFT: Live Motion Graphs */}
+            {isGraphsOpen && !isEditing && (
+                <div className={`w-72 flex-none overflow-y-auto rounded-xl border-2 p-3 ${isDarkMode ? 'border-slate-800 bg-slate-900' : 'border-slate-300 bg-white'}`}>
+                    <h3 className={`flex items-center gap-2 text-xs font-bold uppercase tracking-wider mb-3 ${subLabelClass}`}>
+                        <LineChart size={14} className={isDarkMode ? "text-yellow-500" : "text-yellow-600"} /> Motion Graphs
+                    </h3>
+                    <MotionGraphs
+                        samples={replayResult
+                            ? replayResult.telemetry.filter(sample => sample.time <= replayTime)
+                            : result?.telemetry ?? liveTelemetry}
+                        gridScale={gridScale}
+                        isDarkMode={isDarkMode}
+                    />
+                </div>
+            )}
             <div className={`w-full h-full relative shadow-2xl rounded-xl overflow-hidden border-2 ${isDarkMode ? 'border-slate-800 bg-slate-900' : 'border-slate-300 bg-white'}`}>
                 <SimulationCanvas 
+                    map={draftMap ?? map}
                     vehicleType={vehicleType}
                     gridScale={gridScale}
-                    finishNodeId={finishNodeId}
+                    route={draftMap
+                        ? draftMap.nodes.filter(n => n.id === draftMap.defaultStartNodeId)
+                        : route ?? (startNode ? [startNode] : map.nodes.slice(0, 1))}
                     showBuildings={showBuildings}
-                    isRunning={isRunning}
-                    isFinished={!!result}
+                    status={runStatus}
+                    stepCount={stepCount}
+                    replayTime={replayResult ? replayTime : null}
                     onFinish={handleFinish}
+                    onStall={handleStall}
+                    onTelemetry={setLiveTelemetry}
+                    rivals={raceVehicles}
+                    onRaceFinish={setRaceStandings}
                     // PHYSICS PROPS
                     targetSpeed={targetSpeed}
-                    friction={isFrictionOn ? friction : 0}
+                    surfaceZones={activeZones}
+                    trafficControls={trafficControls}
                     airResistance={airResistance}
+                    dragModel={dragModel}
+                    linearDrag={linearDrag}
+                    airDensity={airDensity}
+                    dragArea={dragArea}
                     mass={mass}
-                    frictionStartNode={frictionStartNode}
-                    frictionEndNode={frictionEndNode}
+                    engine={engine}
+                    isCornering={isCornering}
                     isDarkMode={isDarkMode}
+                    editor={canvasEditor}
                 />
+                {runStatus === RunStatus.FINISHED && isStalled && (
+                    <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-2 px-4 py-2 rounded-xl border text-xs font-bold bg-red-500/10 border-red-500/40 text-red-500 backdrop-blur-sm">
+                        <AlertTriangle size={14} /> The {vehicleConfig.name.toLowerCase()} stalled: its engine cannot overcome the resistance. Reset to try again.
+                    </div>
+                )}
+                {replayResult && (
+                    <ReplayControls
+                        time={replayTime}
+                        duration={replayDuration}
+                        isPlaying={isReplayPlaying}
+                        rate={replayRate}
+                        onTimeChange={(time) => {
+                            setIsReplayPlaying(false);
+                            setReplayTime(time);
+                        }}
+                        onTogglePlay={handleToggleReplay}
+                        onStep={handleReplayStep}
+                        onRateChange={setReplayRate}
+                        onShowResults={() => setIsReplaying(false)}
+                        onExit={handleReset}
+                        isDarkMode={isDarkMode}
+                    />
+                )}
             </div>
         </main>
 
+        {/* RIGHT: Map Editor (replaces the settings while editing) */}
+        {draftMap && editorHistory && (
+            <MapEditorPanel
+                map={draftMap}
+                tool={editorTool}
+                onToolChange={handleToolChange}
+                newNodeType={newNodeType}
+                onNewNodeTypeChange={setNewNodeType}
+                selectedNode={selectedNode}
+                onUpdateNode={(changes) => selectedNode && applyEdit(updateNode(draftMap, selectedNode.id, changes))}
+                onDeleteNode={() => {
+                    if (!selectedNode) return;
+                    applyEdit(deleteNode(draftMap, selectedNode.id));
+                    setSelectedNodeId(null);
+                }}
+                onSetStart={() => selectedNode && applyEdit(setStartNode(draftMap, selectedNode.id))}
+                onRename={(name) => applyEdit({ ...draftMap, name })}
+                canUndo={editorHistory.past.length > 0}
+                canRedo={editorHistory.future.length > 0}
+                onUndo={() => setEditorHistory(undo(editorHistory))}
+                onRedo={() => setEditorHistory(redo(editorHistory))}
+                onClear={() => {
+                    applyEdit(createBlankMap(draftMap.gridCols, draftMap.gridRows));
+                    setSelectedNodeId(null);
+                }}
+                onApply={handleApplyMap}
+                onCancel={handleStopEditing}
+                errors={draftErrors}
+                isDarkMode={isDarkMode}
+            />
+        )}
+
         {/* RIGHT: Floating Sidebar (Global Controls) */}
-        {isSidebarOpen && (
+        {isSidebarOpen && !isEditing && (
             <aside className={`w-80 flex-none border-l flex flex-col z-30 shadow-2xl backdrop-blur-xl absolute right-0 top-0 bottom-0 animate-in slide-in-from-right duration-300 ${sidebarClass}`}>
                 
                 {/* Fixed Title Header */}
@@ -202,6 +956,119 @@ const App: React.FC = () => {
                             >
                                 <RefreshCw size={12} /> Restore Default Settings
                             </button>
+
+                             {/* Experiment File */}
+                             <div className="flex justify-between items-center w-full">
+                                 <span className={`text-[10px] font-bold ${subLabelClass}`}>SETUP FILE</span>
+                                 <div className="flex items-center gap-1">
+                                     <button 
+                                        onClick={handleExportSetup}
+                                        title="Download map and settings as a JSON file"
+                                        className={`flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider px-3 py-1.5 rounded-full border transition-all ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 border-slate-300 text-slate-600 hover:bg-slate-200'}`}
+                                    >
+                                        <Download size={12} /> Save
+                                    </button>
+                                     <button 
+                                        onClick={() => fileInputRef.current?.click()}
+                                        disabled={isRunning}
+                                        title="Load a map and settings from a JSON file"
+                                        className={`flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider px-3 py-1.5 rounded-full border transition-all disabled:opacity-50 disabled:cursor-not-allowed ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 border-slate-300 text-slate-600 hover:bg-slate-200'}`}
+                                    >
+                                        <Upload size={12} /> Load
+                                    </button>
+                                    <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImportSetup} className="hidden" />
+                                 </div>
+                             </div>
+
+                             {importErrors.length > 0 && (
+                                <div className="p-2 rounded-xl border border-red-500/30 bg-red-500/10 space-y-1">
+                                    <div className="flex items-center justify-between">
+                                        <span className="flex items-center gap-1 text-red-500 text-[10px] font-bold uppercase tracking-wider">
+                                            <AlertTriangle size={12} /> Could not load setup
+                                        </span>
+                                        <button onClick={() => setImportErrors([])} className="text-red-400 hover:text-red-500">
+                                            <X size={12} />
+                                        </button>
+                                    </div>
+                                    {importErrors.map((error, i) => (
+                                        <p key={i} className={`text-[10px] ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>• {error}</p>
+                                    ))}
+                                </div>
+                             )}
+                        </div>
+
+                        {/* ROUTE PLANNER */}
+                        <div className={`space-y-4 p-4 rounded-2xl border ${cardClass}`}>
+                            <div className="flex items-center gap-2 text-yellow-500 text-xs font-bold uppercase tracking-wider mb-2">
+                                <Route size={14} /> Route
+                            </div>
+                            <div className="space-y-2">
+                                <div className="flex justify-between items-end">
+                                    <label className={`text-sm font-bold ${labelClass}`}>Distance</label>
+                                    <span className={`text-xs font-mono px-2 py-1 rounded text-yellow-500 border ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
+                                        {route ? `${routeLength} m` : 'No route'}
+                                    </span>
+                                </div>
+                                <p className={`text-[11px] font-mono break-words ${subLabelClass}`}>
+                                    {route ? route.map(n => n.label).join(' → ') : 'No road connects these checkpoints.'}
+                                </p>
+                            </div>
+
+                            {/* Checkpoints */}
+                            <div className="space-y-2">
+                                <label className={`text-[9px] font-bold block ${subLabelClass}`}>VIA CHECKPOINTS (IN ORDER)</label>
+                                {checkpointIds.length > 0 && (
+                                    <div className="flex flex-wrap gap-1">
+                                        {checkpointIds.map((id, index) => (
+                                            <span key={`${id}-${index}`} className="flex items-center gap-1 text-[10px] font-bold px-2 py-1 rounded-full border bg-yellow-500/10 text-yellow-500 border-yellow-500/30">
+                                                {index + 1}. {id}
+                                                <button
+                                                    onClick={() => setCheckpointIds(checkpointIds.filter((_, i) => i !== index))}
+                                                    disabled={isRunning}
+                                                    className="hover:text-red-500 disabled:cursor-not-allowed"
+                                                >
+                                                    <X size={10} />
+                                                </button>
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                                <div className="flex items-center gap-2">
+                                    <Plus size={12} className={subLabelClass} />
+                                    <select 
+                                        value=""
+                                        onChange={(e) => e.target.value && setCheckpointIds([...checkpointIds, e.target.value])}
+                                        disabled={isRunning}
+                                        className={`w-full rounded-lg text-xs py-1.5 px-2 focus:outline-none focus:border-yellow-400 disabled:opacity-50 ${inputBgClass}`}
+                                    >
+                                        <option value="">Add checkpoint…</option>
+                                        {map.nodes.filter(n => n.id !== startNodeId && n.id !== finishNodeId).map(n => (
+                                            <option key={n.id} value={n.id}>{n.label} ({n.name})</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <p className="text-[10px] text-slate-400">
+                                    Same start and destination, different route: the displacement stays the same but the distance changes.
+                                </p>
+                            </div>
+
+                            {/* Round trip */}
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <label className={`text-[9px] font-bold block ${subLabelClass}`}>RETURN TO START ({startNodeId})</label>
+                                    <button
+                                        onClick={() => setIsRoundTrip(!isRoundTrip)}
+                                        disabled={isRunning}
+                                        className={`flex items-center gap-1 text-[10px] font-bold px-2 py-1 rounded-full border transition-all disabled:opacity-50 disabled:cursor-not-allowed ${isRoundTrip ? 'bg-yellow-500/10 text-yellow-500 border-yellow-500/30' : 'bg-slate-500/10 text-slate-400 border-slate-500/30'}`}
+                                    >
+                                        <RefreshCw size={10} />
+                                        {isRoundTrip ? 'ON' : 'OFF'}
+                                    </button>
+                                </div>
+                                <p className="text-[10px] text-slate-400">
+                                    A round trip ends where it began: the distance keeps growing, but the displacement and the average velocity come back to zero.
+                                </p>
+                            </div>
                         </div>
 
                         {/* CONTROL 0: GRID SCALE */}
@@ -234,114 +1101,140 @@ const App: React.FC = () => {
                         </div>
 
                         {/* CONTROL 2: FRICTION */}
+                        <SurfaceZoneSetup
+                            isEnabled={isFrictionOn}
+                            onToggle={() => setIsFrictionOn(!isFrictionOn)}
+                            zones={surfaceZones}
+                            onAdd={handleAddSurfaceZone}
+                            onUpdate={handleSurfaceZoneUpdate}
+                            onRemove={(id) => setSurfaceZones(surfaceZones.filter(zone => zone.id !== id))}
+                            map={map}
+                            disabled={isRunning}
+                            isDarkMode={isDarkMode}
+                        />
+
+                        {/* CONTROL 3: AIR RESISTANCE */}
                         <div className={`space-y-4 p-4 rounded-2xl border ${cardClass}`}>
-                            <div className="flex items-center justify-between mb-2">
-                                <div className="flex items-center gap-2 text-orange-500 text-xs font-bold uppercase tracking-wider">
-                                    <Layers size={14} /> Friction Control
-                                </div>
-                                {/* Toggle Switch */}
-                                <button 
-                                    onClick={() => setIsFrictionOn(!isFrictionOn)}
-                                    className={`flex items-center gap-1 text-[10px] font-bold px-2 py-1 rounded-full border transition-all ${isFrictionOn ? 'bg-orange-500/10 text-orange-500 border-orange-500/30' : 'bg-slate-500/10 text-slate-400 border-slate-500/30'}`}
-                                >
-                                    <Power size={10} />
-                                    {isFrictionOn ? 'ON' : 'OFF'}
-                                </button>
+                             <div className="flex items-center gap-2 text-cyan-500 text-xs font-bold uppercase tracking-wider mb-2">
+                                <Wind size={14} /> Air Resistance
                             </div>
 
-                            {/* Range Selection */}
-                            <div className={`grid grid-cols-2 gap-2 mb-4 transition-opacity ${isFrictionOn ? 'opacity-100' : 'opacity-40 pointer-events-none'}`}>
-                                <div>
-                                    <label className={`text-[9px] font-bold block mb-1 ${subLabelClass}`}>FROM</label>
-                                    <select 
-                                        value={frictionStartNode}
-                                        onChange={(e) => {
-                                            setFrictionStartNode(e.target.value);
-                                            const startIdx = NODES.findIndex(n => n.id === e.target.value);
-                                            const endIdx = NODES.findIndex(n => n.id === frictionEndNode);
-                                            if (endIdx <= startIdx) {
-                                                const next = NODES[startIdx + 1];
-                                                if (next) setFrictionEndNode(next.id);
-                                            }
-                                        }}
-                                        className={`w-full rounded-lg text-xs py-1.5 px-2 focus:outline-none focus:border-yellow-400 ${inputBgClass}`}
+                            <div className="grid grid-cols-3 gap-1">
+                                {[
+                                    { model: DragModel.CONSTANT, label: 'Constant' },
+                                    { model: DragModel.LINEAR, label: 'Linear' },
+                                    { model: DragModel.QUADRATIC, label: 'Quadratic' }
+                                ].map(({ model, label }) => (
+                                    <button
+                                        key={model}
+                                        onClick={() => setDragModel(model)}
+                                        disabled={isRunning}
+                                        className={`py-1.5 rounded-lg border text-[10px] font-bold uppercase transition-colors disabled:opacity-50 ${dragModel === model
+                                            ? 'bg-cyan-500/10 text-cyan-500 border-cyan-500/40'
+                                            : isDarkMode ? 'bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-100'}`}
                                     >
-                                        {rangeOptions.map(n => (
-                                            <option key={n.id} value={n.id}>{n.label}</option>
-                                        ))}
-                                    </select>
-                                </div>
-                                <div>
-                                    <label className={`text-[9px] font-bold block mb-1 ${subLabelClass}`}>TO</label>
-                                    <select 
-                                        value={frictionEndNode}
-                                        onChange={(e) => setFrictionEndNode(e.target.value)}
-                                        className={`w-full rounded-lg text-xs py-1.5 px-2 focus:outline-none focus:border-yellow-400 ${inputBgClass}`}
-                                    >
-                                        {rangeOptions.filter(n => {
-                                            const startIdx = NODES.findIndex(x => x.id === frictionStartNode);
-                                            const thisIdx = NODES.findIndex(x => x.id === n.id);
-                                            return thisIdx > startIdx;
-                                        }).map(n => (
-                                            <option key={n.id} value={n.id}>{n.label}</option>
-                                        ))}
-                                    </select>
-                                </div>
+                                        {label}
+                                    </button>
+                                ))}
                             </div>
 
-                            {/* Friction Slider */}
-                            <div className={`space-y-2 transition-opacity ${isFrictionOn ? 'opacity-100' : 'opacity-40 pointer-events-none'}`}>
-                                <div className="flex justify-between items-end">
-                                    <label className={`text-sm font-bold ${labelClass}`}>Coefficient (µ)</label>
-                                    <span className={`text-xs font-mono px-2 py-1 rounded text-orange-500 border ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
-                                        {friction.toFixed(2)}
-                                    </span>
-                                </div>
-                                <input 
-                                    type="range" 
-                                    min="0" 
-                                    max="5" 
-                                    step="0.1"
-                                    value={friction}
-                                    onChange={(e) => setFriction(Number(e.target.value))}
-                                    className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-orange-500"
-                                />
-                                <div className={`flex justify-between text-[10px] font-bold ${subLabelClass}`}>
-                                    <span>Smooth (0)</span>
-                                    <span>Extreme (5)</span>
+                            {dragModel === DragModel.CONSTANT && (
+                                <div className="space-y-2">
+                                    <div className="flex justify-between items-end">
+                                        <label className={`text-sm font-bold ${labelClass}`}>Force (Newtons)</label>
+                                        <span className={`text-xs font-mono px-2 py-1 rounded text-cyan-500 border ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
+                                            {airResistance} N
+                                        </span>
+                                    </div>
+                                    <input 
+                                        type="range" 
+                                        min="0" 
+                                        max="50" 
+                                        step="1"
+                                        value={airResistance}
+                                        onChange={(e) => setAirResistance(Number(e.target.value))}
+                                        disabled={isRunning}
+                                        className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    />
+                                     <div className={`flex justify-between text-[10px] font-bold ${subLabelClass}`}>
+                                        <span>None (0N)</span>
+                                        <span>Strong (50N)</span>
+                                    </div>
                                 </div>
-                            </div>
-                        </div>
-
-                        {/* CONTROL 3: AIR RESISTANCE */}
-                        <div className={`space-y-4 p-4 rounded-2xl border ${cardClass}`}>
-                             <div className="flex items-center gap-2 text-cyan-500 text-xs font-bold uppercase tracking-wider mb-2">
-                                <Wind size={14} /> Air Resistance
-                            </div>
+                            )}
 
-                            <div className="space-y-2">
-                                <div className="flex justify-between items-end">
-                                    <label className={`text-sm font-bold ${labelClass}`}>Force (Newtons)</label>
-                                    <span className={`text-xs font-mono px-2 py-1 rounded text-cyan-500 border ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
-                                        {airResistance} N
-                                    </span>
+                            {dragModel === DragModel.LINEAR && (
+                                <div className="space-y-2">
+                                    <div className="flex justify-between items-end">
+                                        <label className={`text-sm font-bold ${labelClass}`}>k (N·s/m)</label>
+                                        <span className={`text-xs font-mono px-2 py-1 rounded text-cyan-500 border ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
+                                            {linearDrag} N·s/m
+                                        </span>
+                                    </div>
+                                    <input 
+                                        type="range" 
+                                        min="0" 
+                                        max="10" 
+                                        step="0.1"
+                                        value={linearDrag}
+                                        onChange={(e) => setLinearDrag(Number(e.target.value))}
+                                        disabled={isRunning}
+                                        className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    />
+                                    <p className="text-[10px] text-slate-400">F = k·v: doubling the speed doubles the drag.</p>
                                 </div>
-                                <input 
-                                    type="range" 
-                                    min="0" 
-                                    max="50" 
-                                    step="1"
-                                    value={airResistance}
-                                    onChange={(e) => setAirResistance(Number(e.target.value))}
-                                    className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-cyan-400"
-                                />
-                                 <div className={`flex justify-between text-[10px] font-bold ${subLabelClass}`}>
-                                    <span>None (0N)</span>
-                                    <span>Strong (50N)</span>
+                            )}
+
+                            {dragModel === DragModel.QUADRATIC && (
+                                <div className="space-y-2">
+                                    <div className="flex justify-between items-end">
+                                        <label className={`text-sm font-bold ${labelClass}`}>Air Density ρ</label>
+                                        <span className={`text-xs font-mono px-2 py-1 rounded text-cyan-500 border ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
+                                            {airDensity} kg/m³
+                                        </span>
+                                    </div>
+                                    <input 
+                                        type="range" 
+                                        min="0" 
+                                        max="2" 
+                                        step="0.05"
+                                        value={airDensity}
+                                        onChange={(e) => setAirDensity(Number(e.target.value))}
+                                        disabled={isRunning}
+                                        className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    />
+                                    <div className="flex justify-between items-end">
+                                        <label className={`text-sm font-bold ${labelClass}`}>Drag Area Cd·A</label>
+                                        <span className={`text-xs font-mono px-2 py-1 rounded text-cyan-500 border ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
+                                            {dragArea} m²
+                                        </span>
+                                    </div>
+                                    <input 
+                                        type="range" 
+                                        min="0" 
+                                        max="10" 
+                                        step="0.1"
+                                        value={dragArea}
+                                        onChange={(e) => setDragArea(Number(e.target.value))}
+                                        disabled={isRunning}
+                                        className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    />
+                                    <p className="text-[10px] text-slate-400">F = ½·ρ·Cd·A·v²: doubling the speed quadruples the drag.</p>
                                 </div>
-                            </div>
+                            )}
                         </div>
 
+                        {/* CONTROL 8: TRAFFIC */}
+                        <TrafficSetup
+                            controls={trafficControls}
+                            onAdd={handleAddTrafficControl}
+                            onUpdate={handleTrafficControlUpdate}
+                            onRemove={(id) => setTrafficControls(trafficControls.filter(control => control.id !== id))}
+                            map={map}
+                            disabled={isRunning}
+                            isDarkMode={isDarkMode}
+                        />
+
                     </section>
 
                     {/* SECTION 2: VEHICLE CONTROLLER */}
@@ -351,6 +1244,32 @@ const App: React.FC = () => {
                             <h3 className={`text-xs font-bold uppercase tracking-wider ${subLabelClass}`}>Vehicle Controller</h3>
                         </div>
 
+                        {/* CONTROL 0: VEHICLE TYPE */}
+                        <div className={`space-y-4 p-4 rounded-2xl border ${cardClass}`}>
+                             <div className="flex items-center gap-2 text-emerald-500 text-xs font-bold uppercase tracking-wider mb-2">
+                                <CarFront size={14} /> Vehicle
+                            </div>
+                            <div className="grid grid-cols-5 gap-2">
+                                {Object.values(VEHICLES).map(vehicle => (
+                                    <button
+                                        key={vehicle.type}
+                                        onClick={() => handleVehicleChange(vehicle.type)}
+                                        disabled={isRunning}
+                                        title={vehicle.name}
+                                        className={`flex flex-col items-center gap-1 py-2 rounded-xl border text-[9px] font-bold uppercase transition-colors disabled:opacity-50 ${vehicleType === vehicle.type
+                                            ? 'bg-emerald-500/20 border-emerald-500 text-emerald-500'
+                                            : isDarkMode ? 'bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-100'}`}
+                                    >
+                                        <span className="text-lg leading-none">{vehicle.icon}</span>
+                                        {vehicle.name}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-[10px] text-slate-400">
+                                {vehicleConfig.name}: top speed {vehicleConfig.maxSpeed} m/s, engine force up to {vehicleConfig.maxEngineForce} N, drag area {vehicleConfig.dragArea} m².
+                            </p>
+                        </div>
+
                         {/* CONTROL 1: ENGINE SPEED */}
                         <div className={`space-y-4 p-4 rounded-2xl border ${cardClass}`}>
                              <div className="flex items-center gap-2 text-emerald-500 text-xs font-bold uppercase tracking-wider mb-2">
@@ -365,16 +1284,17 @@ const App: React.FC = () => {
                                 </div>
                                 <input 
                                     type="range" 
-                                    min="10" 
-                                    max="120" 
-                                    step="5"
+                                    min={vehicleConfig.minSpeed} 
+                                    max={vehicleConfig.maxSpeed} 
+                                    step={vehicleConfig.speedStep}
                                     value={targetSpeed}
                                     onChange={(e) => setTargetSpeed(Number(e.target.value))}
-                                    className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                                    disabled={isRunning}
+                                    className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed"
                                 />
                                 <div className={`flex justify-between text-[10px] font-bold ${subLabelClass}`}>
-                                    <span>10 m/s</span>
-                                    <span>120 m/s</span>
+                                    <span>{vehicleConfig.minSpeed} m/s</span>
+                                    <span>{vehicleConfig.maxSpeed} m/s</span>
                                 </div>
                             </div>
                         </div>
@@ -398,17 +1318,109 @@ const App: React.FC = () => {
                                     step="5"
                                     value={mass}
                                     onChange={(e) => setMass(Number(e.target.value))}
-                                    className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                                    disabled={isRunning}
+                                    className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
                                 />
                                 <div className={`flex justify-between text-[10px] font-bold ${subLabelClass}`}>
                                     <span>Light (10kg)</span>
                                     <span>Heavy (100kg)</span>
                                 </div>
                                 <p className="text-[10px] text-slate-400 mt-1">
-                                    Heavier cars accelerate slower.
+                                    Heavier vehicles accelerate slower{isRealisticEngine ? '.' : ', most visibly with the realistic engine.'}
                                 </p>
                             </div>
                         </div>
+
+                        {/* CONTROL 5: ENGINE MODEL */}
+                        <div className={`space-y-4 p-4 rounded-2xl border ${cardClass}`}>
+                            <div className="flex items-center justify-between mb-2">
+                                <div className="flex items-center gap-2 text-yellow-500 text-xs font-bold uppercase tracking-wider">
+                                    <Zap size={14} /> Realistic Engine
+                                </div>
+                                <button 
+                                    onClick={() => setIsRealisticEngine(!isRealisticEngine)}
+                                    disabled={isRunning}
+                                    className={`flex items-center gap-1 text-[10px] font-bold px-2 py-1 rounded-full border transition-all disabled:opacity-50 ${isRealisticEngine ? 'bg-yellow-500/10 text-yellow-500 border-yellow-500/30' : 'bg-slate-500/10 text-slate-400 border-slate-500/30'}`}
+                                >
+                                    <Power size={10} />
+                                    {isRealisticEngine ? 'ON' : 'OFF'}
+                                </button>
+                            </div>
+                            <div className={`space-y-2 transition-opacity ${isRealisticEngine ? 'opacity-100' : 'opacity-40 pointer-events-none'}`}>
+                                <div className="flex justify-between items-end">
+                                    <label className={`text-sm font-bold ${labelClass}`}>Reaction Time (s)</label>
+                                    <span className={`text-xs font-mono px-2 py-1 rounded text-yellow-500 border ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
+                                        {reactionTime.toFixed(1)} s
+                                    </span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0" 
+                                    max="2" 
+                                    step="0.1"
+                                    value={reactionTime}
+                                    onChange={(e) => setReactionTime(Number(e.target.value))}
+                                    disabled={isRunning}
+                                    className="w-full h-2 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-yellow-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                                />
+                                <div className={`grid grid-cols-3 gap-2 text-center text-[10px] font-bold ${subLabelClass}`}>
+                                    <div className={`p-1.5 rounded border ${isDarkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                                        <div className={labelClass}>{vehicleConfig.maxEngineForce} N</div>Engine
+                                    </div>
+                                    <div className={`p-1.5 rounded border ${isDarkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                                        <div className={labelClass}>{vehicleConfig.maxPower} W</div>Power
+                                    </div>
+                                    <div className={`p-1.5 rounded border ${isDarkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+                                        <div className={labelClass}>{vehicleConfig.maxBrakeForce} N</div>Brakes
+                                    </div>
+                                </div>
+                            </div>
+                            <p className="text-[10px] text-slate-400">
+                                {isRealisticEngine
+                                    ? `Force is capped by the ${vehicleConfig.name.toLowerCase()}'s engine and power, so speeding up takes time, and the driver brakes to stop at the destination.`
+                                    : 'Off: an ideal engine holds the target speed almost instantly.'}
+                            </p>
+                        </div>
+
+                        {/* CONTROL 6: CORNERING */}
+                        <div className={`space-y-4 p-4 rounded-2xl border ${cardClass}`}>
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-2 text-sky-500 text-xs font-bold uppercase tracking-wider">
+                                    <CornerUpRight size={14} /> Cornering
+                                </div>
+                                <button 
+                                    onClick={() => setIsCornering(!isCornering)}
+                                    disabled={isRunning}
+                                    className={`flex items-center gap-1 text-[10px] font-bold px-2 py-1 rounded-full border transition-all disabled:opacity-50 ${isCornering ? 'bg-sky-500/10 text-sky-500 border-sky-500/30' : 'bg-slate-500/10 text-slate-400 border-slate-500/30'}`}
+                                >
+                                    <Power size={10} />
+                                    {isCornering ? 'ON' : 'OFF'}
+                                </button>
+                            </div>
+                            <p className="text-[10px] text-slate-400">
+                                {isCornering
+                                    ? 'Turns are driven as arcs. The vehicle brakes to a safe speed, √(µ·g·r), before each turn and speeds up again after it. Sharper turns and slippery roads mean slower corners.'
+                                    : 'Off: the vehicle snaps around corners without slowing down.'}
+                            </p>
+                        </div>
+
+                        {/* CONTROL 7: RACE MODE */}
+                        <RaceSetup
+                            isEnabled={isRaceMode}
+                            onToggle={() => {
+                                if (!isRaceMode && raceEntries.length === 0) setRaceEntries([createRaceEntry([])]);
+                                setIsRaceMode(!isRaceMode);
+                            }}
+                            entries={raceEntries}
+                            onAdd={() => setRaceEntries([...raceEntries, createRaceEntry(raceEntries)])}
+                            onUpdate={handleRaceEntryUpdate}
+                            onRemove={(id) => setRaceEntries(raceEntries.filter(e => e.id !== id))}
+                            mainName={getRacerName(vehicleType, 0)}
+                            nodes={map.nodes.filter(n => n.id !== startNodeId)}
+                            unreachableIds={raceEntries.filter(e => !raceVehicles.some(v => v.id === e.id)).map(e => e.id)}
+                            disabled={isRunning}
+                            isDarkMode={isDarkMode}
+                        />
                     </section>
 
                 </div>
@@ -423,7 +1435,55 @@ const App: React.FC = () => {
       </footer>
 
       {/* Results Popup */}
-      <ResultsModal result={result} onClose={handleReset} isDarkMode={isDarkMode} />
+      <ResultsModal
+          result={replayResult || raceStandings ? null : result}
+          gridScale={gridScale}
+          onClose={handleReset}
+          onReplay={handleReplay}
+          isDarkMode={isDarkMode}
+      />
+      {!result && (
+          <ResultsModal
+              result={viewedRun?.result ?? null}
+              gridScale={viewedRun?.setup.settings.gridScale ?? gridScale}
+              onClose={() => setViewedRun(null)}
+              isDarkMode={isDarkMode}
+          />
+      )}
+
+      {/* Race Results */}
+      <RaceResultsModal
+          standings={result && !replayResult ? raceStandings : null}
+          onClose={handleReset}
+          onReplay={handleReplay}
+          onShowDetails={setRaceDetail}
+          isDarkMode={isDarkMode}
+      />
+      {raceDetail && (
+          <ResultsModal
+              result={raceDetail.result}
+              gridScale={gridScale}
+              onClose={() => setRaceDetail(null)}
+              isDarkMode={isDarkMode}
+          />
+      )}
+
+      {/* Run History */}
+      <HistoryPanel
+          isOpen={isHistoryOpen}
+          records={runHistory}
+          unsavedCount={unsavedRunCount}
+          onClose={() => setIsHistoryOpen(false)}
+          onView={handleViewRun}
+          onRerun={handleRerun}
+          onDelete={(id) => setRunHistory(records => records.filter(r => r.id !== id))}
+          onClear={() => setRunHistory([])}
+          onCompare={setComparedRuns}
+          isDarkMode={isDarkMode}
+      />
+
+      {/* Run Comparison */}
+      <ComparisonModal records={comparedRuns} onClose={() => setComparedRuns(null)} isDarkMode={isDarkMode} />
     </div>
   );
 };
@@ -0,0 +1,133 @@
+import React from 'react';
+import { X, Columns, Sliders, Timer, Route } from 'lucide-react';
+import { RunRecord } from '../types';
+import { getSettingRows, getResultRows, getSegmentRows } from '../utils/runComparison';
+
+interface ComparisonModalProps {
+  records: RunRecord[] | null;
+  onClose: () => void;
+  isDarkMode?: boolean;
+}
+
+const RUN_COLORS = ['#eab308', '#3b82f6', '#10b981', '#ef4444'];
+
+// Lines up selected runs column by column. Rows where the runs differ are
+// highlighted; numbers show their difference from the first run.
+const ComparisonModal: React.FC<ComparisonModalProps> = ({ records, onClose, isDarkMode = true }) => {
+  if (!records || records.length === 0) return null;
+
+  const bgClass = isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-300';
+  const textClass = isDarkMode ? 'text-white' : 'text-slate-900';
+  const subTextClass = isDarkMode ? 'text-slate-400' : 'text-slate-500';
+  const cardBorderClass = isDarkMode ? 'border-slate-700' : 'border-slate-200';
+  const diffRowClass = isDarkMode ? 'bg-yellow-500/10' : 'bg-yellow-50';
+
+  const settingRows = getSettingRows(records);
+  const resultRows = getResultRows(records);
+  const segmentRows = getSegmentRows(records);
+
+  const formatDelta = (value: number, baseline: number) => {
+    const delta = value - baseline;
+    if (Math.abs(delta) < 0.005) return null;
+    return `${delta > 0 ? '+' : ''}${delta.toFixed(2)}`;
+  };
+
+  const sectionTitle = (icon: React.ReactNode, title: string) => (
+    <tr>
+      <th colSpan={records.length + 1} className={`pt-5 pb-2 text-left text-xs font-bold uppercase tracking-wider ${textClass}`}>
+        <span className="flex items-center gap-2">{icon} {title}</span>
+      </th>
+    </tr>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-300 p-4">
+      <div className={`${bgClass} border rounded-2xl w-full max-w-4xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden`}>
+
+        {/* Header */}
+        <div className={`p-4 border-b ${cardBorderClass} flex items-center justify-between`}>
+            <h2 className={`text-lg font-black ${textClass} flex items-center gap-2`}>
+                <Columns size={18} className="text-yellow-500" /> Compare Runs
+                <span className={`text-xs font-bold ${subTextClass}`}>({records.length})</span>
+            </h2>
+            <button onClick={onClose} className={`${subTextClass} hover:text-yellow-500 transition-colors`}>
+                <X size={20} />
+            </button>
+        </div>
+
+        <div className="overflow-auto p-4">
+            <table className="w-full text-xs border-collapse">
+                <thead>
+                    <tr className={`border-b ${cardBorderClass}`}>
+                        <th className="w-36" />
+                        {records.map((record, i) => (
+                            <th key={record.id} className="p-2 text-left">
+                                <div className="flex items-center gap-2">
+                                    <span className="w-2.5 h-2.5 rounded-full flex-none" style={{ backgroundColor: RUN_COLORS[i % RUN_COLORS.length] }} />
+                                    <span className={`font-bold ${textClass}`}>Run {i + 1}</span>
+                                </div>
+                                <div className={`text-[10px] font-normal ${subTextClass}`}>{new Date(record.timestamp).toLocaleString()}</div>
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {sectionTitle(<Sliders size={14} className="text-yellow-500" />, 'Settings')}
+                    {settingRows.map(row => (
+                        <tr key={row.label} className={`border-b ${cardBorderClass} ${row.isDifferent ? diffRowClass : ''}`}>
+                            <td className={`p-2 font-bold ${subTextClass}`}>{row.label}</td>
+                            {row.values.map((value, i) => (
+                                <td key={i} className={`p-2 font-mono ${row.isDifferent ? 'text-yellow-500 font-bold' : textClass}`}>{value}</td>
+                            ))}
+                        </tr>
+                    ))}
+
+                    {sectionTitle(<Timer size={14} className="text-emerald-500" />, 'Results')}
+                    {resultRows.map(row => (
+                        <tr key={row.label} className={`border-b ${cardBorderClass} ${row.isDifferent ? diffRowClass : ''}`}>
+                            <td className={`p-2 font-bold ${subTextClass}`}>{row.label}</td>
+                            {row.values.map((value, i) => {
+                                const delta = i > 0 ? formatDelta(value, row.values[0]) : null;
+                                return (
+                                    <td key={i} className={`p-2 font-mono ${textClass}`}>
+                                        {value.toFixed(2)} {row.unit}
+                                        {delta && (
+                                            <span className="ml-2 text-[10px] font-bold text-yellow-500">{delta}</span>
+                                        )}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+
+                    {sectionTitle(<Route size={14} className="text-blue-500" />, 'Segment Times')}
+                    {segmentRows.map(row => (
+                        <tr key={row.label} className={`border-b ${cardBorderClass} ${row.isDifferent ? diffRowClass : ''}`}>
+                            <td className={`p-2 font-bold ${subTextClass}`}>Segment {row.label}</td>
+                            {row.times.map((time, i) => {
+                                const baseline = row.times[0];
+                                const delta = i > 0 && time !== null && baseline !== null ? formatDelta(time, baseline) : null;
+                                return (
+                                    <td key={i} className={`p-2 font-mono ${textClass}`}>
+                                        {time === null ? <span className={subTextClass}>—</span> : (
+                                            <>
+                                                <span className={subTextClass}>{row.legs[i]}</span> {time.toFixed(2)} s
+                                                {delta && (
+                                                    <span className="ml-2 text-[10px] font-bold text-yellow-500">{delta}</span>
+                                                )}
+                                            </>
+                                        )}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonModal;
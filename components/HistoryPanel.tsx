@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { X, History, Eye, RotateCw, Trash2, ArrowRight, Download, Columns, AlertTriangle } from 'lucide-react';
+import { DragModel, RunRecord } from '../types';
+import { VEHICLES } from '../constants';
+import { downloadTextFile } from '../utils/files';
+import { historyToCsv, historyToJson } from '../utils/resultExport';
+import { MAX_COMPARED_RUNS, describeAirDrag } from '../utils/runComparison';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  records: RunRecord[];
+  unsavedCount: number; // oldest runs browser storage had no room for
+  onClose: () => void;
+  onView: (record: RunRecord) => void;
+  onRerun: (record: RunRecord) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onCompare: (records: RunRecord[]) => void;
+  isDarkMode?: boolean;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, records, unsavedCount, onClose, onView, onRerun, onDelete, onClear, onCompare, isDarkMode = true }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  if (!isOpen) return null;
+
+  // Oldest first, so the earliest run is the comparison baseline
+  const selectedRecords = records
+    .filter(r => selectedIds.includes(r.id))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => ids.includes(id)
+      ? ids.filter(other => other !== id)
+      : ids.length < MAX_COMPARED_RUNS ? [...ids, id] : ids);
+  };
+
+  const bgClass = isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-300';
+  const textClass = isDarkMode ? 'text-white' : 'text-slate-900';
+  const subTextClass = isDarkMode ? 'text-slate-400' : 'text-slate-500';
+  const cardBorderClass = isDarkMode ? 'border-slate-700' : 'border-slate-200';
+  const itemBgClass = isDarkMode ? 'bg-slate-800/40' : 'bg-slate-50';
+  const buttonClass = isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-100';
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-300 p-4">
+      <div className={`${bgClass} border rounded-2xl w-full max-w-2xl shadow-2xl flex flex-col max-h-[85vh] overflow-hidden`}>
+
+        {/* Header */}
+        <div className={`p-4 border-b ${cardBorderClass} flex items-center justify-between`}>
+            <h2 className={`text-lg font-black ${textClass} flex items-center gap-2`}>
+                <History size={18} className="text-yellow-500" /> Run History
+                <span className={`text-xs font-bold ${subTextClass}`}>({records.length})</span>
+            </h2>
+            <button onClick={onClose} className={`${subTextClass} hover:text-yellow-500 transition-colors`}>
+                <X size={20} />
+            </button>
+        </div>
+
+        {/* Entries */}
+        <div className="overflow-y-auto p-4 space-y-2 flex-1">
+            {unsavedCount > 0 && (
+                <div className="flex items-center gap-2 p-3 rounded-xl border text-xs font-bold bg-amber-500/10 text-amber-500 border-amber-500/30">
+                    <AlertTriangle size={14} className="flex-none" />
+                    Browser storage is full: {unsavedCount === records.length ? 'these runs' : `the ${unsavedCount} oldest run${unsavedCount === 1 ? '' : 's'}`} could not be saved and will be gone after a reload. Export or delete runs to make room.
+                </div>
+            )}
+            {records.length === 0 && (
+                <div className={`text-center ${subTextClass} py-10 text-sm`}>No runs yet. Launch a run and it will appear here.</div>
+            )}
+            {records.map(record => {
+                const { setup, result } = record;
+                const start = setup.map.nodes.find(n => n.id === setup.settings.startNodeId);
+                const finish = setup.map.nodes.find(n => n.id === setup.settings.finishNodeId);
+                return (
+                    <div key={record.id} className={`p-3 rounded-xl border ${itemBgClass} ${selectedIds.includes(record.id) ? 'border-yellow-500' : cardBorderClass} flex items-center gap-4`}>
+                        <input
+                            type="checkbox"
+                            checked={selectedIds.includes(record.id)}
+                            onChange={() => toggleSelected(record.id)}
+                            disabled={!selectedIds.includes(record.id) && selectedIds.length >= MAX_COMPARED_RUNS}
+                            title={`Select up to ${MAX_COMPARED_RUNS} runs to compare`}
+                            className="accent-yellow-500 w-4 h-4 flex-none cursor-pointer disabled:cursor-not-allowed"
+                        />
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                                <span className={`text-sm font-bold ${textClass} truncate`}>{setup.map.name}</span>
+                                <span className={`flex items-center gap-1 text-xs font-mono ${subTextClass}`}>
+                                    {start?.label} <ArrowRight size={10} /> {finish?.label}
+                                    {setup.settings.isRoundTrip && <><ArrowRight size={10} /> {start?.label}</>}
+                                </span>
+                            </div>
+                            <div className={`text-[10px] ${subTextClass}`}>
+                                {new Date(record.timestamp).toLocaleString()} · {VEHICLES[setup.settings.vehicleType].icon} {setup.settings.targetSpeed} m/s · {setup.settings.mass} kg
+                                {setup.settings.isFrictionOn && setup.settings.surfaceZones.length > 0
+                                    ? ` · ${setup.settings.surfaceZones.length} surface zone${setup.settings.surfaceZones.length === 1 ? '' : 's'}`
+                                    : ''}
+                                {setup.settings.trafficControls.length > 0
+                                    ? ` · ${setup.settings.trafficControls.length} traffic control${setup.settings.trafficControls.length === 1 ? '' : 's'}`
+                                    : ''}
+                                {setup.settings.dragModel !== DragModel.CONSTANT || setup.settings.airResistance > 0 ? ` · air ${describeAirDrag(setup.settings)}` : ''}
+                            </div>
+                            <div className="flex gap-3 mt-1 text-xs font-mono">
+                                <span className="text-emerald-500">{result.timeTaken.toFixed(2)}s</span>
+                                <span className={textClass}>{result.distanceTraveled.toFixed(0)}m</span>
+                                <span className="text-red-500">{result.displacement.toFixed(0)}m disp.</span>
+                                <span className="text-blue-500">{result.averageSpeed.toFixed(1)} m/s</span>
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-1 flex-none">
+                            <button onClick={() => onView(record)} title="Show results" className={`p-2 rounded-lg border ${buttonClass}`}>
+                                <Eye size={14} />
+                            </button>
+                            <button onClick={() => onRerun(record)} title="Run again with these settings" className={`p-2 rounded-lg border ${buttonClass}`}>
+                                <RotateCw size={14} />
+                            </button>
+                            <button onClick={() => onDelete(record.id)} title="Delete" className="p-2 rounded-lg border bg-red-500/10 text-red-500 border-red-500/30 hover:bg-red-500/20">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+
+        {/* Footer */}
+        {records.length > 0 && (
+            <div className={`p-4 border-t ${cardBorderClass} flex justify-end gap-2`}>
+                <button
+                    onClick={() => onCompare(selectedRecords)}
+                    disabled={selectedRecords.length < 2}
+                    title="Tick two or more runs to compare them"
+                    className="mr-auto flex items-center gap-2 px-4 py-2 rounded-xl border text-xs font-bold uppercase tracking-wider bg-yellow-500 text-slate-900 border-yellow-400 hover:bg-yellow-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Columns size={12} /> Compare ({selectedRecords.length})
+                </button>
+                <button
+                    onClick={() => downloadTextFile('run-history.csv', historyToCsv(records), 'text/csv')}
+                    title="Download one row per run for a spreadsheet"
+                    className={`flex items-center gap-2 px-4 py-2 rounded-xl border text-xs font-bold uppercase tracking-wider ${buttonClass}`}
+                >
+                    <Download size={12} /> CSV
+                </button>
+                <button
+                    onClick={() => downloadTextFile('run-history.json', historyToJson(records), 'application/json')}
+                    title="Download every run with its setup as JSON"
+                    className={`flex items-center gap-2 px-4 py-2 rounded-xl border text-xs font-bold uppercase tracking-wider ${buttonClass}`}
+                >
+                    <Download size={12} /> JSON
+                </button>
+                <button
+                    onClick={onClear}
+                    className="flex items-center gap-2 px-4 py-2 rounded-xl border text-xs font-bold uppercase tracking-wider bg-red-500/10 text-red-500 border-red-500/30 hover:bg-red-500/20"
+                >
+                    <Trash2 size={12} /> Clear History
+                </button>
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,253 @@
+import React from 'react';
+import { MousePointer2, CirclePlus, Spline, Trash2, Undo2, Redo2, Check, X, Eraser, Flag, AlertTriangle, PencilRuler } from 'lucide-react';
+import { BuildingType, EditorTool, MapDefinition, NodePoint } from '../types';
+import { ELEVATION_LIMITS } from '../constants';
+
+interface MapEditorPanelProps {
+  map: MapDefinition;
+  tool: EditorTool;
+  onToolChange: (tool: EditorTool) => void;
+  newNodeType: BuildingType;
+  onNewNodeTypeChange: (type: BuildingType) => void;
+  selectedNode: NodePoint | null;
+  onUpdateNode: (changes: Partial<Pick<NodePoint, 'label' | 'name' | 'type' | 'isFinishOption' | 'elevation'>>) => void;
+  onDeleteNode: () => void;
+  onSetStart: () => void;
+  onRename: (name: string) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClear: () => void;
+  onApply: () => void;
+  onCancel: () => void;
+  errors: string[];
+  isDarkMode: boolean;
+}
+
+const TOOLS = [
+  { tool: EditorTool.SELECT, label: 'Select', icon: MousePointer2, hint: 'Click a node to edit it, drag to move it.' },
+  { tool: EditorTool.NODE, label: 'Node', icon: CirclePlus, hint: 'Click an empty grid point to add a node.' },
+  { tool: EditorTool.ROAD, label: 'Road', icon: Spline, hint: 'Click two nodes to add or remove the road between them.' },
+  { tool: EditorTool.DELETE, label: 'Delete', icon: Trash2, hint: 'Click a node to delete it and its roads.' },
+];
+
+const BUILDING_TYPES = Object.values(BuildingType);
+
+const MapEditorPanel: React.FC<MapEditorPanelProps> = ({
+  map,
+  tool,
+  onToolChange,
+  newNodeType,
+  onNewNodeTypeChange,
+  selectedNode,
+  onUpdateNode,
+  onDeleteNode,
+  onSetStart,
+  onRename,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onClear,
+  onApply,
+  onCancel,
+  errors,
+  isDarkMode
+}) => {
+  const sidebarClass = isDarkMode ? 'bg-slate-900/95 border-slate-800' : 'bg-white/95 border-slate-200';
+  const cardClass = isDarkMode ? 'bg-slate-800/50 border-slate-700' : 'bg-slate-50 border-slate-200';
+  const labelClass = isDarkMode ? 'text-slate-200' : 'text-slate-700';
+  const subLabelClass = isDarkMode ? 'text-slate-400' : 'text-slate-500';
+  const inputBgClass = isDarkMode ? 'bg-slate-900 border-slate-600 text-white' : 'bg-white border-slate-300 text-slate-900';
+  const buttonClass = isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 border-slate-300 text-slate-600 hover:bg-slate-200';
+
+  const activeHint = TOOLS.find(t => t.tool === tool)?.hint;
+
+  return (
+    <aside className={`w-80 flex-none border-l flex flex-col z-30 shadow-2xl backdrop-blur-xl absolute right-0 top-0 bottom-0 animate-in slide-in-from-right duration-300 ${sidebarClass}`}>
+        {/* Title Header */}
+        <div className={`p-4 border-b flex items-center justify-between ${isDarkMode ? 'bg-slate-900/50 border-slate-800' : 'bg-white/50 border-slate-200'}`}>
+            <h2 className={`font-bold text-base flex items-center gap-2 ${isDarkMode ? 'text-white' : 'text-slate-900'}`}>
+                <PencilRuler size={16} className="text-yellow-500" /> Map Editor
+            </h2>
+            <div className="flex items-center gap-1">
+                <button onClick={onUndo} disabled={!canUndo} title="Undo" className={`p-1.5 rounded-lg border disabled:opacity-40 disabled:cursor-not-allowed ${buttonClass}`}>
+                    <Undo2 size={14} />
+                </button>
+                <button onClick={onRedo} disabled={!canRedo} title="Redo" className={`p-1.5 rounded-lg border disabled:opacity-40 disabled:cursor-not-allowed ${buttonClass}`}>
+                    <Redo2 size={14} />
+                </button>
+            </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+            {/* Map Name */}
+            <div className="space-y-1">
+                <label className={`text-[9px] font-bold block ${subLabelClass}`}>MAP NAME</label>
+                <input
+                    type="text"
+                    value={map.name}
+                    onChange={(e) => onRename(e.target.value)}
+                    className={`w-full rounded-lg text-sm py-1.5 px-2 border focus:outline-none focus:border-yellow-400 ${inputBgClass}`}
+                />
+            </div>
+
+            {/* Tools */}
+            <section className={`p-3 rounded-2xl border space-y-3 ${cardClass}`}>
+                <div className="grid grid-cols-4 gap-1">
+                    {TOOLS.map(({ tool: t, label, icon: Icon }) => (
+                        <button
+                            key={t}
+                            onClick={() => onToolChange(t)}
+                            className={`flex flex-col items-center gap-1 py-2 rounded-xl border text-[10px] font-bold transition-all ${tool === t ? 'bg-yellow-500 text-slate-900 border-yellow-400' : buttonClass}`}
+                        >
+                            <Icon size={14} />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <p className={`text-[10px] ${subLabelClass}`}>{activeHint}</p>
+                {tool === EditorTool.NODE && (
+                    <div>
+                        <label className={`text-[9px] font-bold block mb-1 ${subLabelClass}`}>NEW NODE BUILDING</label>
+                        <select
+                            value={newNodeType}
+                            onChange={(e) => onNewNodeTypeChange(e.target.value as BuildingType)}
+                            className={`w-full rounded-lg text-xs py-1.5 px-2 border focus:outline-none focus:border-yellow-400 ${inputBgClass}`}
+                        >
+                            {BUILDING_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                    </div>
+                )}
+            </section>
+
+            {/* Selected Node */}
+            {selectedNode ? (
+                <section className={`p-4 rounded-2xl border space-y-3 ${cardClass}`}>
+                    <div className="flex items-center justify-between">
+                        <span className={`text-xs font-bold uppercase tracking-wider ${labelClass}`}>Node {selectedNode.id}</span>
+                        <span className={`text-[10px] font-mono ${subLabelClass}`}>({selectedNode.x}, {selectedNode.y})</span>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        <div>
+                            <label className={`text-[9px] font-bold block mb-1 ${subLabelClass}`}>LABEL</label>
+                            <input
+                                type="text"
+                                maxLength={3}
+                                value={selectedNode.label}
+                                onChange={(e) => onUpdateNode({ label: e.target.value })}
+                                className={`w-full rounded-lg text-xs py-1.5 px-2 border focus:outline-none focus:border-yellow-400 ${inputBgClass}`}
+                            />
+                        </div>
+                        <div className="col-span-2">
+                            <label className={`text-[9px] font-bold block mb-1 ${subLabelClass}`}>NAME</label>
+                            <input
+                                type="text"
+                                value={selectedNode.name}
+                                onChange={(e) => onUpdateNode({ name: e.target.value })}
+                                className={`w-full rounded-lg text-xs py-1.5 px-2 border focus:outline-none focus:border-yellow-400 ${inputBgClass}`}
+                            />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        <div className="col-span-2">
+                            <label className={`text-[9px] font-bold block mb-1 ${subLabelClass}`}>BUILDING</label>
+                            <select
+                                value={selectedNode.type}
+                                onChange={(e) => onUpdateNode({ type: e.target.value as BuildingType })}
+                                className={`w-full rounded-lg text-xs py-1.5 px-2 border focus:outline-none focus:border-yellow-400 ${inputBgClass}`}
+                            >
+                                {BUILDING_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={`text-[9px] font-bold block mb-1 ${subLabelClass}`}>HEIGHT (m)</label>
+                            <input
+                                type="number"
+                                min={ELEVATION_LIMITS.min}
+                                max={ELEVATION_LIMITS.max}
+                                step="1"
+                                value={selectedNode.elevation ?? 0}
+                                onChange={(e) => {
+                                    const value = Number(e.target.value);
+                                    if (!Number.isFinite(value)) return;
+                                    const elevation = Math.min(Math.max(value, ELEVATION_LIMITS.min), ELEVATION_LIMITS.max);
+                                    onUpdateNode({ elevation: elevation === 0 ? undefined : elevation });
+                                }}
+                                className={`w-full rounded-lg text-xs py-1.5 px-2 border focus:outline-none focus:border-yellow-400 ${inputBgClass}`}
+                            />
+                        </div>
+                    </div>
+                    <label className={`flex items-center gap-2 text-xs font-bold cursor-pointer ${labelClass}`}>
+                        <input
+                            type="checkbox"
+                            checked={!!selectedNode.isFinishOption}
+                            onChange={(e) => onUpdateNode({ isFinishOption: e.target.checked })}
+                            className="accent-yellow-500"
+                        />
+                        Can be a destination
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={onSetStart}
+                            disabled={map.defaultStartNodeId === selectedNode.id}
+                            className={`flex items-center justify-center gap-1 py-1.5 rounded-xl border text-[10px] font-bold uppercase disabled:opacity-40 ${buttonClass}`}
+                        >
+                            <Flag size={12} /> Set Start
+                        </button>
+                        <button
+                            onClick={onDeleteNode}
+                            className="flex items-center justify-center gap-1 py-1.5 rounded-xl border text-[10px] font-bold uppercase bg-red-500/10 text-red-500 border-red-500/30 hover:bg-red-500/20"
+                        >
+                            <Trash2 size={12} /> Delete
+                        </button>
+                    </div>
+                </section>
+            ) : (
+                <p className={`text-xs text-center py-2 ${subLabelClass}`}>No node selected.</p>
+            )}
+
+            {/* Validation */}
+            {errors.length > 0 ? (
+                <section className="p-3 rounded-2xl border border-red-500/30 bg-red-500/10 space-y-1">
+                    <div className="flex items-center gap-2 text-red-500 text-xs font-bold uppercase tracking-wider mb-1">
+                        <AlertTriangle size={14} /> {errors.length} Problem{errors.length === 1 ? '' : 's'}
+                    </div>
+                    {errors.map((error, i) => (
+                        <p key={i} className={`text-[11px] ${isDarkMode ? 'text-red-300' : 'text-red-600'}`}>• {error}</p>
+                    ))}
+                </section>
+            ) : (
+                <p className="text-xs text-emerald-500 font-bold text-center">Map is ready to drive.</p>
+            )}
+
+            <button
+                onClick={onClear}
+                className={`w-full flex items-center justify-center gap-2 px-3 py-2 rounded-xl border text-[10px] font-bold uppercase tracking-wider ${buttonClass}`}
+            >
+                <Eraser size={12} /> Start From Blank Grid
+            </button>
+        </div>
+
+        {/* Footer Actions */}
+        <div className={`p-4 border-t grid grid-cols-2 gap-2 ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+            <button
+                onClick={onCancel}
+                className={`flex items-center justify-center gap-2 py-2 rounded-xl border text-sm font-bold ${buttonClass}`}
+            >
+                <X size={14} /> Cancel
+            </button>
+            <button
+                onClick={onApply}
+                disabled={errors.length > 0}
+                className="flex items-center justify-center gap-2 py-2 rounded-xl text-sm font-bold bg-green-600 hover:bg-green-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                <Check size={14} /> Use Map
+            </button>
+        </div>
+    </aside>
+  );
+};
+
+export default MapEditorPanel;
@@ -0,0 +1,139 @@
+import React, { useRef, useEffect } from 'react';
+import { TelemetrySample } from '../types';
+
+interface MotionGraphsProps {
+  samples: TelemetrySample[];
+  gridScale: number;
+  isDarkMode?: boolean;
+}
+
+interface GraphSpec {
+  title: string;
+  unit: string;
+  color: string;
+  value: (sample: TelemetrySample) => number;
+}
+
+const GRAPHS: GraphSpec[] = [
+  { title: 'Distance', unit: 'm', color: '#eab308', value: s => s.distanceTraveled },
+  { title: 'Displacement', unit: 'm', color: '#ef4444', value: s => s.displacement },
+  { title: 'Speed', unit: 'm/s', color: '#3b82f6', value: s => s.speed },
+  { title: 'Acceleration', unit: 'm/s²', color: '#10b981', value: s => s.acceleration },
+];
+
+// Rounds a raw axis step up to 1, 2 or 5 × 10ⁿ so tick labels stay readable.
+const getNiceStep = (range: number, targetTicks: number) => {
+  const raw = range / targetTicks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const normalized = raw / magnitude;
+  const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return nice * magnitude;
+};
+
+const formatTick = (value: number, step: number) => value.toFixed(step < 1 ? 1 : 0);
+
+const Graph: React.FC<{ spec: GraphSpec; samples: TelemetrySample[]; isDarkMode: boolean }> = ({ spec, samples, isDarkMode }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (canvas.width !== canvas.clientWidth) canvas.width = canvas.clientWidth;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const { width, height } = canvas;
+    const pad = { left: 36, right: 8, top: 8, bottom: 18 };
+    const plotW = width - pad.left - pad.right;
+    const plotH = height - pad.top - pad.bottom;
+    const axisColor = isDarkMode ? '#475569' : '#cbd5e1';
+    const labelColor = isDarkMode ? '#94a3b8' : '#64748b';
+
+    ctx.clearRect(0, 0, width, height);
+
+    const values = samples.map(spec.value);
+    const maxTime = Math.max(1, samples.length > 0 ? samples[samples.length - 1].time : 0);
+    const minValue = Math.min(0, ...values);
+    const maxValue = Math.max(1, ...values);
+    const yStep = getNiceStep(maxValue - minValue, 4);
+    const yMin = Math.floor(minValue / yStep) * yStep;
+    const yMax = Math.ceil(maxValue / yStep) * yStep;
+    const tStep = getNiceStep(maxTime, 5);
+    const tMax = Math.ceil(maxTime / tStep) * tStep;
+
+    const toX = (t: number) => pad.left + (t / tMax) * plotW;
+    const toY = (v: number) => pad.top + (1 - (v - yMin) / (yMax - yMin)) * plotH;
+
+    // Grid and tick labels
+    ctx.font = '9px monospace';
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = axisColor;
+    ctx.fillStyle = labelColor;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    for (let v = yMin; v <= yMax + yStep / 2; v += yStep) {
+      const y = toY(v);
+      ctx.globalAlpha = Math.abs(v) < yStep / 2 ? 1 : 0.35;
+      ctx.beginPath();
+      ctx.moveTo(pad.left, y);
+      ctx.lineTo(width - pad.right, y);
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+      ctx.fillText(formatTick(v, yStep), pad.left - 4, y);
+    }
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    for (let t = 0; t <= tMax + tStep / 2; t += tStep) {
+      ctx.fillText(`${formatTick(t, tStep)}s`, toX(t), height - pad.bottom + 4);
+    }
+    ctx.beginPath();
+    ctx.moveTo(pad.left, pad.top);
+    ctx.lineTo(pad.left, height - pad.bottom);
+    ctx.stroke();
+
+    // Data
+    if (samples.length < 2) return;
+    ctx.beginPath();
+    samples.forEach((sample, i) => {
+      const x = toX(sample.time);
+      const y = toY(values[i]);
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.strokeStyle = spec.color;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  }, [spec, samples, isDarkMode]);
+
+  const latest = samples.length > 0 ? spec.value(samples[samples.length - 1]) : 0;
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between px-1">
+        <span className={`text-[10px] font-bold uppercase tracking-wider ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+          {spec.title} <span className="normal-case font-normal">({spec.unit})</span>
+        </span>
+        <span className="text-xs font-mono font-bold" style={{ color: spec.color }}>
+          {latest.toFixed(1)}
+        </span>
+      </div>
+      <canvas ref={canvasRef} height={96} className="w-full h-[96px] block" />
+    </div>
+  );
+};
+
+// Kinematics graphs (distance, displacement, speed and acceleration against
+// time) drawn from a run's telemetry. Used live beside the canvas and in the
+// results view.
+const MotionGraphs: React.FC<MotionGraphsProps> = ({ samples, gridScale, isDarkMode = true }) => (
+  <div className="space-y-3">
+    {GRAPHS.map(spec => (
+      <Graph key={spec.title} spec={spec} samples={samples} isDarkMode={isDarkMode} />
+    ))}
+    <div className={`text-[10px] text-center ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+      Distances in meters · 1 grid square = {gridScale} m
+    </div>
+  </div>
+);
+
+export default MotionGraphs;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Flag, Film, Eye, Medal } from 'lucide-react';
+import { RaceStanding } from '../types';
+import { RACER_PALETTES } from '../constants';
+
+interface RaceResultsModalProps {
+  standings: RaceStanding[] | null;
+  onClose: () => void;
+  onReplay: () => void;
+  onShowDetails: (standing: RaceStanding) => void;
+  isDarkMode?: boolean;
+}
+
+const PLACE_COLORS = ['text-yellow-400', 'text-slate-300', 'text-amber-600'];
+
+// Combined results of a race: finish order plus each racer's key numbers.
+const RaceResultsModal: React.FC<RaceResultsModalProps> = ({ standings, onClose, onReplay, onShowDetails, isDarkMode = true }) => {
+  if (!standings || standings.length === 0) return null;
+
+  const bgClass = isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-300';
+  const textClass = isDarkMode ? 'text-white' : 'text-slate-900';
+  const subTextClass = isDarkMode ? 'text-slate-400' : 'text-slate-500';
+  const cardBorderClass = isDarkMode ? 'border-slate-700' : 'border-slate-200';
+  const buttonClass = isDarkMode ? 'bg-slate-900 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-100';
+
+  const displacements = standings.map(s => s.result.displacement);
+  const hasSameDisplacement = displacements.every(d => Math.abs(d - displacements[0]) < 0.5);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-300 p-4">
+      <div className={`${bgClass} border rounded-2xl w-full max-w-3xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden`}>
+
+        {/* Header */}
+        <div className={`p-6 flex flex-col items-center border-b ${cardBorderClass} ${isDarkMode ? 'bg-slate-800' : 'bg-slate-50'}`}>
+            <div className="w-14 h-14 bg-gradient-to-br from-sky-400 to-blue-600 rounded-full flex items-center justify-center mb-3 shadow-lg shadow-sky-500/20">
+                <Flag size={28} className="text-white" />
+            </div>
+            <h2 className={`text-2xl font-black ${textClass} tracking-tight`}>Race Complete!</h2>
+            <div className={`text-sm ${subTextClass} mt-1`}>
+                Winner: <span className="font-bold" style={{ color: RACER_PALETTES[standings[0].colorIndex].highlight }}>{standings[0].name}</span>
+                {' '}in <span className="font-mono font-bold text-emerald-500">{standings[0].result.timeTaken.toFixed(2)}s</span>
+            </div>
+        </div>
+
+        {/* Standings */}
+        <div className="overflow-auto p-6 space-y-4">
+            <table className="w-full text-xs border-collapse">
+                <thead>
+                    <tr className={`border-b ${cardBorderClass} text-[10px] uppercase tracking-wider ${subTextClass}`}>
+                        <th className="p-2 text-left">Place</th>
+                        <th className="p-2 text-left">Racer</th>
+                        <th className="p-2 text-right">Speed / Mass</th>
+                        <th className="p-2 text-left">Destination</th>
+                        <th className="p-2 text-right">Time</th>
+                        <th className="p-2 text-right">Distance</th>
+                        <th className="p-2 text-right">Displacement</th>
+                        <th className="p-2 text-right">Avg Speed</th>
+                        <th className="p-2 text-right">Avg Velocity</th>
+                        <th className="p-2" />
+                    </tr>
+                </thead>
+                <tbody>
+                    {standings.map(standing => (
+                        <tr key={standing.id} className={`border-b ${cardBorderClass} font-mono ${textClass}`}>
+                            <td className="p-2">
+                                <span className={`flex items-center gap-1 font-bold ${PLACE_COLORS[standing.place - 1] ?? subTextClass}`}>
+                                    <Medal size={12} /> {standing.place}
+                                </span>
+                            </td>
+                            <td className="p-2 font-sans font-bold">
+                                <span className="flex items-center gap-2">
+                                    <span className="w-2.5 h-2.5 rounded-full flex-none" style={{ backgroundColor: RACER_PALETTES[standing.colorIndex].highlight }} />
+                                    {standing.name}
+                                </span>
+                            </td>
+                            <td className={`p-2 text-right ${subTextClass}`}>{standing.targetSpeed} m/s · {standing.mass} kg</td>
+                            <td className="p-2 font-sans">{standing.result.finalDestination}</td>
+                            <td className="p-2 text-right text-emerald-500 font-bold">{standing.result.timeTaken.toFixed(2)}s</td>
+                            <td className="p-2 text-right">{standing.result.distanceTraveled.toFixed(0)}m</td>
+                            <td className="p-2 text-right text-red-500">{standing.result.displacement.toFixed(0)}m</td>
+                            <td className="p-2 text-right text-blue-500">{standing.result.averageSpeed.toFixed(1)} m/s</td>
+                            <td className="p-2 text-right text-blue-500">{standing.result.averageVelocity.toFixed(1)} m/s</td>
+                            <td className="p-2">
+                                <button onClick={() => onShowDetails(standing)} title="Show full results" className={`p-1.5 rounded-lg border ${buttonClass}`}>
+                                    <Eye size={12} />
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {hasSameDisplacement && standings.length > 1 && (
+                <div className={`text-[11px] p-3 rounded border leading-snug ${isDarkMode ? 'text-slate-300 bg-blue-900/20 border-blue-900/50' : 'text-slate-600 bg-blue-50 border-blue-200'}`}>
+                    <strong className="text-blue-500">Notice:</strong> every racer ended with the <span className="text-red-500 font-bold">same displacement</span>, because they share a start and a destination. The faster racers covered it in less time, so their average velocity is higher.
+                </div>
+            )}
+        </div>
+
+        {/* Footer */}
+        <div className={`p-6 border-t space-y-3 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-200'}`}>
+            <button
+                onClick={onReplay}
+                className={`w-full flex items-center justify-center gap-2 py-2 rounded-xl border text-xs font-bold uppercase tracking-wider transition-colors ${buttonClass}`}
+            >
+                <Film size={14} /> Replay Race
+            </button>
+            <button
+                onClick={onClose}
+                className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded-xl transition-all shadow-lg shadow-blue-600/20 transform active:scale-95"
+            >
+                Start New Experiment
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RaceResultsModal;
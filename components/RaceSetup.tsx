@@ -0,0 +1,142 @@
+import React from 'react';
+import { Flag, Plus, Trash2 } from 'lucide-react';
+import { NodePoint, RaceEntry, VehicleType } from '../types';
+import { RACER_PALETTES, MAX_RIVALS, SETTING_LIMITS, VEHICLES } from '../constants';
+
+interface RaceSetupProps {
+  isEnabled: boolean;
+  onToggle: () => void;
+  entries: RaceEntry[];
+  onAdd: () => void;
+  onUpdate: (id: string, changes: Partial<RaceEntry>) => void;
+  onRemove: (id: string) => void;
+  mainName: string; // the vehicle driven by the regular settings
+  nodes: NodePoint[];
+  unreachableIds: string[]; // rivals with no road to their destination
+  disabled: boolean;
+  isDarkMode: boolean;
+}
+
+// Sidebar card for race mode: the main vehicle uses the regular settings,
+// each rival gets its own vehicle, speed, mass and destination.
+const RaceSetup: React.FC<RaceSetupProps> = ({
+  isEnabled, onToggle, entries, onAdd, onUpdate, onRemove, mainName, nodes, unreachableIds, disabled, isDarkMode
+}) => {
+  const cardClass = isDarkMode ? 'bg-slate-800/50 border-slate-700' : 'bg-slate-50 border-slate-200';
+  const labelClass = isDarkMode ? 'text-slate-200' : 'text-slate-700';
+  const subLabelClass = isDarkMode ? 'text-slate-400' : 'text-slate-500';
+  const inputBgClass = isDarkMode ? 'bg-slate-900 border-slate-600 text-white' : 'bg-white border-slate-300 text-slate-900';
+  const entryClass = isDarkMode ? 'bg-slate-900/60 border-slate-700' : 'bg-white border-slate-200';
+
+  return (
+    <div className={`space-y-4 p-4 rounded-2xl border ${cardClass}`}>
+        <div className="flex justify-between items-center">
+            <div className="flex items-center gap-2 text-sky-500 text-xs font-bold uppercase tracking-wider">
+                <Flag size={14} /> Race Mode
+            </div>
+            <button
+                onClick={onToggle}
+                disabled={disabled}
+                className={`w-10 h-5 rounded-full relative transition-colors disabled:opacity-50 ${isEnabled ? 'bg-sky-500' : 'bg-slate-600'}`}
+            >
+                <div className={`absolute top-1 w-3 h-3 rounded-full bg-white transition-all ${isEnabled ? 'left-6' : 'left-1'}`} />
+            </button>
+        </div>
+
+        {isEnabled && (
+            <div className="space-y-3">
+                <div className={`flex items-center gap-2 text-[11px] ${subLabelClass}`}>
+                    <span className="w-2.5 h-2.5 rounded-full flex-none" style={{ backgroundColor: RACER_PALETTES[0].highlight }} />
+                    <span className={`font-bold ${labelClass}`}>{mainName}</span> uses the settings above.
+                </div>
+
+                {entries.map(entry => (
+                    <div key={entry.id} className={`p-3 rounded-xl border space-y-2 ${entryClass}`}>
+                        <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                                <span className="w-2.5 h-2.5 rounded-full flex-none" style={{ backgroundColor: RACER_PALETTES[entry.colorIndex].highlight }} />
+                                <span className={`text-xs font-bold ${labelClass}`}>{entry.name}</span>
+                            </div>
+                            <button
+                                onClick={() => onRemove(entry.id)}
+                                disabled={disabled}
+                                title="Remove"
+                                className="text-slate-400 hover:text-red-500 disabled:opacity-50"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                        <select
+                            value={entry.vehicleType}
+                            onChange={(e) => onUpdate(entry.id, { vehicleType: e.target.value as VehicleType })}
+                            disabled={disabled}
+                            className={`w-full rounded-lg text-xs py-1.5 px-2 focus:outline-none focus:border-sky-400 disabled:opacity-50 ${inputBgClass}`}
+                        >
+                            {Object.values(VEHICLES).map(vehicle => (
+                                <option key={vehicle.type} value={vehicle.type}>{vehicle.icon} {vehicle.name}</option>
+                            ))}
+                        </select>
+                        <div className="flex items-center justify-between text-[10px] font-bold">
+                            <span className={subLabelClass}>SPEED</span>
+                            <span className="font-mono text-emerald-500">{entry.targetSpeed} m/s</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={VEHICLES[entry.vehicleType].minSpeed}
+                            max={VEHICLES[entry.vehicleType].maxSpeed}
+                            step={VEHICLES[entry.vehicleType].speedStep}
+                            value={entry.targetSpeed}
+                            onChange={(e) => onUpdate(entry.id, { targetSpeed: Number(e.target.value) })}
+                            disabled={disabled}
+                            className="w-full h-1.5 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                        />
+                        <div className="flex items-center justify-between text-[10px] font-bold">
+                            <span className={subLabelClass}>MASS</span>
+                            <span className="font-mono text-purple-500">{entry.mass} kg</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={SETTING_LIMITS.mass.min}
+                            max={SETTING_LIMITS.mass.max}
+                            step="5"
+                            value={entry.mass}
+                            onChange={(e) => onUpdate(entry.id, { mass: Number(e.target.value) })}
+                            disabled={disabled}
+                            className="w-full h-1.5 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                        />
+                        <select
+                            value={entry.finishNodeId ?? ''}
+                            onChange={(e) => onUpdate(entry.id, { finishNodeId: e.target.value || null })}
+                            disabled={disabled}
+                            className={`w-full rounded-lg text-xs py-1.5 px-2 focus:outline-none focus:border-sky-400 disabled:opacity-50 ${inputBgClass}`}
+                        >
+                            <option value="">Same destination as {mainName}</option>
+                            {nodes.map(n => (
+                                <option key={n.id} value={n.id}>{n.label} ({n.name})</option>
+                            ))}
+                        </select>
+                        {unreachableIds.includes(entry.id) && (
+                            <p className="text-[10px] text-red-500">No road leads there; this racer sits the race out.</p>
+                        )}
+                    </div>
+                ))}
+
+                {entries.length < MAX_RIVALS && (
+                    <button
+                        onClick={onAdd}
+                        disabled={disabled}
+                        className={`w-full flex items-center justify-center gap-2 py-2 rounded-xl border border-dashed text-xs font-bold uppercase tracking-wider disabled:opacity-50 ${isDarkMode ? 'border-slate-600 text-slate-300 hover:bg-slate-800' : 'border-slate-300 text-slate-600 hover:bg-slate-100'}`}
+                    >
+                        <Plus size={12} /> Add Rival
+                    </button>
+                )}
+                <p className="text-[10px] text-slate-400">
+                    Same start and destination means the same displacement. The faster racer just needs less time.
+                </p>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default RaceSetup;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Play, Pause, SkipBack, SkipForward, Trophy, X } from 'lucide-react';
+
+export const REPLAY_RATES = [0.25, 0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  time: number; // s
+  duration: number; // s
+  isPlaying: boolean;
+  rate: number;
+  onTimeChange: (time: number) => void;
+  onTogglePlay: () => void;
+  onStep: (direction: 1 | -1) => void;
+  onRateChange: (rate: number) => void;
+  onShowResults: () => void;
+  onExit: () => void;
+  isDarkMode?: boolean;
+}
+
+// Timeline bar shown over the canvas while a finished run is replayed.
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  time, duration, isPlaying, rate, onTimeChange, onTogglePlay, onStep, onRateChange, onShowResults, onExit, isDarkMode = true
+}) => {
+  const barClass = isDarkMode ? 'bg-slate-900/95 border-slate-700 text-white' : 'bg-white/95 border-slate-300 text-slate-900';
+  const buttonClass = isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 border-slate-300 text-slate-600 hover:bg-slate-200';
+
+  return (
+    <div className={`absolute bottom-3 left-1/2 -translate-x-1/2 w-[min(640px,calc(100%-1.5rem))] z-20 p-3 rounded-2xl border shadow-2xl backdrop-blur flex flex-col gap-2 ${barClass}`}>
+        <div className="flex items-center gap-3">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-yellow-500">Replay</span>
+            <input
+                type="range"
+                min={0}
+                max={duration}
+                step={0.01}
+                value={time}
+                onChange={(e) => onTimeChange(Number(e.target.value))}
+                className="flex-1 accent-yellow-500 cursor-pointer"
+            />
+            <span className="text-xs font-mono w-28 text-right">{time.toFixed(2)}s / {duration.toFixed(2)}s</span>
+        </div>
+        <div className="flex items-center gap-2">
+            <button onClick={() => onStep(-1)} title="Step back" className={`p-2 rounded-lg border ${buttonClass}`}>
+                <SkipBack size={14} />
+            </button>
+            <button onClick={onTogglePlay} title={isPlaying ? 'Pause' : 'Play'} className="p-2 rounded-lg border bg-yellow-500 border-yellow-400 text-slate-900 hover:bg-yellow-400">
+                {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+            </button>
+            <button onClick={() => onStep(1)} title="Step forward" className={`p-2 rounded-lg border ${buttonClass}`}>
+                <SkipForward size={14} />
+            </button>
+            <div className="flex items-center gap-1 ml-2">
+                {REPLAY_RATES.map(r => (
+                    <button
+                        key={r}
+                        onClick={() => onRateChange(r)}
+                        className={`px-2 py-1 rounded-md border text-[10px] font-bold font-mono ${r === rate ? 'bg-yellow-500 border-yellow-400 text-slate-900' : buttonClass}`}
+                    >
+                        {r}×
+                    </button>
+                ))}
+            </div>
+            <div className="flex-1" />
+            <button onClick={onShowResults} title="Back to results" className={`p-2 rounded-lg border ${buttonClass}`}>
+                <Trophy size={14} />
+            </button>
+            <button onClick={onExit} title="Exit replay" className={`p-2 rounded-lg border ${buttonClass}`}>
+                <X size={14} />
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -1,17 +1,26 @@
 import React, { useState } from 'react';
 import { SimulationResult } from '../types';
-import { NODES } from '../constants';
-import { X, Trophy, Info, Timer, ArrowRight, HelpCircle } from 'lucide-react';
+import { X, Trophy, Info, Timer, ArrowRight, HelpCircle, Download, LineChart, Film, Layers, TrafficCone, RefreshCw } from 'lucide-react';
+import MotionGraphs from './MotionGraphs';
+import { downloadTextFile, toFileSlug } from '../utils/files';
+import { resultToCsv, resultToJson } from '../utils/resultExport';
+import { getAccelerationStats } from '../simulation/engine';
+import { getWaitTimeTotal } from '../utils/runComparison';
+import { SURFACES } from '../constants';
+import { describeBearing, describeComponents } from '../simulation/vectors';
 
 interface ResultsModalProps {
   result: SimulationResult | null;
+  gridScale: number;
   onClose: () => void;
+  onReplay?: () => void;
   isDarkMode?: boolean;
 }
 
-const ResultsModal: React.FC<ResultsModalProps> = ({ result, onClose, isDarkMode = true }) => {
+const ResultsModal: React.FC<ResultsModalProps> = ({ result, gridScale, onClose, onReplay, isDarkMode = true }) => {
   const [showDistInfo, setShowDistInfo] = useState(false);
   const [showSpeedInfo, setShowSpeedInfo] = useState(false);
+  const [showGraphs, setShowGraphs] = useState(false);
 
   if (!result) return null;
 
@@ -22,6 +31,18 @@ const ResultsModal: React.FC<ResultsModalProps> = ({ result, onClose, isDarkMode
   const cardBorderClass = isDarkMode ? 'border-slate-700' : 'border-slate-200';
   const headerBgClass = isDarkMode ? 'bg-slate-800' : 'bg-slate-50';
   const itemBgClass = isDarkMode ? 'bg-slate-900/50' : 'bg-white';
+  const exportButtonClass = isDarkMode ? 'bg-slate-900 border-slate-700 text-slate-300 hover:bg-slate-700' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-100';
+
+  const acceleration = getAccelerationStats(result);
+  const waitTime = getWaitTimeTotal(result);
+  const movingTime = result.timeTaken - waitTime;
+  const movingSpeed = movingTime > 0 ? result.distanceTraveled / movingTime : 0;
+  // Displacement that rounds to 0 m after a real drive: a round trip
+  const isBackAtStart = result.distanceTraveled > 0 && result.displacement < 0.5;
+
+  const fileName = `run-to-${toFileSlug(result.finalDestination)}`;
+  const handleExportCsv = () => downloadTextFile(`${fileName}.csv`, resultToCsv(result), 'text/csv');
+  const handleExportJson = () => downloadTextFile(`${fileName}.json`, resultToJson(result), 'application/json');
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm animate-in fade-in duration-300 p-4">
@@ -65,9 +86,25 @@ const ResultsModal: React.FC<ResultsModalProps> = ({ result, onClose, isDarkMode
                     <div className={`p-4 flex flex-col items-center text-center ${isDarkMode ? 'bg-slate-800/60' : 'bg-slate-100/60'}`}>
                          <span className={`text-[10px] font-bold ${subTextClass} uppercase tracking-wider mb-1`}>Displacement</span>
                         <span className="text-2xl font-mono text-red-500 mb-1">{result.displacement.toFixed(0)}m</span>
+                        <span className={`text-[10px] font-mono mb-1 ${subTextClass}`}>
+                            {describeComponents(result.displacementVector, 0, 'm')} · {describeBearing(result.displacementVector)}
+                        </span>
+                        {result.elevationChange !== 0 && (
+                            <span className={`text-[10px] font-mono mb-1 ${subTextClass}`}>
+                                3D {result.displacement3D.toFixed(0)}m · Δh {result.elevationChange > 0 ? '+' : ''}{result.elevationChange.toFixed(0)}m
+                            </span>
+                        )}
                         <span className={`text-[10px] px-2 py-0.5 rounded border ${isDarkMode ? 'bg-red-900/30 text-red-300 border-red-900/50' : 'bg-red-50 text-red-600 border-red-200'}`}>Vector</span>
                     </div>
                 </div>
+
+                {/* Back at the start: the two quantities part ways completely */}
+                {isBackAtStart && (
+                    <div className={`flex items-center justify-center gap-2 px-4 py-2 text-xs font-bold border-t ${isDarkMode ? 'bg-red-900/20 text-red-300 border-slate-700' : 'bg-red-50 text-red-600 border-slate-200'}`}>
+                        <RefreshCw size={14} />
+                        Back at the start: {result.distanceTraveled.toFixed(0)}m driven, 0m displacement, 0 m/s average velocity.
+                    </div>
+                )}
                 
                 {/* Info Toggle */}
                 <button 
@@ -87,6 +124,9 @@ const ResultsModal: React.FC<ResultsModalProps> = ({ result, onClose, isDarkMode
                         <p>
                             <strong className="text-red-500">Displacement</strong> has a reference point (the Start). It doesn't matter how long you've traveled; it can increase or decrease if you move back near the initial point, whereas distance strictly increases.
                         </p>
+                        <p className="mt-2">
+                            As a vector it splits into an <strong className={textClass}>East (x)</strong> and a <strong className={textClass}>North (y)</strong> component, drawn as dashed arrows on the map. Its <strong className={textClass}>bearing</strong> is the angle clockwise from North; "N 36.9° E" means 36.9° from North towards East.
+                        </p>
                     </div>
                 )}
             </div>
@@ -102,6 +142,9 @@ const ResultsModal: React.FC<ResultsModalProps> = ({ result, onClose, isDarkMode
                     <div className={`p-4 flex flex-col items-center text-center ${isDarkMode ? 'bg-slate-800/60' : 'bg-slate-100/60'}`}>
                          <span className={`text-[10px] font-bold ${subTextClass} uppercase tracking-wider mb-1`}>Avg Velocity</span>
                         <span className="text-xl font-mono text-blue-500 mb-1">{result.averageVelocity.toFixed(1)} m/s</span>
+                        <span className={`text-[10px] font-mono mb-1 ${subTextClass}`}>
+                            {describeComponents(result.averageVelocityVector, 1, 'm/s')} · {describeBearing(result.averageVelocityVector)}
+                        </span>
                         <span className={`text-[10px] px-2 py-0.5 rounded border ${isDarkMode ? 'bg-blue-900/30 text-blue-300 border-blue-900/50' : 'bg-blue-50 text-blue-600 border-blue-200'}`}>Vector</span>
                     </div>
                 </div>
@@ -128,6 +171,107 @@ const ResultsModal: React.FC<ResultsModalProps> = ({ result, onClose, isDarkMode
                 )}
             </div>
 
+            {/* ACCELERATION */}
+            {result.telemetry.length > 0 && (
+                <div className={`${cardBgClass} rounded-xl border ${cardBorderClass} overflow-hidden`}>
+                    <div className={`grid grid-cols-2 divide-x ${isDarkMode ? 'divide-slate-700' : 'divide-slate-200'}`}>
+                        <div className="p-4 flex flex-col items-center text-center">
+                            <span className={`text-[10px] font-bold ${subTextClass} uppercase tracking-wider mb-1`}>Top Speed</span>
+                            <span className="text-xl font-mono text-sky-500 mb-1">{acceleration.topSpeed.toFixed(1)} m/s</span>
+                            <span className={`text-[10px] ${subTextClass}`}>95% reached after {acceleration.timeToTopSpeed.toFixed(1)}s</span>
+                        </div>
+                        <div className={`p-4 flex flex-col items-center text-center ${isDarkMode ? 'bg-slate-800/60' : 'bg-slate-100/60'}`}>
+                            <span className={`text-[10px] font-bold ${subTextClass} uppercase tracking-wider mb-1`}>Peak Acceleration</span>
+                            <span className="text-xl font-mono text-yellow-500 mb-1">{acceleration.peakAcceleration.toFixed(1)} m/s²</span>
+                            <span className={`text-[10px] ${subTextClass}`}>Hardest braking {acceleration.peakBraking.toFixed(1)} m/s²</span>
+                        </div>
+                    </div>
+                    {result.terminalVelocity !== null && (
+                        <div className={`px-4 py-3 border-t ${cardBorderClass} flex items-center justify-between gap-4`}>
+                            <div>
+                                <div className={`text-[10px] font-bold ${subTextClass} uppercase tracking-wider`}>Terminal Velocity</div>
+                                <div className={`text-[10px] ${subTextClass}`}>
+                                    {acceleration.topSpeed >= result.terminalVelocity * 0.95
+                                        ? 'Drag held the vehicle back: full push only just matches it here.'
+                                        : 'Never reached on this route: drag grows with speed, and this is where it would catch up.'}
+                                </div>
+                            </div>
+                            <span className="text-lg font-mono text-cyan-500 flex-none">{result.terminalVelocity.toFixed(1)} m/s</span>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* MOTION GRAPHS */}
+            {result.telemetry.length > 0 && (
+                <div className={`${cardBgClass} rounded-xl border ${cardBorderClass} overflow-hidden`}>
+                    <button
+                        onClick={() => setShowGraphs(!showGraphs)}
+                        className={`w-full flex items-center justify-center gap-2 py-3 text-xs font-bold ${subTextClass} hover:${textClass} transition-colors`}
+                    >
+                        <LineChart size={14} className={isDarkMode ? "text-yellow-400" : "text-yellow-600"} />
+                        {showGraphs ? "Hide Motion Graphs" : "Show Motion Graphs"}
+                    </button>
+                    {showGraphs && (
+                        <div className={`p-4 border-t ${cardBorderClass} animate-in slide-in-from-top-2`}>
+                            <MotionGraphs samples={result.telemetry} gridScale={gridScale} isDarkMode={isDarkMode} />
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* SURFACE ZONES */}
+            {result.zoneTimes.length > 0 && (
+                <div className={`${cardBgClass} rounded-xl border ${cardBorderClass} p-4`}>
+                    <div className={`flex items-center gap-2 mb-3 border-b ${cardBorderClass} pb-2`}>
+                        <Layers size={14} className="text-orange-500" />
+                        <h3 className={`text-xs font-bold ${textClass} uppercase tracking-wider`}>Time on Surfaces</h3>
+                    </div>
+                    <div className="space-y-2">
+                        {result.zoneTimes.map(zone => (
+                            <div key={zone.zoneId} className={`flex items-center justify-between text-xs p-2 rounded border ${itemBgClass} ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+                                <div className="flex items-center gap-2">
+                                    <span className="w-2.5 h-2.5 rounded-sm flex-none" style={{ backgroundColor: SURFACES[zone.surface].color }} />
+                                    <span className={`font-mono font-bold ${textClass}`}>{zone.road}</span>
+                                    <span className={subTextClass}>{SURFACES[zone.surface].name} · µ {zone.friction}</span>
+                                </div>
+                                <div className={`text-[10px] ${subTextClass} font-mono`}>
+                                    {zone.distance.toFixed(0)}m in <span className="text-orange-500 font-bold">{zone.time.toFixed(2)}s</span>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* STOPS */}
+            {waitTime > 0 && (
+                <div className={`${cardBgClass} rounded-xl border ${cardBorderClass} p-4 space-y-3`}>
+                    <div className={`flex items-center gap-2 border-b ${cardBorderClass} pb-2`}>
+                        <TrafficCone size={14} className="text-rose-500" />
+                        <h3 className={`text-xs font-bold ${textClass} uppercase tracking-wider`}>Stops</h3>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                        <div>
+                            <div className={`text-[10px] font-bold ${subTextClass} uppercase tracking-wider`}>Waiting</div>
+                            <div className="text-lg font-mono text-rose-500">{waitTime.toFixed(1)}s</div>
+                        </div>
+                        <div>
+                            <div className={`text-[10px] font-bold ${subTextClass} uppercase tracking-wider`}>Avg Speed</div>
+                            <div className="text-lg font-mono text-blue-500">{result.averageSpeed.toFixed(1)} m/s</div>
+                        </div>
+                        <div>
+                            <div className={`text-[10px] font-bold ${subTextClass} uppercase tracking-wider`}>While Moving</div>
+                            <div className={`text-lg font-mono ${textClass}`}>{movingSpeed.toFixed(1)} m/s</div>
+                        </div>
+                    </div>
+                    <p className={`text-[11px] leading-snug ${subTextClass}`}>
+                        Average speed is total distance ÷ total time, and the clock keeps running at every stop. Braking, waiting and speeding up again
+                        pull it well below the top speed of {acceleration.topSpeed.toFixed(1)} m/s.
+                    </p>
+                </div>
+            )}
+
             {/* NODE TO NODE ANALYSIS */}
             <div className={`${cardBgClass} rounded-xl border ${cardBorderClass} p-4`}>
                 <div className={`flex items-center gap-2 mb-3 border-b ${cardBorderClass} pb-2`}>
@@ -147,6 +291,7 @@ const ResultsModal: React.FC<ResultsModalProps> = ({ result, onClose, isDarkMode
                                 </div>
                                 <div className={`text-[10px] ${subTextClass} font-mono`}>
                                     {seg.distance.toFixed(0)}m in {seg.time.toFixed(1)}s
+                                    {seg.waitTime > 0 && <span className="text-rose-500"> ({seg.waitTime.toFixed(1)}s stopped)</span>}
                                 </div>
                             </div>
                             <div className="flex items-center justify-between mt-1">
@@ -168,7 +313,31 @@ const ResultsModal: React.FC<ResultsModalProps> = ({ result, onClose, isDarkMode
         </div>
 
         {/* Footer Action */}
-        <div className={`p-6 border-t ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-200'}`}>
+        <div className={`p-6 border-t space-y-3 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-200'}`}>
+            {onReplay && result.telemetry.length > 0 && (
+                <button
+                    onClick={onReplay}
+                    className={`w-full flex items-center justify-center gap-2 py-2 rounded-xl border text-xs font-bold uppercase tracking-wider transition-colors ${exportButtonClass}`}
+                >
+                    <Film size={14} /> Replay Run
+                </button>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+                <button
+                    onClick={handleExportCsv}
+                    title="Download summary and segment table for a spreadsheet"
+                    className={`flex items-center justify-center gap-2 py-2 rounded-xl border text-xs font-bold uppercase tracking-wider transition-colors ${exportButtonClass}`}
+                >
+                    <Download size={14} /> Export CSV
+                </button>
+                <button
+                    onClick={handleExportJson}
+                    title="Download the full result as JSON"
+                    className={`flex items-center justify-center gap-2 py-2 rounded-xl border text-xs font-bold uppercase tracking-wider transition-colors ${exportButtonClass}`}
+                >
+                    <Download size={14} /> Export JSON
+                </button>
+            </div>
             <button 
                 onClick={onClose}
                 className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded-xl transition-all shadow-lg shadow-blue-600/20 transform active:scale-95"
@@ -1,63 +1,616 @@
-import React, { useRef, useEffect, useCallback } from 'react';
-import { GRID_COLS, GRID_ROWS, NODES, VEHICLES, BUILDING_IMAGES } from '../constants';
-import { VehicleType, SimulationResult, BuildingType, SegmentData } from '../types';
+import React, { useRef, useEffect, useCallback, useMemo } from 'react';
+import { BUILDING_IMAGES, SINGLE_STEP_TIME, RACER_PALETTES, SURFACES } from '../constants';
+import { VehicleType, SimulationResult, BuildingType, SimulationConfig, SimulationState, MapDefinition, NodePoint, EditorTool, TelemetrySample, RunStatus, RaceVehicle, RaceStanding, VehiclePalette, EngineLimits, DragModel, Surface, SurfaceZone, TrafficControl, TrafficControlType } from '../types';
+import { createSimulationState, getSurfaceZone, getStateAtTime, getTrack, getAirDrag, getRoadProfile, getElevation, getElevationAt } from '../simulation/engine';
+import { Track } from '../simulation/track';
+import { createRaceStates, advanceRace, advanceRaceBy, isRaceFinished, getStandings, getRacerName } from '../simulation/race';
+import { getPlacement } from '../simulation/maps';
+import { getRouteZones } from '../simulation/surfaces';
+import { isLightRed } from '../simulation/traffic';
+import { toCompassNotation, toPlanarVector } from '../simulation/vectors';
+import { getRoadControl, getRoadLength, getRoadPointAt, sampleRoadStretch } from '../simulation/roads';
+
+// Edit-mode hooks: the canvas reports clicks and drags in grid coordinates,
+// the owner decides what they do to the map.
+export interface CanvasEditor {
+  tool: EditorTool;
+  selectedNodeId: string | null;
+  roadStartNodeId: string | null;
+  onGridClick: (x: number, y: number) => void;
+  onNodeClick: (id: string) => void;
+  onNodeMove: (id: string, x: number, y: number) => void;
+}
 
 interface SimulationCanvasProps {
+  map: MapDefinition;
   vehicleType: VehicleType;
   gridScale: number; // Meters per square
-  finishNodeId: string;
+  route: NodePoint[]; // start to finish
   showBuildings: boolean;
-  isRunning: boolean;
-  isFinished: boolean;
+  status: RunStatus;
+  stepCount: number; // each increment advances a paused run by SINGLE_STEP_TIME
+  replayTime?: number | null; // when set, a finished run is shown at this moment
   onFinish: (result: SimulationResult) => void;
+  onStall?: () => void; // the main vehicle stopped for good before the finish
+  onTelemetry?: (samples: TelemetrySample[]) => void; // called whenever a new sample is recorded
+  rivals?: RaceVehicle[]; // race mode: vehicles racing the main one
+  onRaceFinish?: (standings: RaceStanding[]) => void;
   // Physics Props
   targetSpeed: number; // Speed control
-  friction: number;
-  airResistance: number;
+  surfaceZones: SurfaceZone[]; // empty when friction is off
+  trafficControls: TrafficControl[];
+  airResistance: number; // N, constant model only
+  dragModel?: DragModel;
+  linearDrag?: number; // N·s/m
+  airDensity?: number; // kg/m³
+  dragArea?: number; // m²
   mass: number;
-  frictionStartNode: string;
-  frictionEndNode: string;
+  engine?: EngineLimits | null; // realistic engine limits, null for the ideal engine
+  isCornering?: boolean; // turns are driven as arcs
   isDarkMode: boolean;
+  editor?: CanvasEditor | null;
 }
 
+// Pixel layout of the grid: one empty square of margin on every side.
+const getGridMetrics = (width: number, height: number, map: MapDefinition) => {
+  const effectiveCols = map.gridCols + 2;
+  const effectiveRows = map.gridRows + 2;
+  const cellSize = Math.min(width / effectiveCols, height / effectiveRows);
+  const startX = (width - effectiveCols * cellSize) / 2;
+  const startY = (height - effectiveRows * cellSize) / 2;
+  return { cellSize, startX, startY };
+};
+
+// Top-down sports car centered on (x, y), heading along angle. laneOffset
+// shifts it sideways so racers sharing a road stay visible.
+const drawCar = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  angle: number,
+  cellSize: number,
+  palette: VehiclePalette,
+  laneOffset: number = 0,
+  carScale: number = 1.6
+) => {
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate(angle);
+  ctx.translate(0, laneOffset);
+
+  const carL = cellSize * carScale;     
+  const carW = cellSize * carScale * 0.55; 
+
+  // Shadows & Tires (same as before)
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  ctx.shadowBlur = 15;
+  ctx.shadowOffsetX = 0;
+  ctx.shadowOffsetY = 5;
+
+  const wheelL = carL * 0.22;
+  const wheelW = carW * 0.25;
+  const wheelInsetX = carL * 0.32; 
+  const wheelOffsetY = carW * 0.42;
+
+  ctx.fillStyle = '#171717'; 
+  const drawTire = (x: number, y: number) => {
+      ctx.beginPath();
+      if (ctx.roundRect) ctx.roundRect(x - wheelL/2, y - wheelW/2, wheelL, wheelW, 4);
+      else ctx.rect(x - wheelL/2, y - wheelW/2, wheelL, wheelW);
+      ctx.fill();
+  };
+
+  drawTire(wheelInsetX, -wheelOffsetY);  
+  drawTire(wheelInsetX, wheelOffsetY);   
+  drawTire(-wheelInsetX, -wheelOffsetY); 
+  drawTire(-wheelInsetX, wheelOffsetY);  
+
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+  ctx.shadowOffsetY = 0;
+
+  // Chassis
+  ctx.beginPath();
+  ctx.moveTo(carL * 0.48, -carW * 0.3);
+  ctx.quadraticCurveTo(carL * 0.52, 0, carL * 0.48, carW * 0.3);
+  ctx.lineTo(carL * 0.35, carW * 0.48); 
+  ctx.lineTo(-carL * 0.35, carW * 0.48);
+  ctx.lineTo(-carL * 0.48, carW * 0.35);
+  ctx.quadraticCurveTo(-carL * 0.5, 0, -carL * 0.48, -carW * 0.35);
+  ctx.lineTo(-carL * 0.35, -carW * 0.48);
+  ctx.lineTo(carL * 0.35, -carW * 0.48);
+  ctx.closePath();
+
+  const bodyGrad = ctx.createLinearGradient(-carL/2, 0, carL/2, 0);
+  bodyGrad.addColorStop(0, palette.shade);   
+  bodyGrad.addColorStop(0.2, palette.body); 
+  bodyGrad.addColorStop(0.5, palette.highlight); 
+  bodyGrad.addColorStop(0.8, palette.body); 
+  bodyGrad.addColorStop(1, palette.shade);   
+  ctx.fillStyle = bodyGrad;
+  ctx.fill();
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = palette.trim;
+  ctx.stroke();
+
+  // Vents
+  ctx.fillStyle = 'rgba(0,0,0,0.2)';
+  ctx.beginPath();
+  ctx.moveTo(carL * 0.2, -carW * 0.15);
+  ctx.lineTo(carL * 0.4, -carW * 0.1);
+  ctx.lineTo(carL * 0.4, carW * 0.1);
+  ctx.lineTo(carL * 0.2, carW * 0.15);
+  ctx.fill();
+
+  // Cabin
+  const glassPath = new Path2D();
+  const cabFront = carL * 0.15;
+  const cabRear = -carL * 0.25;
+  const cabSide = carW * 0.35;
+  
+  glassPath.moveTo(cabFront, -cabSide);
+  glassPath.lineTo(cabRear, -carW * 0.25);
+  glassPath.quadraticCurveTo(cabRear - carL*0.05, 0, cabRear, carW * 0.25);
+  glassPath.lineTo(cabFront, cabSide);
+  glassPath.quadraticCurveTo(cabFront + carL*0.1, 0, cabFront, -cabSide);
+  
+  ctx.fillStyle = '#0f172a'; 
+  ctx.fill(glassPath);
+  ctx.fillStyle = 'rgba(56, 189, 248, 0.4)';
+  ctx.fill(glassPath);
+  
+  const roofFront = carL * 0.05;
+  const roofRear = -carL * 0.2;
+  const roofSide = carW * 0.28;
+  ctx.beginPath();
+  ctx.moveTo(roofFront, -roofSide);
+  ctx.lineTo(roofRear, -roofSide);
+  ctx.quadraticCurveTo(roofRear - carL*0.02, 0, roofRear, roofSide);
+  ctx.lineTo(roofFront, roofSide);
+  ctx.quadraticCurveTo(roofFront + carL*0.02, 0, roofFront, -roofSide);
+  ctx.fillStyle = bodyGrad; 
+  ctx.fill();
+  ctx.stroke();
+
+  // Spoiler
+  ctx.fillStyle = palette.trim;
+  ctx.beginPath();
+  if(ctx.roundRect) ctx.roundRect(-carL * 0.46, -carW * 0.35, carL * 0.08, carW * 0.7, 2);
+  else ctx.rect(-carL * 0.46, -carW * 0.35, carL * 0.08, carW * 0.7);
+  ctx.fill();
+
+  // Lights
+  ctx.save();
+  ctx.globalCompositeOperation = 'screen';
+  ctx.fillStyle = 'rgba(254, 240, 138, 0.15)'; 
+  ctx.beginPath();
+  ctx.moveTo(carL * 0.48, -carW * 0.25);
+  ctx.lineTo(carL * 3, -carW * 1.5);
+  ctx.lineTo(carL * 3, carW * 1.5);
+  ctx.lineTo(carL * 0.48, carW * 0.25);
+  ctx.fill();
+  ctx.restore();
+
+  ctx.fillStyle = '#fef08a';
+  ctx.shadowColor = '#fef08a';
+  ctx.shadowBlur = 8;
+  ctx.beginPath();
+  ctx.ellipse(carL * 0.48, -carW * 0.25, carL * 0.03, carW * 0.08, 0, 0, Math.PI * 2);
+  ctx.ellipse(carL * 0.48, carW * 0.25, carL * 0.03, carW * 0.08, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.shadowBlur = 0;
+
+  ctx.fillStyle = '#ef4444';
+  ctx.shadowColor = '#ef4444';
+  ctx.shadowBlur = 6;
+  ctx.beginPath();
+  if (ctx.roundRect) {
+      ctx.roundRect(-carL * 0.5, -carW * 0.3, carL * 0.02, carW * 0.2, 1);
+      ctx.roundRect(-carL * 0.5, carW * 0.1, carL * 0.02, carW * 0.2, 1);
+  } else {
+      ctx.rect(-carL * 0.5, -carW * 0.3, carL * 0.02, carW * 0.2);
+      ctx.rect(-carL * 0.5, carW * 0.1, carL * 0.02, carW * 0.2);
+  }
+  ctx.fill();
+  ctx.shadowBlur = 0;
+
+  ctx.restore();
+};
+
+// Rounded rectangle path with a plain fallback for older canvases.
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
+  if (ctx.roundRect) ctx.roundRect(x, y, w, h, r);
+  else ctx.rect(x, y, w, h);
+};
+
+// Long top-down box with a row of roof windows. Shared by the bus and the
+// truck; the truck splits it into a cab and a trailer.
+const drawBox = (ctx: CanvasRenderingContext2D, length: number, width: number, palette: VehiclePalette) => {
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  ctx.shadowBlur = 15;
+  ctx.shadowOffsetY = 5;
+  ctx.fillStyle = palette.body;
+  ctx.beginPath();
+  roundedRect(ctx, -length / 2, -width / 2, length, width, width * 0.15);
+  ctx.fill();
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+  ctx.shadowOffsetY = 0;
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = palette.trim;
+  ctx.stroke();
+};
+
+const drawHeadlights = (ctx: CanvasRenderingContext2D, front: number, width: number) => {
+  ctx.fillStyle = '#fef08a';
+  ctx.shadowColor = '#fef08a';
+  ctx.shadowBlur = 8;
+  ctx.beginPath();
+  ctx.arc(front, -width * 0.35, width * 0.08, 0, Math.PI * 2);
+  ctx.arc(front, width * 0.35, width * 0.08, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.shadowBlur = 0;
+};
+
+// City bus: long body, windscreen up front, roof hatches along the middle.
+const drawBus = (ctx: CanvasRenderingContext2D, cellSize: number, palette: VehiclePalette, scale: number) => {
+  const busL = cellSize * scale * 1.6;
+  const busW = cellSize * scale * 0.6;
+  drawBox(ctx, busL, busW, palette);
+
+  ctx.fillStyle = 'rgba(56, 189, 248, 0.5)';
+  ctx.beginPath();
+  roundedRect(ctx, busL * 0.4, -busW * 0.4, busL * 0.07, busW * 0.8, 2);
+  ctx.fill();
+
+  ctx.fillStyle = palette.highlight;
+  ctx.beginPath();
+  roundedRect(ctx, -busL * 0.42, -busW * 0.2, busL * 0.78, busW * 0.4, 2);
+  ctx.fill();
+  ctx.fillStyle = palette.shade;
+  for (let i = 0; i < 3; i++) {
+    ctx.fillRect(-busL * 0.3 + i * busL * 0.22, -busW * 0.12, busL * 0.1, busW * 0.24);
+  }
+
+  drawHeadlights(ctx, busL * 0.5, busW);
+};
+
+// Articulated truck: short cab in front of a long grey trailer.
+const drawTruck = (ctx: CanvasRenderingContext2D, cellSize: number, palette: VehiclePalette, scale: number) => {
+  const truckL = cellSize * scale * 1.8;
+  const truckW = cellSize * scale * 0.6;
+  const cabL = truckL * 0.22;
+
+  ctx.save();
+  ctx.translate(-cabL / 2 - truckL * 0.01, 0);
+  drawBox(ctx, truckL - cabL, truckW, { ...palette, body: '#94a3b8', trim: '#475569' });
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.15)';
+  for (let i = 1; i < 6; i++) {
+    const x = -(truckL - cabL) / 2 + i * (truckL - cabL) / 6;
+    ctx.beginPath();
+    ctx.moveTo(x, -truckW * 0.45);
+    ctx.lineTo(x, truckW * 0.45);
+    ctx.stroke();
+  }
+  ctx.restore();
+
+  ctx.save();
+  ctx.translate(truckL / 2 - cabL / 2, 0);
+  drawBox(ctx, cabL, truckW * 0.9, palette);
+  ctx.fillStyle = 'rgba(56, 189, 248, 0.5)';
+  ctx.beginPath();
+  roundedRect(ctx, cabL * 0.15, -truckW * 0.35, cabL * 0.25, truckW * 0.7, 2);
+  ctx.fill();
+  drawHeadlights(ctx, cabL / 2, truckW * 0.9);
+  ctx.restore();
+};
+
+// Top-down bicycle: two thin wheels, a frame line and the rider's back.
+const drawBicycle = (ctx: CanvasRenderingContext2D, cellSize: number, palette: VehiclePalette, scale: number) => {
+  const bikeL = cellSize * scale * 0.8;
+  const bikeW = cellSize * scale * 0.12;
+
+  ctx.fillStyle = '#171717';
+  ctx.beginPath();
+  roundedRect(ctx, bikeL * 0.18, -bikeW / 2, bikeL * 0.32, bikeW, bikeW / 2);
+  roundedRect(ctx, -bikeL * 0.5, -bikeW / 2, bikeL * 0.32, bikeW, bikeW / 2);
+  ctx.fill();
+
+  ctx.strokeStyle = palette.trim;
+  ctx.lineWidth = Math.max(1.5, bikeW * 0.5);
+  ctx.beginPath();
+  ctx.moveTo(-bikeL * 0.34, 0);
+  ctx.lineTo(bikeL * 0.34, 0);
+  ctx.moveTo(bikeL * 0.26, -bikeL * 0.2);
+  ctx.lineTo(bikeL * 0.26, bikeL * 0.2);
+  ctx.stroke();
+
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+  ctx.shadowBlur = 8;
+  ctx.fillStyle = palette.body;
+  ctx.beginPath();
+  ctx.ellipse(-bikeL * 0.02, 0, bikeL * 0.14, bikeL * 0.2, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.shadowBlur = 0;
+  ctx.fillStyle = palette.highlight;
+  ctx.beginPath();
+  ctx.arc(bikeL * 0.1, 0, bikeL * 0.09, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+// Walker seen from above: shoulders, arms and a head.
+const drawPedestrian = (ctx: CanvasRenderingContext2D, cellSize: number, palette: VehiclePalette, scale: number) => {
+  const size = cellSize * scale * 0.45;
+
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+  ctx.shadowBlur = 8;
+  ctx.fillStyle = palette.body;
+  ctx.beginPath();
+  ctx.ellipse(0, 0, size * 0.22, size * 0.5, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.shadowBlur = 0;
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = palette.trim;
+  ctx.stroke();
+
+  ctx.fillStyle = palette.shade;
+  ctx.beginPath();
+  ctx.ellipse(size * 0.12, -size * 0.5, size * 0.14, size * 0.08, 0, 0, Math.PI * 2);
+  ctx.ellipse(-size * 0.12, size * 0.5, size * 0.14, size * 0.08, 0, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#fcd34d';
+  ctx.beginPath();
+  ctx.arc(size * 0.04, 0, size * 0.2, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = palette.trim;
+  ctx.beginPath();
+  ctx.arc(-size * 0.02, 0, size * 0.16, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+const SPRITES: Record<Exclude<VehicleType, VehicleType.CAR>, typeof drawBus> = {
+  [VehicleType.BICYCLE]: drawBicycle,
+  [VehicleType.PEDESTRIAN]: drawPedestrian,
+  [VehicleType.BUS]: drawBus,
+  [VehicleType.TRUCK]: drawTruck
+};
+
+// Draws the sprite for a vehicle type, placed like drawCar.
+const drawVehicle = (
+  ctx: CanvasRenderingContext2D,
+  type: VehicleType,
+  x: number,
+  y: number,
+  angle: number,
+  cellSize: number,
+  palette: VehiclePalette,
+  laneOffset: number = 0,
+  carScale: number = 1.6
+) => {
+  if (type === VehicleType.CAR) {
+    drawCar(ctx, x, y, angle, cellSize, palette, laneOffset, carScale);
+    return;
+  }
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.rotate(angle);
+  ctx.translate(0, laneOffset);
+  SPRITES[type](ctx, cellSize, palette, carScale);
+  ctx.restore();
+};
+
+// Adds a track to the current canvas path, arcs and curves included.
+const traceTrack = (
+  ctx: CanvasRenderingContext2D,
+  track: Track,
+  toX: (x: number) => number,
+  toY: (y: number) => number,
+  cellSize: number
+) => {
+  track.pieces.forEach((piece, index) => {
+    if (piece.kind === 'line') {
+      if (index === 0) ctx.moveTo(toX(piece.from.x), toY(piece.from.y));
+      ctx.lineTo(toX(piece.to.x), toY(piece.to.y));
+      return;
+    }
+    if (piece.kind === 'curve') {
+      if (index === 0) ctx.moveTo(toX(piece.from.x), toY(piece.from.y));
+      ctx.quadraticCurveTo(toX(piece.control.x), toY(piece.control.y), toX(piece.to.x), toY(piece.to.y));
+      return;
+    }
+    const startRadial = piece.startHeading - (Math.sign(piece.turn) * Math.PI) / 2;
+    ctx.arc(toX(piece.center.x), toY(piece.center.y), piece.radius * cellSize, startRadial, startRadial + piece.turn, piece.turn < 0);
+  });
+};
+
+// Surface zone painted over a road from (x1, y1) to (x2, y2): the surface's
+// tint plus a texture of its own, so gravel, ice and mud read apart at a
+// glance. Marks sit at fixed spacing so they stay still between frames.
+const drawSurfaceZone = (
+  ctx: CanvasRenderingContext2D,
+  surface: Surface,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  width: number
+) => {
+  const { color, markColor } = SURFACES[surface];
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  const half = width / 2;
+  const spacing = width * 0.4;
+
+  ctx.save();
+  ctx.translate(x1, y1);
+  ctx.rotate(Math.atan2(y2 - y1, x2 - x1));
+  ctx.beginPath();
+  ctx.rect(0, -half, length, width);
+  ctx.globalAlpha = 0.85;
+  ctx.fillStyle = color;
+  ctx.fill();
+  ctx.clip();
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = markColor;
+  ctx.strokeStyle = markColor;
+
+  switch (surface) {
+    case Surface.GRAVEL: // scattered stones
+      for (let x = spacing / 2, i = 0; x < length; x += spacing / 2, i++) {
+        ctx.beginPath();
+        ctx.arc(x, (((i * 7) % 5) / 4 - 0.5) * width * 0.7, width * 0.06, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      break;
+    case Surface.ICE: // diagonal glints
+      ctx.lineWidth = 1.5;
+      for (let x = 0; x < length + width; x += spacing) {
+        ctx.beginPath();
+        ctx.moveTo(x, -half);
+        ctx.lineTo(x - half, half);
+        ctx.stroke();
+      }
+      break;
+    case Surface.MUD: // puddles
+      for (let x = spacing, i = 0; x < length; x += spacing * 1.5, i++) {
+        ctx.beginPath();
+        ctx.ellipse(x, (i % 2 ? 1 : -1) * width * 0.15, width * 0.22, width * 0.12, 0, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      break;
+    default: // asphalt: fresh edge lines
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(0, -width * 0.38);
+      ctx.lineTo(length, -width * 0.38);
+      ctx.moveTo(0, width * 0.38);
+      ctx.lineTo(length, width * 0.38);
+      ctx.stroke();
+  }
+  ctx.restore();
+};
+
+// Traffic light or stop sign beside a node at (x, y). Lights show the colour
+// they have at the given simulated time.
+const drawTrafficControl = (ctx: CanvasRenderingContext2D, control: TrafficControl, x: number, y: number, time: number) => {
+  ctx.save();
+  ctx.shadowColor = 'rgba(0,0,0,0.4)';
+  ctx.shadowBlur = 4;
+  if (control.type === TrafficControlType.STOP_SIGN) {
+    const r = 11;
+    ctx.beginPath();
+    for (let i = 0; i < 8; i++) {
+      const a = Math.PI / 8 + (i * Math.PI) / 4;
+      ctx.lineTo(x + Math.cos(a) * r, y + Math.sin(a) * r);
+    }
+    ctx.closePath();
+    ctx.fillStyle = '#dc2626';
+    ctx.fill();
+    ctx.shadowBlur = 0;
+    ctx.lineWidth = 1.5;
+    ctx.strokeStyle = '#fff';
+    ctx.stroke();
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 6px Inter';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('STOP', x, y + 0.5);
+  } else {
+    const isRed = isLightRed(control, time);
+    ctx.fillStyle = '#0f172a';
+    ctx.beginPath();
+    if (ctx.roundRect) ctx.roundRect(x - 7, y - 13, 14, 26, 4);
+    else ctx.rect(x - 7, y - 13, 14, 26);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = isRed ? '#ef4444' : '#450a0a';
+    ctx.beginPath();
+    ctx.arc(x, y - 6, 4.5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = isRed ? '#052e16' : '#22c55e';
+    ctx.beginPath();
+    ctx.arc(x, y + 6, 4.5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.restore();
+};
+
+// Dashed arrow for one component of the displacement vector, labelled at
+// its middle.
+const drawComponentArrow = (ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number, label: string) => {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  ctx.save();
+  ctx.strokeStyle = '#fca5a5';
+  ctx.fillStyle = '#fca5a5';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([4, 6]);
+  ctx.beginPath();
+  ctx.moveTo(x1, y1);
+  ctx.lineTo(x2, y2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.beginPath();
+  ctx.moveTo(x2 - Math.cos(angle) * 8 + Math.sin(angle) * 4, y2 - Math.sin(angle) * 8 - Math.cos(angle) * 4);
+  ctx.lineTo(x2, y2);
+  ctx.lineTo(x2 - Math.cos(angle) * 8 - Math.sin(angle) * 4, y2 - Math.sin(angle) * 8 + Math.cos(angle) * 4);
+  ctx.fill();
+  ctx.font = 'bold 10px Inter';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.shadowColor = 'rgba(0,0,0,0.8)';
+  ctx.shadowBlur = 3;
+  ctx.fillText(label, (x1 + x2) / 2 + Math.sin(angle) * 10, (y1 + y2) / 2 - Math.cos(angle) * 10);
+  ctx.restore();
+};
+
+const NO_RIVALS: RaceVehicle[] = [];
+const ZONE_STRETCHES = 16; // straight stretches a surface zone on a whole curved road is painted with
+
 const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
+  map,
   vehicleType,
   gridScale,
-  finishNodeId,
+  route,
   showBuildings,
-  isRunning,
-  isFinished,
+  status,
+  stepCount,
+  replayTime = null,
   onFinish,
+  onStall,
+  onTelemetry,
+  rivals = NO_RIVALS,
+  onRaceFinish,
   targetSpeed,
-  friction,
+  surfaceZones,
+  trafficControls,
   airResistance,
+  dragModel = DragModel.CONSTANT,
+  linearDrag = 0,
+  airDensity = 0,
+  dragArea = 0,
   mass,
-  frictionStartNode,
-  frictionEndNode,
-  isDarkMode
+  engine = null,
+  isCornering = false,
+  isDarkMode,
+  editor = null
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationFrameRef = useRef<number>(0);
   
-  // Timing Refs
-  const startTimeRef = useRef<number>(0);
   const lastTimeRef = useRef<number>(0);
-  const segmentStartTimeRef = useRef<number>(0);
-  
-  // Physics State
-  const currentSpeedRef = useRef<number>(0); // m/s
-  const distanceTraveledRef = useRef<number>(0); // meters
-  const collectedSegmentsRef = useRef<SegmentData[]>([]);
+  const accumulatorRef = useRef<number>(0); // unsimulated frame time (s)
   
   // Images Ref
   const imagesRef = useRef<Record<string, HTMLImageElement>>({});
   const imagesLoadedRef = useRef<boolean>(false);
   
-  // Position State
-  const vehiclePosRef = useRef({ x: 0, y: 0 });
-  const vehicleAngleRef = useRef(0);
-  const currentPathIndexRef = useRef(0);
-  const isFinishedRef = useRef(false);
+  // Engine State (advanced by the headless engine, read by draw)
+  const simStateRef = useRef<SimulationState>(createSimulationState(map.nodes));
+  const rivalStatesRef = useRef<SimulationState[]>([]);
+  const runVehiclesRef = useRef<RaceVehicle[] | null>(null); // taken at launch: the run and its replays keep the settings it started with
+
+  // Edit Mode: node being dragged and where it currently is
+  const dragRef = useRef<{ id: string; x: number; y: number } | null>(null);
 
   // Load Images
   useEffect(() => {
@@ -81,29 +634,45 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
   }, []);
 
   // Active Path
-  const getPath = useCallback(() => {
-    const finishIndex = NODES.findIndex(n => n.id === finishNodeId);
-    if (finishIndex === -1) return NODES;
-    return NODES.slice(0, finishIndex + 1);
-  }, [finishNodeId]);
-
-  const activePath = getPath();
+  const activePath = route;
+  const routeZones = useMemo(() => getRouteZones(activePath, surfaceZones), [activePath, surfaceZones]);
+
+  const simConfig = useMemo<SimulationConfig>(() => ({
+    path: activePath,
+    roads: map.edges,
+    gridScale,
+    targetSpeed,
+    mass,
+    airResistance,
+    dragModel,
+    linearDrag,
+    airDensity,
+    dragArea,
+    surfaceZones,
+    trafficControls,
+    engine,
+    isCornering
+  }), [activePath, map.edges, gridScale, targetSpeed, mass, airResistance, dragModel, linearDrag, airDensity, dragArea, surfaceZones, trafficControls, engine, isCornering]);
+
+  // Everyone on the road, main vehicle first
+  const vehicles = useMemo<RaceVehicle[]>(() => [
+    { id: 'main', name: getRacerName(vehicleType, 0), vehicleType, colorIndex: 0, config: simConfig },
+    ...rivals
+  ], [vehicleType, simConfig, rivals]);
 
   // Reset Logic
   useEffect(() => {
-    if (!isRunning && !isFinished) {
-        const startNode = NODES[0];
-        vehiclePosRef.current = { x: startNode.x, y: startNode.y };
-        currentPathIndexRef.current = 0;
-        isFinishedRef.current = false;
-        vehicleAngleRef.current = 0;
-        currentSpeedRef.current = 0;
-        distanceTraveledRef.current = 0;
-        startTimeRef.current = 0;
-        segmentStartTimeRef.current = 0;
-        collectedSegmentsRef.current = [];
+    if (status === RunStatus.IDLE) {
+        simStateRef.current = createSimulationState(activePath);
+        rivalStatesRef.current = createRaceStates(rivals);
+        accumulatorRef.current = 0;
+        runVehiclesRef.current = null;
     }
-  }, [isRunning, isFinished, finishNodeId]);
+  }, [status, activePath, rivals]);
+
+  useEffect(() => {
+    if (status !== RunStatus.IDLE && !runVehiclesRef.current) runVehiclesRef.current = vehicles;
+  }, [status, vehicles]);
 
   // Helper: Draw Compass
   const drawCompass = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, carAngle: number) => {
@@ -189,20 +758,25 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
   // --- DRAWING ---
   const draw = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
     // 1. Grid Metrics
-    const effectiveCols = GRID_COLS + 2;
-    const effectiveRows = GRID_ROWS + 2;
-    const scaleX = width / effectiveCols;
-    const scaleY = height / effectiveRows;
-    const cellSize = Math.min(scaleX, scaleY); 
-    const startX = (width - effectiveCols * cellSize) / 2;
-    const startY = (height - effectiveRows * cellSize) / 2;
+    const { gridCols, gridRows } = map;
+    const { cellSize, startX, startY } = getGridMetrics(width, height, map);
+    const drag = dragRef.current;
+    const nodes = drag ? map.nodes.map(n => (n.id === drag.id ? { ...n, x: drag.x, y: drag.y } : n)) : map.nodes;
 
     const mapX = (gx: number) => startX + cellSize + (gx * cellSize);
     const mapY = (gy: number) => startY + cellSize + (gy * cellSize);
 
     // Prepare positions
-    const vx = mapX(vehiclePosRef.current.x);
-    const vy = mapY(vehiclePosRef.current.y);
+    // A replay follows the configs its run was made with, whatever the
+    // settings have been changed to since
+    const runVehicles = replayTime !== null ? runVehiclesRef.current : null;
+    const shownConfig = runVehicles?.[0].config ?? simConfig;
+    const shownPath = shownConfig.path;
+    const shownZones = runVehicles ? getRouteZones(shownPath, shownConfig.surfaceZones) : routeZones;
+    const live = simStateRef.current;
+    const sim = replayTime !== null && live.result ? getStateAtTime(shownConfig, live.result, replayTime) : live;
+    const vx = mapX(sim.position.x);
+    const vy = mapY(sim.position.y);
 
     // 2. Background & Theme Colors
     const bgFill = isDarkMode ? '#0f172a' : '#ffffff';
@@ -221,15 +795,15 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     ctx.strokeStyle = gridStroke;
     ctx.lineWidth = 1;
     ctx.beginPath();
-    for (let i = 0; i <= GRID_COLS; i++) {
+    for (let i = 0; i <= gridCols; i++) {
         const x = mapX(i);
         ctx.moveTo(x, mapY(0));
-        ctx.lineTo(x, mapY(GRID_ROWS));
+        ctx.lineTo(x, mapY(gridRows));
     }
-    for (let j = 0; j <= GRID_ROWS; j++) {
+    for (let j = 0; j <= gridRows; j++) {
         const y = mapY(j);
         ctx.moveTo(mapX(0), y);
-        ctx.lineTo(mapX(GRID_COLS), y);
+        ctx.lineTo(mapX(gridCols), y);
     }
     ctx.stroke();
 
@@ -253,7 +827,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     if (showBuildings) {
         const padding = 12;
         const rowHeight = 26; 
-        const legendBuildings = NODES.filter(n => n.type !== BuildingType.CORNER);
+        const legendBuildings = nodes.filter(n => n.type !== BuildingType.CORNER);
         legendHeight = legendBuildings.length * rowHeight + padding * 2 + 24; 
     }
 
@@ -272,14 +846,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
 
     // --- DRAW TARGET DISTANCE HUD ---
     // Calculate path length
-    let totalTargetDistance = 0;
-    for (let i = 0; i < activePath.length - 1; i++) {
-        const n1 = activePath[i];
-        const n2 = activePath[i+1];
-        const segDist = Math.sqrt(Math.pow(n2.x - n1.x, 2) + Math.pow(n2.y - n1.y, 2));
-        totalTargetDistance += segDist;
-    }
-    const displayTargetDistance = Math.round(totalTargetDistance * gridScale);
+    const displayTargetDistance = Math.round(getRoadProfile(shownConfig).length);
 
     ctx.save();
     ctx.shadowColor = 'rgba(0,0,0,0.1)';
@@ -312,7 +879,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         const legendWidth = componentSize;
         const padding = 12;
         const rowHeight = 26; 
-        const legendBuildings = NODES.filter(n => n.type !== BuildingType.CORNER);
+        const legendBuildings = nodes.filter(n => n.type !== BuildingType.CORNER);
 
         ctx.save();
         ctx.fillStyle = isDarkMode ? 'rgba(30, 41, 59, 0.9)' : 'rgba(255, 255, 255, 0.9)'; 
@@ -363,7 +930,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     }
 
     // Draw Compass (Top Right)
-    drawCompass(ctx, compassX, compassY, componentSize, vehicleAngleRef.current);
+    drawCompass(ctx, compassX, compassY, componentSize, sim.angle);
 
     // Draw Scale Indicator (Right, below Compass)
     ctx.save();
@@ -387,11 +954,20 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     const indY = commonY;
     
     // Calculate Displacement
-    const startNode = NODES[0];
-    const dxReal = (vehiclePosRef.current.x - startNode.x) * gridScale;
-    const dyReal = (vehiclePosRef.current.y - startNode.y) * gridScale;
+    const startNode = shownPath[0] ?? sim.position;
+    const dxReal = (sim.position.x - startNode.x) * gridScale;
+    const dyReal = (sim.position.y - startNode.y) * gridScale;
     const liveDisp = Math.sqrt(dxReal*dxReal + dyReal*dyReal);
     const dispAngle = Math.atan2(dyReal, dxReal);
+    const isSloped = getRoadProfile(shownConfig).isSloped;
+    const liveRise = shownPath[0] ? getElevationAt(shownConfig, sim.distanceTraveled) - getElevation(shownPath[0]) : 0;
+    const liveVector = toPlanarVector(dxReal, dyReal, 1);
+
+    // Vector Visual position, with a bearing line below it
+    const vecCx = indX + componentSize/2;
+    const vecCy = indY + (isSloped ? 98 : 90);
+    const vecR = 20;
+    const indHeight = vecCy - indY + vecR + 22;
 
     ctx.save();
     // Background
@@ -399,8 +975,8 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     ctx.strokeStyle = '#ef4444'; 
     ctx.lineWidth = 2;
     ctx.beginPath();
-    if (ctx.roundRect) ctx.roundRect(indX, indY, componentSize, componentSize, 12);
-    else ctx.rect(indX, indY, componentSize, componentSize);
+    if (ctx.roundRect) ctx.roundRect(indX, indY, componentSize, indHeight, 12);
+    else ctx.rect(indX, indY, componentSize, indHeight);
     ctx.fill();
     ctx.stroke();
 
@@ -417,10 +993,12 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     ctx.textBaseline = 'middle';
     ctx.fillText(`${liveDisp.toFixed(0)}m`, indX + componentSize/2, indY + 50);
 
-    // Vector Visual
-    const vecCx = indX + componentSize/2;
-    const vecCy = indY + 90;
-    const vecR = 20;
+    // Straight-line distance including the climb, on maps with hills
+    if (isSloped) {
+        ctx.fillStyle = hudTextLabel;
+        ctx.font = 'bold 10px Inter';
+        ctx.fillText(`3D ${Math.hypot(liveDisp, liveRise).toFixed(0)}m · Δh ${liveRise >= 0 ? '+' : ''}${liveRise.toFixed(0)}m`, indX + componentSize/2, indY + 72);
+    }
 
     // Crosshair
     ctx.strokeStyle = isDarkMode ? '#334155' : '#cbd5e1';
@@ -432,8 +1010,21 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     ctx.lineTo(vecCx, vecCy + vecR);
     ctx.stroke();
 
-    // Vector Arrow
+    // Vector Arrow, with its East-West and North-South components
     if (liveDisp > 1) {
+        const compX = Math.cos(dispAngle) * vecR;
+        const compY = Math.sin(dispAngle) * vecR;
+        ctx.save();
+        ctx.strokeStyle = '#fca5a5';
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([2, 2]);
+        ctx.beginPath();
+        ctx.moveTo(vecCx, vecCy);
+        ctx.lineTo(vecCx + compX, vecCy);
+        ctx.lineTo(vecCx + compX, vecCy + compY);
+        ctx.stroke();
+        ctx.restore();
+
         ctx.save();
         ctx.translate(vecCx, vecCy);
         ctx.rotate(dispAngle);
@@ -460,15 +1051,26 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.arc(vecCx, vecCy, 3, 0, Math.PI*2);
         ctx.fill();
     }
+
+    // Bearing clockwise from North
+    ctx.fillStyle = hudTextLabel;
+    ctx.font = 'bold 10px Inter';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(
+        liveDisp > 1 && liveVector.bearing !== null ? `${liveVector.bearing.toFixed(0)}° · ${toCompassNotation(liveVector.bearing)}` : 'AT START',
+        vecCx,
+        vecCy + vecR + 11
+    );
     ctx.restore();
 
 
-    // Draw Live Monitor (Right, at commonY)
-    if (isRunning) {
+    // Draw Live Monitor (Right, at commonY), kept up after a stall to show it
+    if (status === RunStatus.RUNNING || status === RunStatus.PAUSED || sim.isStalled) {
         const monitorX = compassX;
         const monitorY = commonY;
-        const fStartIdx = NODES.findIndex(n => n.id === frictionStartNode);
-        const fEndIdx = NODES.findIndex(n => n.id === frictionEndNode);
+        // Surface zones on the route get one row each below the readings
+        const zoneRowHeight = 14;
+        const monitorHeight = componentSize + (shownZones.length > 0 ? shownZones.length * zoneRowHeight + 4 : 0);
         
         ctx.save();
         ctx.fillStyle = hudBg;
@@ -477,8 +1079,8 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         
         // Background
         ctx.beginPath();
-        if (ctx.roundRect) ctx.roundRect(monitorX, monitorY, componentSize, componentSize, 12);
-        else ctx.rect(monitorX, monitorY, componentSize, componentSize);
+        if (ctx.roundRect) ctx.roundRect(monitorX, monitorY, componentSize, monitorHeight, 12);
+        else ctx.rect(monitorX, monitorY, componentSize, monitorHeight);
         ctx.fill();
         ctx.stroke();
         
@@ -500,106 +1102,168 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         // Speed
         ctx.fillStyle = hudTextVal;
         ctx.fillText(`Speed:`, leftPad, contentStartY);
-        ctx.fillStyle = '#38bdf8'; // Sky blue value
+        const isWaiting = sim.waitTime > 0 && sim.speed === 0 && !sim.isFinished;
+        ctx.fillStyle = sim.isStalled ? '#ef4444' : isWaiting ? '#f43f5e' : '#38bdf8'; // Sky blue value
         ctx.textAlign = 'right';
-        ctx.fillText(`${currentSpeedRef.current.toFixed(1)} m/s`, monitorX + componentSize - 15, contentStartY);
-
-        // Friction
-        const isFriction = currentPathIndexRef.current >= fStartIdx && currentPathIndexRef.current < fEndIdx && friction > 0;
+        ctx.fillText(
+            sim.isStalled ? 'STALLED' : isWaiting ? `WAIT ${sim.waitTime.toFixed(1)}s` : `${sim.speed.toFixed(1)} m/s`,
+            monitorX + componentSize - 15,
+            contentStartY
+        );
+
+        // Surface under the vehicle
+        const zone = getSurfaceZone(shownConfig, sim.distanceTraveled);
         ctx.textAlign = 'left';
         ctx.fillStyle = hudTextVal;
-        ctx.fillText(`Friction:`, leftPad, contentStartY + lineHeight);
+        ctx.fillText(`Surface:`, leftPad, contentStartY + lineHeight);
         ctx.textAlign = 'right';
-        ctx.fillStyle = isFriction ? '#f97316' : (isDarkMode ? '#64748b' : '#94a3b8');
-        ctx.fillText(isFriction ? `${(friction * 100).toFixed(0)}%` : 'Off', monitorX + componentSize - 15, contentStartY + lineHeight);
+        ctx.fillStyle = zone ? '#f97316' : (isDarkMode ? '#64748b' : '#94a3b8');
+        ctx.fillText(zone ? `µ ${zone.friction}` : 'Road', monitorX + componentSize - 15, contentStartY + lineHeight);
 
         // Air Resist
         ctx.textAlign = 'left';
         ctx.fillStyle = hudTextVal;
         ctx.fillText(`Air Res:`, leftPad, contentStartY + lineHeight * 2);
         ctx.textAlign = 'right';
-        ctx.fillStyle = airResistance > 0 ? '#22d3ee' : (isDarkMode ? '#64748b' : '#94a3b8');
-        ctx.fillText(`${airResistance} N`, monitorX + componentSize - 15, contentStartY + lineHeight * 2);
+        const airDrag = getAirDrag(shownConfig, sim.speed);
+        ctx.fillStyle = airDrag > 0 ? '#22d3ee' : (isDarkMode ? '#64748b' : '#94a3b8');
+        ctx.fillText(`${airDrag.toFixed(1)} N`, monitorX + componentSize - 15, contentStartY + lineHeight * 2);
+
+        // Time spent on each zone so far, the current one highlighted
+        ctx.font = 'bold 9px Inter';
+        shownZones.forEach((routeZone, i) => {
+            const rowY = monitorY + componentSize - 6 + i * zoneRowHeight;
+            const surface = SURFACES[routeZone.surface];
+            const time = sim.zoneTimes.find(z => z.zoneId === routeZone.id)?.time;
+            const isCurrent = zone?.id === routeZone.id;
+            ctx.fillStyle = surface.color;
+            ctx.fillRect(leftPad, rowY + 1, 8, 8);
+            ctx.textAlign = 'left';
+            ctx.fillStyle = isCurrent ? '#f97316' : hudTextVal;
+            ctx.fillText(`${surface.name} µ${routeZone.friction}`, leftPad + 12, rowY);
+            ctx.textAlign = 'right';
+            ctx.fillText(time !== undefined ? `${time.toFixed(1)}s` : '—', monitorX + componentSize - 15, rowY);
+        });
 
         ctx.restore();
     }
 
-    // 4. Friction Zones
+    // 4. Roads
     const roadWidth = cellSize * 0.5;
-    const fStartIdx = NODES.findIndex(n => n.id === frictionStartNode);
-    const fEndIdx = NODES.findIndex(n => n.id === frictionEndNode);
-    
-    if (fStartIdx !== -1 && fEndIdx !== -1 && fEndIdx > fStartIdx && friction > 0) {
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        const opacity = 0.3 + (friction * 0.1); // Reduced visual opacity for high friction to stay readable
-        ctx.strokeStyle = `rgba(249, 115, 22, ${opacity})`; 
-        ctx.lineWidth = roadWidth * 1.2; 
-        
+    const traceRoads = () => {
         ctx.beginPath();
-        for (let i = fStartIdx; i <= fEndIdx; i++) {
-            const node = NODES[i];
-            const px = mapX(node.x);
-            const py = mapY(node.y);
-            if (i === fStartIdx) ctx.moveTo(px, py);
-            else ctx.lineTo(px, py);
-        }
-        ctx.stroke();
-
-        const midIdx = Math.floor((fStartIdx + fEndIdx) / 2);
-        const midNode = NODES[midIdx];
-        ctx.fillStyle = '#f97316';
-        ctx.font = 'bold 10px Inter';
-        ctx.textAlign = 'center';
-        // Draw text later to ensure visibility? Or now.
-        ctx.fillText(`FRICTION ZONE (µ=${friction})`, mapX(midNode.x), mapY(midNode.y) - roadWidth);
-    }
+        map.edges.forEach(edge => {
+            const from = nodes.find(n => n.id === edge.from);
+            const to = nodes.find(n => n.id === edge.to);
+            if (!from || !to) return;
+            ctx.moveTo(mapX(from.x), mapY(from.y));
+            if (edge.control) ctx.quadraticCurveTo(mapX(edge.control.x), mapY(edge.control.y), mapX(to.x), mapY(to.y));
+            else ctx.lineTo(mapX(to.x), mapY(to.y));
+        });
+    };
 
-    // 5. Roads
     ctx.strokeStyle = roadStroke; 
     ctx.lineWidth = roadWidth;
-    ctx.beginPath();
-    NODES.forEach((node, index) => {
-        const px = mapX(node.x);
-        const py = mapY(node.y);
-        if (index === 0) ctx.moveTo(px, py);
-        else ctx.lineTo(px, py);
-    });
+    traceRoads();
     ctx.stroke();
 
     ctx.strokeStyle = roadCenterStroke; 
     ctx.lineWidth = 2;
     ctx.setLineDash([15, 15]);
-    ctx.beginPath();
-    NODES.forEach((node, index) => {
-        const px = mapX(node.x);
-        const py = mapY(node.y);
-        if (index === 0) ctx.moveTo(px, py);
-        else ctx.lineTo(px, py);
-    });
+    traceRoads();
     ctx.stroke();
     ctx.setLineDash([]);
 
+    // Slopes: each hill road darkens towards its higher end, with its grade
+    map.edges.forEach(edge => {
+        const from = nodes.find(n => n.id === edge.from);
+        const to = nodes.find(n => n.id === edge.to);
+        if (!from || !to) return;
+        const control = edge.control ?? null;
+        const rise = getElevation(to) - getElevation(from);
+        const run = getRoadLength(from, to, control) * gridScale;
+        if (rise === 0 || run === 0) return;
+        ctx.save();
+        const [low, high] = rise > 0 ? [from, to] : [to, from];
+        const gradient = ctx.createLinearGradient(mapX(low.x), mapY(low.y), mapX(high.x), mapY(high.y));
+        gradient.addColorStop(0, 'rgba(120, 53, 15, 0)');
+        gradient.addColorStop(1, 'rgba(120, 53, 15, 0.55)');
+        ctx.strokeStyle = gradient;
+        ctx.lineWidth = roadWidth;
+        ctx.beginPath();
+        ctx.moveTo(mapX(from.x), mapY(from.y));
+        if (control) ctx.quadraticCurveTo(mapX(control.x), mapY(control.y), mapX(to.x), mapY(to.y));
+        else ctx.lineTo(mapX(to.x), mapY(to.y));
+        ctx.stroke();
+
+        const mid = getRoadPointAt(from, to, control, 0.5);
+        ctx.fillStyle = '#b45309';
+        ctx.font = 'bold 10px Inter';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(`▲ ${Math.round((Math.abs(rise) / run) * 100)}% ${high.label}`, mapX(mid.x), mapY(mid.y) + roadWidth);
+        ctx.restore();
+    });
+
+    // 5. Surface Zones, painted over their stretch of road
+    surfaceZones.forEach(zone => {
+        const from = nodes.find(n => n.id === zone.fromNodeId);
+        const to = nodes.find(n => n.id === zone.toNodeId);
+        if (!from || !to) return;
+        // A curved road is painted as a run of short straight stretches,
+        // long enough to keep the surface's texture
+        const control = getRoadControl(map.edges, from.id, to.id);
+        const points = sampleRoadStretch(from, to, control, zone.start, zone.end, ZONE_STRETCHES);
+        for (let i = 1; i < points.length; i++) {
+            drawSurfaceZone(ctx, zone.surface, mapX(points[i - 1].x), mapY(points[i - 1].y), mapX(points[i].x), mapY(points[i].y), roadWidth * 1.1);
+        }
+
+        const midPoint = getRoadPointAt(from, to, control, (zone.start + zone.end) / 2);
+        const mid = { x: mapX(midPoint.x), y: mapY(midPoint.y) };
+        ctx.fillStyle = '#f97316';
+        ctx.font = 'bold 10px Inter';
+        ctx.textAlign = 'center';
+        ctx.fillText(`${SURFACES[zone.surface].name.toUpperCase()} µ=${zone.friction}`, mid.x, mid.y - roadWidth);
+    });
+
     // 6. Active Path
     ctx.strokeStyle = 'rgba(251, 191, 36, 0.6)';
     ctx.lineWidth = roadWidth * 0.6;
     ctx.beginPath();
-    activePath.forEach((node, index) => {
-        const px = mapX(node.x);
-        const py = mapY(node.y);
-        if (index === 0) ctx.moveTo(px, py);
-        else ctx.lineTo(px, py);
-    });
+    traceTrack(ctx, getTrack(shownConfig), mapX, mapY, cellSize);
     ctx.stroke();
 
-    // 7. Displacement Vector
-    const targetNode = NODES.find(n => n.id === finishNodeId);
-    if (targetNode) {
+    // Rivals heading somewhere else show their own route
+    const mainFinish = shownPath[shownPath.length - 1];
+    rivals.forEach(rival => {
+        const path = rival.config.path;
+        if (path[path.length - 1]?.id === mainFinish?.id) return;
+        ctx.save();
+        ctx.strokeStyle = RACER_PALETTES[rival.colorIndex % RACER_PALETTES.length].highlight;
+        ctx.globalAlpha = 0.7;
+        ctx.lineWidth = roadWidth * 0.2;
+        ctx.setLineDash([6, 6]);
+        ctx.beginPath();
+        traceTrack(ctx, getTrack(rival.config), mapX, mapY, cellSize);
+        ctx.stroke();
+        ctx.restore();
+    });
+
+    // 7. Displacement Vector, none when the route ends where it started
+    const targetNode = shownPath[shownPath.length - 1];
+    const vector = targetNode ? toPlanarVector(targetNode.x - startNode.x, targetNode.y - startNode.y, gridScale) : null;
+    if (targetNode && vector && vector.bearing !== null) {
         const sx = mapX(startNode.x);
         const sy = mapY(startNode.y);
         const tx = mapX(targetNode.x);
         const ty = mapY(targetNode.y);
 
+        // East-West and North-South components, only when the vector is diagonal
+        if (Math.abs(tx - sx) > 1 && Math.abs(ty - sy) > 1) {
+            drawComponentArrow(ctx, sx, sy, tx, sy, `${Math.abs(vector.x).toFixed(0)}m ${vector.x < 0 ? 'W' : 'E'}`);
+            drawComponentArrow(ctx, tx, sy, tx, ty, `${Math.abs(vector.y).toFixed(0)}m ${vector.y < 0 ? 'S' : 'N'}`);
+        }
+
         ctx.save();
         ctx.strokeStyle = '#ef4444'; // Red
         ctx.lineWidth = 3;
@@ -624,33 +1288,11 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     }
 
     // 8. Buildings and Labels
-    const getPlacement = (id: string) => {
-        const unit = cellSize * 1.5;
-        const Up = { x: 0, y: -unit };
-        const Down = { x: 0, y: unit };
-        const TL = { x: -unit * 0.7, y: -unit * 0.7 };
-        const TR = { x: unit * 0.7, y: -unit * 0.7 };
-        const BL = { x: -unit * 0.7, y: unit * 0.7 };
-        const BR = { x: unit * 0.7, y: unit * 0.7 };
-        switch(id) {
-            case 'A': return { bldg: Up };
-            case 'B': return { bldg: {x:0,y:0} };
-            case 'C': return { bldg: BR }; 
-            case 'D': return { bldg: Up };
-            case 'E': return { bldg: {x:0,y:0} }; 
-            case 'F': return { bldg: BL };
-            case 'G': return { bldg: Up };
-            case 'H': return { bldg: {x:0,y:0} }; 
-            case 'I': return { bldg: BR };
-            case 'J': return { bldg: Down };
-            default: return { bldg: Up };
-        }
-    };
-
-    NODES.forEach(node => {
+    nodes.forEach(node => {
         const cx = mapX(node.x);
         const cy = mapY(node.y);
-        const { bldg } = getPlacement(node.id);
+        const offset = getPlacement(map, node.id);
+        const bldg = { x: offset.x * cellSize, y: offset.y * cellSize };
         
         // Draw Buildings
         if (node.type !== BuildingType.CORNER) {
@@ -706,295 +1348,109 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
             
             ctx.restore();
         }
-    });
 
-    // 9. SUPER REALISTIC VEHICLE
-    ctx.save();
-    ctx.translate(vx, vy);
-    ctx.rotate(vehicleAngleRef.current);
-
-    const carScale = 1.6; 
-    const carL = cellSize * carScale;     
-    const carW = cellSize * carScale * 0.55; 
-
-    // Shadows & Tires (same as before)
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
-    ctx.shadowBlur = 15;
-    ctx.shadowOffsetX = 0;
-    ctx.shadowOffsetY = 5;
-
-    const wheelL = carL * 0.22;
-    const wheelW = carW * 0.25;
-    const wheelInsetX = carL * 0.32; 
-    const wheelOffsetY = carW * 0.42;
-
-    ctx.fillStyle = '#171717'; 
-    const drawTire = (x: number, y: number) => {
-        ctx.beginPath();
-        if (ctx.roundRect) ctx.roundRect(x - wheelL/2, y - wheelW/2, wheelL, wheelW, 4);
-        else ctx.rect(x - wheelL/2, y - wheelW/2, wheelL, wheelW);
-        ctx.fill();
-    };
-
-    drawTire(wheelInsetX, -wheelOffsetY);  
-    drawTire(wheelInsetX, wheelOffsetY);   
-    drawTire(-wheelInsetX, -wheelOffsetY); 
-    drawTire(-wheelInsetX, wheelOffsetY);  
-
-    ctx.shadowColor = 'transparent';
-    ctx.shadowBlur = 0;
-    ctx.shadowOffsetY = 0;
-
-    // Chassis
-    ctx.beginPath();
-    ctx.moveTo(carL * 0.48, -carW * 0.3);
-    ctx.quadraticCurveTo(carL * 0.52, 0, carL * 0.48, carW * 0.3);
-    ctx.lineTo(carL * 0.35, carW * 0.48); 
-    ctx.lineTo(-carL * 0.35, carW * 0.48);
-    ctx.lineTo(-carL * 0.48, carW * 0.35);
-    ctx.quadraticCurveTo(-carL * 0.5, 0, -carL * 0.48, -carW * 0.35);
-    ctx.lineTo(-carL * 0.35, -carW * 0.48);
-    ctx.lineTo(carL * 0.35, -carW * 0.48);
-    ctx.closePath();
-
-    const bodyGrad = ctx.createLinearGradient(-carL/2, 0, carL/2, 0);
-    bodyGrad.addColorStop(0, '#78350f');   
-    bodyGrad.addColorStop(0.2, '#d97706'); 
-    bodyGrad.addColorStop(0.5, '#fbbf24'); 
-    bodyGrad.addColorStop(0.8, '#d97706'); 
-    bodyGrad.addColorStop(1, '#78350f');   
-    ctx.fillStyle = bodyGrad;
-    ctx.fill();
-    ctx.lineWidth = 1;
-    ctx.strokeStyle = '#451a03';
-    ctx.stroke();
-
-    // Vents
-    ctx.fillStyle = 'rgba(0,0,0,0.2)';
-    ctx.beginPath();
-    ctx.moveTo(carL * 0.2, -carW * 0.15);
-    ctx.lineTo(carL * 0.4, -carW * 0.1);
-    ctx.lineTo(carL * 0.4, carW * 0.1);
-    ctx.lineTo(carL * 0.2, carW * 0.15);
-    ctx.fill();
-
-    // Cabin
-    const glassPath = new Path2D();
-    const cabFront = carL * 0.15;
-    const cabRear = -carL * 0.25;
-    const cabSide = carW * 0.35;
-    
-    glassPath.moveTo(cabFront, -cabSide);
-    glassPath.lineTo(cabRear, -carW * 0.25);
-    glassPath.quadraticCurveTo(cabRear - carL*0.05, 0, cabRear, carW * 0.25);
-    glassPath.lineTo(cabFront, cabSide);
-    glassPath.quadraticCurveTo(cabFront + carL*0.1, 0, cabFront, -cabSide);
-    
-    ctx.fillStyle = '#0f172a'; 
-    ctx.fill(glassPath);
-    ctx.fillStyle = 'rgba(56, 189, 248, 0.4)';
-    ctx.fill(glassPath);
-    
-    const roofFront = carL * 0.05;
-    const roofRear = -carL * 0.2;
-    const roofSide = carW * 0.28;
-    ctx.beginPath();
-    ctx.moveTo(roofFront, -roofSide);
-    ctx.lineTo(roofRear, -roofSide);
-    ctx.quadraticCurveTo(roofRear - carL*0.02, 0, roofRear, roofSide);
-    ctx.lineTo(roofFront, roofSide);
-    ctx.quadraticCurveTo(roofFront + carL*0.02, 0, roofFront, -roofSide);
-    ctx.fillStyle = bodyGrad; 
-    ctx.fill();
-    ctx.stroke();
-
-    // Spoiler
-    ctx.fillStyle = '#451a03';
-    ctx.beginPath();
-    if(ctx.roundRect) ctx.roundRect(-carL * 0.46, -carW * 0.35, carL * 0.08, carW * 0.7, 2);
-    else ctx.rect(-carL * 0.46, -carW * 0.35, carL * 0.08, carW * 0.7);
-    ctx.fill();
+        // Node heights, on maps with hills
+        if (node.elevation) {
+            ctx.save();
+            ctx.fillStyle = '#b45309';
+            ctx.font = 'bold 10px Inter';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(`${node.elevation > 0 ? '+' : ''}${node.elevation} m`, cx, cy + 24);
+            ctx.restore();
+        }
+    });
 
-    // Lights
-    ctx.save();
-    ctx.globalCompositeOperation = 'screen';
-    ctx.fillStyle = 'rgba(254, 240, 138, 0.15)'; 
-    ctx.beginPath();
-    ctx.moveTo(carL * 0.48, -carW * 0.25);
-    ctx.lineTo(carL * 3, -carW * 1.5);
-    ctx.lineTo(carL * 3, carW * 1.5);
-    ctx.lineTo(carL * 0.48, carW * 0.25);
-    ctx.fill();
-    ctx.restore();
+    // Traffic lights and stop signs, beside their node
+    trafficControls.forEach(control => {
+        const node = nodes.find(n => n.id === control.nodeId);
+        if (node) drawTrafficControl(ctx, control, mapX(node.x) - 20, mapY(node.y) - 20, sim.time);
+    });
 
-    ctx.fillStyle = '#fef08a';
-    ctx.shadowColor = '#fef08a';
-    ctx.shadowBlur = 8;
-    ctx.beginPath();
-    ctx.ellipse(carL * 0.48, -carW * 0.25, carL * 0.03, carW * 0.08, 0, 0, Math.PI * 2);
-    ctx.ellipse(carL * 0.48, carW * 0.25, carL * 0.03, carW * 0.08, 0, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.shadowBlur = 0;
+    // Edit Mode: node handles instead of the vehicle
+    if (editor) {
+        nodes.forEach(node => {
+            const cx = mapX(node.x);
+            const cy = mapY(node.y);
+            const isSelected = node.id === editor.selectedNodeId;
+            const isRoadStart = node.id === editor.roadStartNodeId;
 
-    ctx.fillStyle = '#ef4444';
-    ctx.shadowColor = '#ef4444';
-    ctx.shadowBlur = 6;
-    ctx.beginPath();
-    if (ctx.roundRect) {
-        ctx.roundRect(-carL * 0.5, -carW * 0.3, carL * 0.02, carW * 0.2, 1);
-        ctx.roundRect(-carL * 0.5, carW * 0.1, carL * 0.02, carW * 0.2, 1);
-    } else {
-        ctx.rect(-carL * 0.5, -carW * 0.3, carL * 0.02, carW * 0.2);
-        ctx.rect(-carL * 0.5, carW * 0.1, carL * 0.02, carW * 0.2);
-    }
-    ctx.fill();
-    ctx.shadowBlur = 0;
-
-    ctx.restore();
+            ctx.save();
+            ctx.beginPath();
+            ctx.arc(cx, cy, 12, 0, Math.PI * 2);
+            ctx.fillStyle = isRoadStart ? '#22c55e' : isSelected ? '#3b82f6' : 'rgba(251, 191, 36, 0.85)';
+            ctx.fill();
+            ctx.lineWidth = isSelected || isRoadStart ? 3 : 1;
+            ctx.strokeStyle = isDarkMode ? '#fff' : '#0f172a';
+            ctx.stroke();
 
-  }, [activePath, gridScale, finishNodeId, showBuildings, friction, frictionStartNode, frictionEndNode, airResistance, isRunning, targetSpeed, isDarkMode]);
+            ctx.fillStyle = '#0f172a';
+            ctx.font = 'bold 12px Inter, sans-serif';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(node.label, cx, cy + 1);
 
-  // --- PHYSICS ENGINE ---
-  const update = useCallback((deltaTime: number) => {
-    if (isFinishedRef.current) return;
-    
-    // Engine Control directly from props
-    const TARGET_SPEED = targetSpeed; 
-    const MASS = mass; // Use prop
-    const G = 9.8; 
-    
-    const fStartIdx = NODES.findIndex(n => n.id === frictionStartNode);
-    const fEndIdx = NODES.findIndex(n => n.id === frictionEndNode);
-    const inFrictionZone = currentPathIndexRef.current >= fStartIdx && currentPathIndexRef.current < fEndIdx;
-    
-    const mu = inFrictionZone ? friction : 0;
-    
-    const speedError = TARGET_SPEED - currentSpeedRef.current;
-    
-    // INCREASED RESPONSIVENESS (x50 instead of x5)
-    // This allows the car to reach target speed almost instantly if there is no resistance,
-    // ensuring accurate calibration for timing experiments.
-    const engineForce = Math.max(0, speedError * 50); 
-    
-    const frictionForce = mu * MASS * G;
-    const airForce = airResistance; 
-    
-    const totalResistive = frictionForce + airForce;
-    const netForce = engineForce - totalResistive;
-    const accel = netForce / MASS;
-    
-    currentSpeedRef.current += accel * deltaTime;
-    if (currentSpeedRef.current < 0) currentSpeedRef.current = 0; 
-    
-    const path = activePath;
-    const currentIdx = currentPathIndexRef.current;
-    
-    if (currentIdx >= path.length - 1) {
-        if (!isFinishedRef.current) {
-            isFinishedRef.current = true;
-            
-            const startNode = NODES[0];
-            const endNode = path[path.length - 1];
-            const dx = Math.abs(endNode.x - startNode.x) * gridScale;
-            const dy = Math.abs(endNode.y - startNode.y) * gridScale;
-            const displacement = Math.sqrt(dx*dx + dy*dy);
-            
-            const totalTime = (performance.now() - startTimeRef.current) / 1000;
-            
-            // Build Breakdown
-            const pathSegments: string[] = [];
-            let cumulativeDist = 0;
-            for(let i=0; i<path.length-1; i++) {
-                const n1 = path[i];
-                const n2 = path[i+1];
-                const d = Math.sqrt(Math.pow((n2.x-n1.x)*gridScale, 2) + Math.pow((n2.y-n1.y)*gridScale, 2));
-                cumulativeDist += d;
-                pathSegments.push(`${n1.label}→${n2.label}`);
+            if (node.id === map.defaultStartNodeId) {
+                ctx.fillStyle = '#22c55e';
+                ctx.font = 'bold 9px Inter';
+                ctx.fillText('START', cx, cy - 20);
             }
-            const breakdownStr = `${pathSegments.join(' + ')} = ${cumulativeDist.toFixed(0)}m`;
-
-            onFinish({
-                timeTaken: totalTime,
-                distanceTraveled: distanceTraveledRef.current,
-                displacement: displacement,
-                finalDestination: endNode.name,
-                averageSpeed: distanceTraveledRef.current / totalTime,
-                averageVelocity: displacement / totalTime,
-                pathBreakdown: breakdownStr,
-                segmentData: collectedSegmentsRef.current
-            });
-        }
+            ctx.restore();
+        });
         return;
     }
 
-    const targetNode = path[currentIdx + 1];
-    const dx = targetNode.x - vehiclePosRef.current.x;
-    const dy = targetNode.y - vehiclePosRef.current.y;
-    const distToTargetGrid = Math.sqrt(dx*dx + dy*dy);
-    
-    const moveStepMeters = currentSpeedRef.current * deltaTime;
-    const moveStepGrid = moveStepMeters / gridScale;
-    
-    distanceTraveledRef.current += moveStepMeters;
-
-    if (dx !== 0 || dy !== 0) {
-        vehicleAngleRef.current = Math.atan2(dy, dx);
-    }
-
-    if (moveStepGrid >= distToTargetGrid) {
-        // --- DATA COLLECTION FOR SEGMENT ---
-        const now = performance.now();
-        // Time taken for this specific segment
-        // If it's the first segment, start from startTimeRef if segmentStartTimeRef is not set properly,
-        // but we initialized it in reset.
-        // Wait, startRef is in ms.
-        let startTimeForSeg = segmentStartTimeRef.current;
-        if (startTimeForSeg === 0) startTimeForSeg = startTimeRef.current;
-        
-        const segDuration = Math.max(0.001, (now - startTimeForSeg) / 1000);
-        segmentStartTimeRef.current = now;
+    // 9. SUPER REALISTIC VEHICLE
+    // Racers get their own lane and a smaller car; rivals go under the main vehicle.
+    const isRace = rivals.length > 0;
+    const laneOffset = (index: number) => (isRace ? (index - rivals.length / 2) * cellSize * 0.3 : 0);
+    const carScale = isRace ? 1.2 : 1.6;
+    rivals.forEach((rival, i) => {
+        const state = rivalStatesRef.current[i];
+        if (!state) return;
+        const shown = replayTime !== null && state.result ? getStateAtTime(runVehicles?.[i + 1]?.config ?? rival.config, state.result, replayTime) : state;
+        const palette = RACER_PALETTES[rival.colorIndex % RACER_PALETTES.length];
+        drawVehicle(ctx, rival.vehicleType, mapX(shown.position.x), mapY(shown.position.y), shown.angle, cellSize, palette, laneOffset(i + 1), carScale);
+    });
+    drawVehicle(ctx, vehicleType, vx, vy, sim.angle, cellSize, RACER_PALETTES[0], laneOffset(0), carScale);
 
-        const segDX = targetNode.x - path[currentIdx].x;
-        const segDY = targetNode.y - path[currentIdx].y;
-        
-        let dirStr = "Stationary";
-        if (segDX > 0) dirStr = "East";
-        else if (segDX < 0) dirStr = "West";
-        else if (segDY > 0) dirStr = "South";
-        else if (segDY < 0) dirStr = "North";
-
-        // Distance in meters
-        const segDist = Math.sqrt(segDX*segDX + segDY*segDY) * gridScale;
-        const segSpeed = segDist / segDuration;
-
-        collectedSegmentsRef.current.push({
-            from: path[currentIdx].label,
-            to: targetNode.label,
-            distance: segDist,
-            time: segDuration,
-            speed: segSpeed,
-            direction: dirStr,
-            velocityLabel: `${segSpeed.toFixed(1)} m/s ${dirStr}`
-        });
-        // ------------------------------------
+  }, [map, activePath, routeZones, simConfig, gridScale, showBuildings, surfaceZones, trafficControls, status, isDarkMode, editor, replayTime, rivals, vehicleType]);
 
-        vehiclePosRef.current.x = targetNode.x;
-        vehiclePosRef.current.y = targetNode.y;
-        currentPathIndexRef.current++;
-    } else {
-        const ratio = moveStepGrid / distToTargetGrid;
-        vehiclePosRef.current.x += dx * ratio;
-        vehiclePosRef.current.y += dy * ratio;
-    }
+  // --- PHYSICS ENGINE ---
+  // The main vehicle and any rivals share one clock. The run finishes once
+  // everyone has arrived.
+  const commitStates = useCallback((prevMain: SimulationState, next: SimulationState[]) => {
+    const [main, ...rivalStates] = next;
+    simStateRef.current = main;
+    rivalStatesRef.current = rivalStates;
+    if (onTelemetry && main.telemetry !== prevMain.telemetry) onTelemetry(main.telemetry);
+    if (!isRaceFinished(next)) return;
+    const runVehicles = runVehiclesRef.current ?? vehicles;
+    if (onRaceFinish && runVehicles.length > 1) onRaceFinish(getStandings(runVehicles, next));
+    if (main.result) onFinish(main.result);
+    else if (onStall) onStall();
+  }, [vehicles, onFinish, onStall, onTelemetry, onRaceFinish]);
 
-  }, [activePath, gridScale, friction, airResistance, frictionStartNode, frictionEndNode, onFinish, targetSpeed, mass]);
+  const update = useCallback((deltaTime: number) => {
+    const prev = [simStateRef.current, ...rivalStatesRef.current];
+    if (isRaceFinished(prev)) return;
+    const { states, accumulator } = advanceRace(prev, runVehiclesRef.current ?? vehicles, deltaTime, accumulatorRef.current);
+    accumulatorRef.current = accumulator;
+    commitStates(prev[0], states);
+  }, [vehicles, commitStates]);
+
+  // Single steps while paused
+  const lastStepCountRef = useRef(stepCount);
+  useEffect(() => {
+    if (stepCount === lastStepCountRef.current) return;
+    lastStepCountRef.current = stepCount;
+    const prev = [simStateRef.current, ...rivalStatesRef.current];
+    if (isRaceFinished(prev)) return;
+    commitStates(prev[0], advanceRaceBy(prev, runVehiclesRef.current ?? vehicles, SINGLE_STEP_TIME));
+  }, [stepCount, vehicles, commitStates]);
 
   useEffect(() => {
     const render = (time: number) => {
-        if (!startTimeRef.current && isRunning) {
-             startTimeRef.current = time;
-             segmentStartTimeRef.current = time;
-        }
         const deltaTime = (time - lastTimeRef.current) / 1000;
         lastTimeRef.current = time;
 
@@ -1008,7 +1464,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
             }
             const ctx = canvas.getContext('2d');
             if (ctx) {
-                if (isRunning) update(Math.min(deltaTime, 0.1));
+                if (status === RunStatus.RUNNING) update(deltaTime);
                 draw(ctx, canvas.width, canvas.height);
             }
         }
@@ -1016,9 +1472,57 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     };
     animationFrameRef.current = requestAnimationFrame(render);
     return () => cancelAnimationFrame(animationFrameRef.current);
-  }, [draw, isRunning, update]);
+  }, [draw, status, update]);
+
+  // --- EDIT MODE INPUT ---
+  const toGridPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const { cellSize, startX, startY } = getGridMetrics(canvas.width, canvas.height, map);
+    const gx = Math.round((e.clientX - rect.left - startX - cellSize) / cellSize);
+    const gy = Math.round((e.clientY - rect.top - startY - cellSize) / cellSize);
+    return {
+      x: Math.min(Math.max(gx, 0), map.gridCols),
+      y: Math.min(Math.max(gy, 0), map.gridRows)
+    };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!editor) return;
+    const { x, y } = toGridPoint(e);
+    const node = map.nodes.find(n => n.x === x && n.y === y);
+    if (!node) {
+        editor.onGridClick(x, y);
+        return;
+    }
+    editor.onNodeClick(node.id);
+    if (editor.tool === EditorTool.SELECT) dragRef.current = { id: node.id, x, y };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+    const { x, y } = toGridPoint(e);
+    dragRef.current = { ...dragRef.current, x, y };
+  };
+
+  const handleMouseUp = () => {
+    const drag = dragRef.current;
+    if (!drag || !editor) return;
+    dragRef.current = null;
+    const node = map.nodes.find(n => n.id === drag.id);
+    if (node && (node.x !== drag.x || node.y !== drag.y)) editor.onNodeMove(drag.id, drag.x, drag.y);
+  };
 
-  return <canvas ref={canvasRef} className="w-full h-full block" />;
+  return (
+    <canvas
+        ref={canvasRef}
+        className={`w-full h-full block ${editor ? 'cursor-crosshair' : ''}`}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+    />
+  );
 };
 
 export default SimulationCanvas;
\ No newline at end of file
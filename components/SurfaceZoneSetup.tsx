@@ -0,0 +1,157 @@
+import React from 'react';
+import { Layers, Plus, Power, Trash2 } from 'lucide-react';
+import { MapDefinition, SurfaceZone } from '../types';
+import { MAX_SURFACE_ZONES, SURFACES, ZONE_FRICTION_LIMITS } from '../constants';
+import { describeSurfaceZone } from '../simulation/surfaces';
+import { getEdgeKey } from '../simulation/routing';
+
+interface SurfaceZoneSetupProps {
+  isEnabled: boolean;
+  onToggle: () => void;
+  zones: SurfaceZone[];
+  onAdd: () => void;
+  onUpdate: (id: string, changes: Partial<SurfaceZone>) => void;
+  onRemove: (id: string) => void;
+  map: MapDefinition;
+  disabled: boolean;
+  isDarkMode: boolean;
+}
+
+const MIN_ZONE_LENGTH = 0.05; // fraction of the road
+
+// Sidebar card for friction: any number of zones, each on one road or part
+// of it, with a surface preset and its own µ.
+const SurfaceZoneSetup: React.FC<SurfaceZoneSetupProps> = ({
+  isEnabled, onToggle, zones, onAdd, onUpdate, onRemove, map, disabled, isDarkMode
+}) => {
+  const cardClass = isDarkMode ? 'bg-slate-800/50 border-slate-700' : 'bg-slate-50 border-slate-200';
+  const labelClass = isDarkMode ? 'text-slate-200' : 'text-slate-700';
+  const subLabelClass = isDarkMode ? 'text-slate-400' : 'text-slate-500';
+  const inputBgClass = isDarkMode ? 'bg-slate-900 border-slate-600 text-white' : 'bg-white border-slate-300 text-slate-900';
+  const entryClass = isDarkMode ? 'bg-slate-900/60 border-slate-700' : 'bg-white border-slate-200';
+  const nodeLabel = (id: string) => map.nodes.find(n => n.id === id)?.label ?? id;
+
+  return (
+    <div className={`space-y-4 p-4 rounded-2xl border ${cardClass}`}>
+        <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2 text-orange-500 text-xs font-bold uppercase tracking-wider">
+                <Layers size={14} /> Friction Control
+            </div>
+            <button
+                onClick={onToggle}
+                disabled={disabled}
+                className={`flex items-center gap-1 text-[10px] font-bold px-2 py-1 rounded-full border transition-all disabled:opacity-50 ${isEnabled ? 'bg-orange-500/10 text-orange-500 border-orange-500/30' : 'bg-slate-500/10 text-slate-400 border-slate-500/30'}`}
+            >
+                <Power size={10} />
+                {isEnabled ? 'ON' : 'OFF'}
+            </button>
+        </div>
+
+        <div className={`space-y-3 transition-opacity ${isEnabled ? 'opacity-100' : 'opacity-40 pointer-events-none'}`}>
+            {zones.map(zone => (
+                <div key={zone.id} className={`p-3 rounded-xl border space-y-2 ${entryClass}`}>
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2 min-w-0">
+                            <span className="w-2.5 h-2.5 rounded-sm flex-none" style={{ backgroundColor: SURFACES[zone.surface].color }} />
+                            <span className={`text-xs font-bold truncate ${labelClass}`}>{describeSurfaceZone(map, zone)}</span>
+                        </div>
+                        <button onClick={() => onRemove(zone.id)} disabled={disabled} title="Remove" className="text-slate-400 hover:text-red-500 disabled:opacity-50">
+                            <Trash2 size={12} />
+                        </button>
+                    </div>
+                    <select
+                        value={getEdgeKey(zone.fromNodeId, zone.toNodeId)}
+                        onChange={(e) => {
+                            const edge = map.edges.find(ed => getEdgeKey(ed.from, ed.to) === e.target.value);
+                            if (edge) onUpdate(zone.id, { fromNodeId: edge.from, toNodeId: edge.to });
+                        }}
+                        disabled={disabled}
+                        className={`w-full rounded-lg text-xs py-1.5 px-2 focus:outline-none focus:border-orange-400 disabled:opacity-50 ${inputBgClass}`}
+                    >
+                        {map.edges.map(edge => (
+                            <option key={getEdgeKey(edge.from, edge.to)} value={getEdgeKey(edge.from, edge.to)}>
+                                Road {nodeLabel(edge.from)} → {nodeLabel(edge.to)}
+                            </option>
+                        ))}
+                    </select>
+                    <div className="grid grid-cols-4 gap-1">
+                        {Object.values(SURFACES).map(preset => (
+                            <button
+                                key={preset.surface}
+                                onClick={() => onUpdate(zone.id, { surface: preset.surface, friction: preset.friction })}
+                                disabled={disabled}
+                                className={`py-1 rounded-lg border text-[10px] font-bold uppercase transition-colors disabled:opacity-50 ${zone.surface === preset.surface
+                                    ? 'bg-orange-500/10 text-orange-500 border-orange-500/40'
+                                    : isDarkMode ? 'bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-100'}`}
+                            >
+                                {preset.name}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center justify-between text-[10px] font-bold">
+                        <span className={subLabelClass}>COEFFICIENT (µ)</span>
+                        <span className="font-mono text-orange-500">{zone.friction.toFixed(2)}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={ZONE_FRICTION_LIMITS.min}
+                        max={ZONE_FRICTION_LIMITS.max}
+                        step="0.05"
+                        value={zone.friction}
+                        onChange={(e) => onUpdate(zone.id, { friction: Number(e.target.value) })}
+                        disabled={disabled}
+                        className="w-full h-1.5 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-orange-500 disabled:opacity-50"
+                    />
+                    <div className="flex items-center justify-between text-[10px] font-bold">
+                        <span className={subLabelClass}>STRETCH FROM {nodeLabel(zone.fromNodeId)}</span>
+                        <span className="font-mono text-orange-500">{Math.round(zone.start * 100)}–{Math.round(zone.end * 100)}%</span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <input
+                            type="range"
+                            min="0"
+                            max={1 - MIN_ZONE_LENGTH}
+                            step={MIN_ZONE_LENGTH}
+                            value={zone.start}
+                            onChange={(e) => {
+                                const start = Number(e.target.value);
+                                onUpdate(zone.id, { start, end: Math.min(1, Math.max(zone.end, start + MIN_ZONE_LENGTH)) });
+                            }}
+                            disabled={disabled}
+                            className="w-full h-1.5 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-orange-500 disabled:opacity-50"
+                        />
+                        <input
+                            type="range"
+                            min={MIN_ZONE_LENGTH}
+                            max="1"
+                            step={MIN_ZONE_LENGTH}
+                            value={zone.end}
+                            onChange={(e) => {
+                                const end = Number(e.target.value);
+                                onUpdate(zone.id, { end, start: Math.max(0, Math.min(zone.start, end - MIN_ZONE_LENGTH)) });
+                            }}
+                            disabled={disabled}
+                            className="w-full h-1.5 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-orange-500 disabled:opacity-50"
+                        />
+                    </div>
+                </div>
+            ))}
+
+            {zones.length < MAX_SURFACE_ZONES && map.edges.length > 0 && (
+                <button
+                    onClick={onAdd}
+                    disabled={disabled}
+                    className={`w-full flex items-center justify-center gap-2 py-2 rounded-xl border border-dashed text-xs font-bold uppercase tracking-wider disabled:opacity-50 ${isDarkMode ? 'border-slate-600 text-slate-300 hover:bg-slate-800' : 'border-slate-300 text-slate-600 hover:bg-slate-100'}`}
+                >
+                    <Plus size={12} /> Add Zone
+                </button>
+            )}
+            <p className="text-[10px] text-slate-400">
+                µ sets the rolling friction on the zone; the surface also sets how fast corners on it can be taken.
+            </p>
+        </div>
+    </div>
+  );
+};
+
+export default SurfaceZoneSetup;
@@ -0,0 +1,148 @@
+import React from 'react';
+import { Octagon, Plus, TrafficCone, Trash2 } from 'lucide-react';
+import { MapDefinition, TrafficControl, TrafficControlType } from '../types';
+import { LIGHT_PHASE_LIMITS, MAX_TRAFFIC_CONTROLS } from '../constants';
+import { describeTrafficControl } from '../simulation/traffic';
+import { STOP_SIGN_WAIT } from '../simulation/engine';
+
+interface TrafficSetupProps {
+  controls: TrafficControl[];
+  onAdd: (type: TrafficControlType) => void;
+  onUpdate: (id: string, changes: Partial<TrafficControl>) => void;
+  onRemove: (id: string) => void;
+  map: MapDefinition;
+  disabled: boolean;
+  isDarkMode: boolean;
+}
+
+const TYPES = [
+  { type: TrafficControlType.TRAFFIC_LIGHT, label: 'Light', icon: TrafficCone },
+  { type: TrafficControlType.STOP_SIGN, label: 'Stop Sign', icon: Octagon },
+];
+
+// Sidebar card for traffic lights and stop signs, at most one per node.
+const TrafficSetup: React.FC<TrafficSetupProps> = ({
+  controls, onAdd, onUpdate, onRemove, map, disabled, isDarkMode
+}) => {
+  const cardClass = isDarkMode ? 'bg-slate-800/50 border-slate-700' : 'bg-slate-50 border-slate-200';
+  const labelClass = isDarkMode ? 'text-slate-200' : 'text-slate-700';
+  const subLabelClass = isDarkMode ? 'text-slate-400' : 'text-slate-500';
+  const inputBgClass = isDarkMode ? 'bg-slate-900 border-slate-600 text-white' : 'bg-white border-slate-300 text-slate-900';
+  const entryClass = isDarkMode ? 'bg-slate-900/60 border-slate-700' : 'bg-white border-slate-200';
+  const canAdd = controls.length < MAX_TRAFFIC_CONTROLS && controls.length < map.nodes.length;
+
+  const renderSlider = (control: TrafficControl, key: 'greenTime' | 'redTime' | 'offset', label: string, color: string, min: number, max: number) => (
+    <div className="space-y-1">
+        <div className="flex items-center justify-between text-[10px] font-bold">
+            <span className={subLabelClass}>{label}</span>
+            <span className={`font-mono ${color}`}>{control[key]} s</span>
+        </div>
+        <input
+            type="range"
+            min={min}
+            max={max}
+            step="1"
+            value={control[key]}
+            onChange={(e) => {
+                const value = Number(e.target.value);
+                const changes: Partial<TrafficControl> = { [key]: value };
+                // The offset never runs past the end of the cycle
+                if (key !== 'offset') {
+                    const cycle = (key === 'greenTime' ? value : control.greenTime) + (key === 'redTime' ? value : control.redTime);
+                    changes.offset = Math.min(control.offset, cycle - 1);
+                }
+                onUpdate(control.id, changes);
+            }}
+            disabled={disabled}
+            className="w-full h-1.5 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-rose-500 disabled:opacity-50"
+        />
+    </div>
+  );
+
+  return (
+    <div className={`space-y-4 p-4 rounded-2xl border ${cardClass}`}>
+        <div className="flex items-center gap-2 text-rose-500 text-xs font-bold uppercase tracking-wider mb-2">
+            <TrafficCone size={14} /> Traffic
+        </div>
+
+        <div className="space-y-3">
+            {controls.map(control => (
+                <div key={control.id} className={`p-3 rounded-xl border space-y-2 ${entryClass}`}>
+                    <div className="flex items-center justify-between">
+                        <span className={`text-xs font-bold truncate ${labelClass}`}>{describeTrafficControl(map, control)}</span>
+                        <button
+                            onClick={() => onRemove(control.id)}
+                            disabled={disabled}
+                            title="Remove"
+                            className="text-slate-400 hover:text-red-500 disabled:opacity-50"
+                        >
+                            <Trash2 size={12} />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        <select
+                            value={control.nodeId}
+                            onChange={(e) => onUpdate(control.id, { nodeId: e.target.value })}
+                            disabled={disabled}
+                            className={`rounded-lg text-xs py-1.5 px-2 focus:outline-none focus:border-rose-400 disabled:opacity-50 ${inputBgClass}`}
+                        >
+                            {map.nodes.map(node => (
+                                <option
+                                    key={node.id}
+                                    value={node.id}
+                                    disabled={node.id !== control.nodeId && controls.some(c => c.nodeId === node.id)}
+                                >
+                                    {node.label}
+                                </option>
+                            ))}
+                        </select>
+                        <div className="col-span-2 grid grid-cols-2 gap-1">
+                            {TYPES.map(({ type, label }) => (
+                                <button
+                                    key={type}
+                                    onClick={() => onUpdate(control.id, { type })}
+                                    disabled={disabled}
+                                    className={`py-1 rounded-lg border text-[10px] font-bold uppercase transition-colors disabled:opacity-50 ${control.type === type
+                                        ? 'bg-rose-500/10 text-rose-500 border-rose-500/40'
+                                        : isDarkMode ? 'bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-100'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    {control.type === TrafficControlType.TRAFFIC_LIGHT ? (
+                        <>
+                            {renderSlider(control, 'greenTime', 'GREEN', 'text-emerald-500', LIGHT_PHASE_LIMITS.min, LIGHT_PHASE_LIMITS.max)}
+                            {renderSlider(control, 'redTime', 'RED', 'text-red-500', LIGHT_PHASE_LIMITS.min, LIGHT_PHASE_LIMITS.max)}
+                            {renderSlider(control, 'offset', 'OFFSET AT LAUNCH', 'text-rose-500', 0, control.greenTime + control.redTime - 1)}
+                        </>
+                    ) : (
+                        <p className={`text-[10px] ${subLabelClass}`}>Full stop for {STOP_SIGN_WAIT} s, then drive on.</p>
+                    )}
+                </div>
+            ))}
+
+            {canAdd && (
+                <div className="grid grid-cols-2 gap-2">
+                    {TYPES.map(({ type, label, icon: Icon }) => (
+                        <button
+                            key={type}
+                            onClick={() => onAdd(type)}
+                            disabled={disabled}
+                            className={`flex items-center justify-center gap-1 py-2 rounded-xl border border-dashed text-[10px] font-bold uppercase tracking-wider disabled:opacity-50 ${isDarkMode ? 'border-slate-600 text-slate-300 hover:bg-slate-800' : 'border-slate-300 text-slate-600 hover:bg-slate-100'}`}
+                        >
+                            <Plus size={12} /> <Icon size={12} /> {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <p className="text-[10px] text-slate-400">
+                Vehicles brake to a stop at red lights and stop signs on their route, so their average speed falls below their top speed.
+            </p>
+        </div>
+    </div>
+  );
+};
+
+export default TrafficSetup;
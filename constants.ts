@@ -1,44 +1,150 @@
-import { BuildingType, NodePoint, VehicleConfig, VehicleType } from './types';
+import { BuildingType, DragModel, Surface, SurfaceConfig, VehicleConfig, VehicleType, VehiclePalette } from './types';
 
-export const GRID_COLS = 25; 
-export const GRID_ROWS = 18; // Adjusted slightly for the J-centric layout
 export const DEFAULT_GRID_SCALE = 10; // 10 meters per square
+export const SINGLE_STEP_TIME = 0.1; // s of simulated time per press of "Step"
 
+export const DEFAULT_PHYSICS = {
+  targetSpeed: 30, // m/s
+  isFrictionOn: true,
+  airResistance: 0, // N
+  dragModel: DragModel.CONSTANT,
+  linearDrag: 1, // N·s/m
+  airDensity: 1.2, // kg/m³, air at sea level
+  dragArea: 0.7, // m², the car's Cd·A
+  mass: 20, // kg
+  isRealisticEngine: false,
+  reactionTime: 0.5, // s
+  isCornering: false
+};
+
+// Slider ranges, also used to validate imported settings
+export const SETTING_LIMITS = {
+  gridScale: { min: 10, max: 50 },
+  targetSpeed: { min: 0.5, max: 120 },
+  airResistance: { min: 0, max: 50 },
+  linearDrag: { min: 0, max: 10 },
+  airDensity: { min: 0, max: 2 },
+  dragArea: { min: 0, max: 10 },
+  mass: { min: 10, max: 100 },
+  reactionTime: { min: 0, max: 2 }
+};
+
+// Range of a surface zone's µ
+export const ZONE_FRICTION_LIMITS = { min: 0, max: 5 };
+export const MAX_SURFACE_ZONES = 8;
+
+// Range of a node's elevation in the map editor, m
+export const ELEVATION_LIMITS = { min: -50, max: 50 };
+
+// Traffic light timings, s. A new light starts with DEFAULT_LIGHT_TIMING.
+export const LIGHT_PHASE_LIMITS = { min: 1, max: 60 };
+export const DEFAULT_LIGHT_TIMING = { greenTime: 8, redTime: 6, offset: 0 };
+export const MAX_TRAFFIC_CONTROLS = 8;
+
+// Surface presets. friction is the rolling µ a new zone starts with; grip is
+// the µ that sets the safe speed through corners on the zone.
+export const SURFACES: Record<Surface, SurfaceConfig> = {
+  [Surface.ASPHALT]: { surface: Surface.ASPHALT, name: 'Asphalt', friction: 0.1, grip: 0.7, color: '#475569', markColor: '#e2e8f0' },
+  [Surface.GRAVEL]: { surface: Surface.GRAVEL, name: 'Gravel', friction: 0.3, grip: 0.5, color: '#a8a29e', markColor: '#57534e' },
+  [Surface.ICE]: { surface: Surface.ICE, name: 'Ice', friction: 0.05, grip: 0.1, color: '#bae6fd', markColor: '#ffffff' },
+  [Surface.MUD]: { surface: Surface.MUD, name: 'Mud', friction: 0.8, grip: 0.3, color: '#78350f', markColor: '#451a03' }
+};
+
+// Masses are scaled to fit the 10–100 kg range of the mass slider.
 export const VEHICLES: Record<VehicleType, VehicleConfig> = {
   [VehicleType.CAR]: {
     type: VehicleType.CAR,
     name: "Car",
-    baseSpeed: 20,
-    maxSpeed: 40,
+    baseSpeed: 30,
+    minSpeed: 10,
+    maxSpeed: 120,
+    speedStep: 5,
+    defaultMass: 20,
+    dragArea: 0.7,
+    maxEngineForce: 80,
+    maxPower: 1600,
+    maxBrakeForce: 160,
     isAdjustable: true,
     color: "#f59e0b", // Amber
     icon: "🚗"
+  },
+  [VehicleType.BICYCLE]: {
+    type: VehicleType.BICYCLE,
+    name: "Bicycle",
+    baseSpeed: 6,
+    minSpeed: 2,
+    maxSpeed: 15,
+    speedStep: 1,
+    defaultMass: 15,
+    dragArea: 0.5,
+    maxEngineForce: 20,
+    maxPower: 150,
+    maxBrakeForce: 40,
+    isAdjustable: true,
+    color: "#22c55e", // Green
+    icon: "🚲"
+  },
+  [VehicleType.PEDESTRIAN]: {
+    type: VehicleType.PEDESTRIAN,
+    name: "Pedestrian",
+    baseSpeed: 1.5,
+    minSpeed: 0.5,
+    maxSpeed: 6,
+    speedStep: 0.5,
+    defaultMass: 10,
+    dragArea: 0.7,
+    maxEngineForce: 15,
+    maxPower: 60,
+    maxBrakeForce: 30,
+    isAdjustable: true,
+    color: "#a855f7", // Purple
+    icon: "🚶"
+  },
+  [VehicleType.BUS]: {
+    type: VehicleType.BUS,
+    name: "Bus",
+    baseSpeed: 15,
+    minSpeed: 2,
+    maxSpeed: 30,
+    speedStep: 1,
+    defaultMass: 80,
+    dragArea: 6,
+    maxEngineForce: 100,
+    maxPower: 1500,
+    maxBrakeForce: 240,
+    isAdjustable: true,
+    color: "#eab308", // Yellow
+    icon: "🚌"
+  },
+  [VehicleType.TRUCK]: {
+    type: VehicleType.TRUCK,
+    name: "Truck",
+    baseSpeed: 20,
+    minSpeed: 2,
+    maxSpeed: 35,
+    speedStep: 1,
+    defaultMass: 100,
+    dragArea: 8,
+    maxEngineForce: 90,
+    maxPower: 1500,
+    maxBrakeForce: 260,
+    isAdjustable: true,
+    color: "#3b82f6", // Blue
+    icon: "🚚"
   }
 };
 
-// Map Layout: Snake Pattern A -> J based on provided image.
-// A (Start) -> B -> C -> D -> E -> F -> G -> H -> I -> J (Finish)
-// Center X is 12.
-export const NODES: NodePoint[] = [
-  // Row 1: A -> B (Right)
-  { id: 'A', label: 'A', x: 12, y: 3, type: BuildingType.HOUSE, name: 'House' },
-  { id: 'B', label: 'B', x: 21, y: 3, type: BuildingType.CORNER, name: 'Corner B', isFinishOption: true },
-
-  // Row 2: C (Down) -> D (Left) -> E (Left)
-  { id: 'C', label: 'C', x: 21, y: 7, type: BuildingType.HOSPITAL, name: 'Hospital', isFinishOption: true },
-  { id: 'D', label: 'D', x: 12, y: 7, type: BuildingType.SCHOOL, name: 'School', isFinishOption: true },
-  { id: 'E', label: 'E', x: 3, y: 7, type: BuildingType.CORNER, name: 'Corner E', isFinishOption: true },
-
-  // Row 3: F (Down) -> G (Right) -> H (Right)
-  { id: 'F', label: 'F', x: 3, y: 11, type: BuildingType.TOWER, name: 'Tower', isFinishOption: true },
-  { id: 'G', label: 'G', x: 12, y: 11, type: BuildingType.FARM, name: 'Farm', isFinishOption: true },
-  { id: 'H', label: 'H', x: 21, y: 11, type: BuildingType.CORNER, name: 'Corner H', isFinishOption: true },
-
-  // Row 4: I (Down) -> J (Left, Finish)
-  { id: 'I', label: 'I', x: 21, y: 15, type: BuildingType.SHOP, name: 'Shop', isFinishOption: true },
-  { id: 'J', label: 'J', x: 12, y: 15, type: BuildingType.FINISH, name: 'Finish Line', isFinishOption: true },
+// Body colors in race mode. The first is the main vehicle's.
+export const RACER_PALETTES: VehiclePalette[] = [
+  { shade: '#78350f', body: '#d97706', highlight: '#fbbf24', trim: '#451a03' }, // Amber
+  { shade: '#1e3a8a', body: '#2563eb', highlight: '#60a5fa', trim: '#172554' }, // Blue
+  { shade: '#14532d', body: '#16a34a', highlight: '#4ade80', trim: '#052e16' }, // Green
+  { shade: '#7f1d1d', body: '#dc2626', highlight: '#f87171', trim: '#450a0a' }, // Red
+  { shade: '#581c87', body: '#9333ea', highlight: '#c084fc', trim: '#3b0764' }, // Purple
 ];
 
+export const MAX_RIVALS = RACER_PALETTES.length - 1;
+
 // PASTE YOUR NEW IMAGE LINKS INSIDE THE QUOTES BELOW
 export const BUILDING_IMAGES: Record<BuildingType, string> = {
   [BuildingType.HOUSE]: "https://cdn-icons-png.flaticon.com/512/619/619153.png",
@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest';
+import { DragModel, SimulationConfig, TrafficControlType, VehicleType } from '../types';
+import { VEHICLES } from '../constants';
+import {
+  DEFAULT_MAX_TIME, FIXED_TIME_STEP, GRAVITY, MAX_FRAME_TIME, STOP_SIGN_WAIT, TELEMETRY_INTERVAL, TYRE_GRIP,
+  advanceSimulation, advanceSimulationBy, createEngineLimits, createSimulationState, getAccelerationStats, getAirDrag,
+  getCornerSpeed, getMaxRunTime, getRoadProfile, getStateAtTime, getTerminalVelocity, getTrack, isSettled, runSimulation
+} from './engine';
+import { getMapById } from './maps';
+import { findTripRoute } from './routing';
+import { createTrafficControl } from './traffic';
+
+// Car on a map's default route, with the app's default physics.
+const createConfig = (mapId: string, overrides: Partial<SimulationConfig> = {}, isRoundTrip = false): SimulationConfig => {
+  const map = getMapById(mapId);
+  return {
+    path: findTripRoute(map, map.defaultStartNodeId, [], map.defaultFinishNodeId, isRoundTrip)!,
+    roads: map.edges,
+    gridScale: 10,
+    targetSpeed: 30,
+    mass: 20,
+    airResistance: 0,
+    dragModel: DragModel.CONSTANT,
+    linearDrag: 1,
+    airDensity: 1.2,
+    dragArea: 0.7,
+    surfaceZones: [],
+    trafficControls: [],
+    engine: null,
+    isCornering: false,
+    ...overrides
+  };
+};
+
+// Feeds the same frame time in over and over, as the render loop would.
+const runFrames = (config: SimulationConfig, frameTime: number) => {
+  let state = createSimulationState(config.path);
+  let accumulator = 0;
+  while (!isSettled(state)) ({ state, accumulator } = advanceSimulation(state, config, frameTime, accumulator));
+  return state.result;
+};
+
+describe('runSimulation', () => {
+  it('gives the same result whatever the frame time', () => {
+    const config = createConfig('snake', { isCornering: true });
+    const { result } = runSimulation(config);
+    expect(result).not.toBeNull();
+    for (const frameTime of [1 / 30, 1 / 60, 1 / 144, 0.25]) {
+      expect(runFrames(config, frameTime)).toEqual(result);
+    }
+  });
+
+  it('splits the route into segments that add up to its length', () => {
+    for (const mapId of ['snake', 'hill', 'lanes']) {
+      const config = createConfig(mapId);
+      const result = runSimulation(config).result!;
+      const total = result.segmentData.reduce((sum, segment) => sum + segment.distance, 0);
+      expect(result.segmentData).toHaveLength(config.path.length - 1);
+      expect(total).toBeCloseTo(getRoadProfile(config).length, 6);
+      expect(result.distanceTraveled).toBeCloseTo(total, 6);
+    }
+  });
+
+  it('has no displacement on a round trip', () => {
+    const config = createConfig('snake', {}, true);
+    const result = runSimulation(config).result!;
+    expect(result.distanceTraveled).toBeGreaterThan(0);
+    expect(result.displacement).toBe(0);
+    expect(result.displacementVector.bearing).toBeNull();
+    expect(result.averageVelocity).toBe(0);
+  });
+});
+
+describe('advanceSimulation', () => {
+  const config = createConfig('snake');
+  const start = createSimulationState(config.path);
+
+  it('simulates whole ticks and carries the rest of the frame over', () => {
+    const { state, accumulator } = advanceSimulation(start, config, 0.01, 0);
+    expect(state.time).toBeCloseTo(2 * FIXED_TIME_STEP, 12);
+    expect(accumulator).toBeCloseTo(0.01 - 2 * FIXED_TIME_STEP, 12);
+  });
+
+  it('caps long frames and ignores negative ones', () => {
+    const { state, accumulator } = advanceSimulation(start, config, 5, 0);
+    expect(state.time + accumulator).toBeCloseTo(MAX_FRAME_TIME, 9);
+    expect(advanceSimulation(start, config, -1, 0)).toEqual({ state: start, accumulator: 0 });
+  });
+
+  it('steps a paused run by a set amount of simulated time', () => {
+    expect(advanceSimulationBy(start, config, 0.1).time).toBeCloseTo(0.1, 9);
+  });
+});
+
+describe('telemetry', () => {
+  const result = runSimulation(createConfig('snake')).result!;
+  const samples = result.telemetry;
+
+  it('is sampled at a fixed interval from launch to the finish', () => {
+    expect(samples[0]).toMatchObject({ time: 0, speed: 0, distanceTraveled: 0, displacement: 0 });
+    samples.slice(1, -1).forEach((sample, i) => expect(sample.time).toBeCloseTo((i + 1) * TELEMETRY_INTERVAL, 2));
+    expect(samples[samples.length - 1].time).toBe(result.timeTaken);
+    expect(samples[samples.length - 1].distanceTraveled).toBeCloseTo(result.distanceTraveled, 9);
+  });
+
+  it('never has the distance run backwards', () => {
+    samples.slice(1).forEach((sample, i) => expect(sample.distanceTraveled).toBeGreaterThanOrEqual(samples[i].distanceTraveled));
+  });
+});
+
+describe('getStateAtTime', () => {
+  const config = createConfig('staircase', { isCornering: true });
+  const result = runSimulation(config).result!;
+
+  it('puts the replayed vehicle where the live run had it', () => {
+    for (const time of [1, 5.5, 12]) {
+      const live = advanceSimulationBy(createSimulationState(config.path), config, time);
+      const replayed = getStateAtTime(config, result, time);
+      expect(replayed.distanceTraveled).toBeCloseTo(live.distanceTraveled, 1);
+      expect(replayed.position.x).toBeCloseTo(live.position.x, 2);
+      expect(replayed.position.y).toBeCloseTo(live.position.y, 2);
+      expect(replayed.segments).toEqual(live.segments);
+    }
+  });
+
+  it('holds the start and the finish outside the run', () => {
+    expect(getStateAtTime(config, result, -1)).toMatchObject({ time: 0, distanceTraveled: 0 });
+    const end = getStateAtTime(config, result, result.timeTaken + 10);
+    expect(end.isFinished).toBe(true);
+    expect(end.distanceTraveled).toBeCloseTo(result.distanceTraveled, 9);
+    expect(end.segments).toEqual(result.segmentData);
+  });
+});
+
+describe('getMaxRunTime', () => {
+  it('gives a walk that takes longer than the default limit the time it needs', () => {
+    const walker = VEHICLES[VehicleType.PEDESTRIAN];
+    const config = createConfig('snake', { targetSpeed: walker.baseSpeed, mass: walker.defaultMass }, true);
+    expect(getMaxRunTime(config)).toBeGreaterThan(DEFAULT_MAX_TIME);
+    const result = runSimulation(config).result!;
+    expect(result).not.toBeNull();
+    expect(result.timeTaken).toBeGreaterThan(DEFAULT_MAX_TIME);
+  });
+
+  it('allows for a full wait at every traffic control on the way', () => {
+    const config = createConfig('snake');
+    const stopped = { ...config, trafficControls: [createTrafficControl('D', TrafficControlType.STOP_SIGN)] };
+    expect(getMaxRunTime(stopped)).toBeCloseTo(getMaxRunTime(config) + 2 * STOP_SIGN_WAIT, 9);
+  });
+});
+
+describe('realistic engine', () => {
+  const car = VEHICLES[VehicleType.CAR];
+  const engine = createEngineLimits(car, 0.5);
+  const config = createConfig('straight', { engine });
+  const result = runSimulation(config).result!;
+  const samples = result.telemetry;
+
+  it('stands still until the driver has reacted', () => {
+    samples.filter(s => s.time < engine.reactionTime).forEach(s => expect(s.speed).toBe(0));
+    expect(samples.find(s => s.time > engine.reactionTime + TELEMETRY_INTERVAL)!.speed).toBeGreaterThan(0);
+  });
+
+  it('speeds up no faster than its force and power allow', () => {
+    samples.slice(1).forEach((sample, i) => {
+      const push = Math.min(engine.maxForce, engine.maxPower / Math.max(samples[i].speed, 1));
+      expect((sample.speed - samples[i].speed) / (sample.time - samples[i].time)).toBeLessThanOrEqual(push / config.mass + 1e-9);
+    });
+    expect(getAccelerationStats(result).peakAcceleration).toBeLessThanOrEqual(engine.maxForce / config.mass + 1e-9);
+  });
+
+  it('brakes no harder than its brakes allow', () => {
+    expect(getAccelerationStats(result).peakBraking).toBeLessThanOrEqual(engine.brakeForce / config.mass + 1e-9);
+    expect(getAccelerationStats(result).peakBraking).toBeGreaterThan(0);
+  });
+
+  it('takes longer than the ideal engine that jumps to its target speed', () => {
+    expect(result.timeTaken).toBeGreaterThan(runSimulation(createConfig('straight')).result!.timeTaken);
+  });
+});
+
+describe('cornering', () => {
+  const config = createConfig('staircase', { isCornering: true });
+  const { result } = runSimulation(config);
+  const { corners } = getTrack(config);
+
+  // Within a tick's worth of braking of the safe speed.
+  it.each([
+    ['ideal', config],
+    ['realistic', { ...config, engine: createEngineLimits(VEHICLES[VehicleType.CAR], 0.5) }]
+  ])('slows the %s engine to the safe speed √(µgr) before every turn', (_, engineConfig) => {
+    const { trajectory } = runSimulation(engineConfig);
+    expect(corners.length).toBeGreaterThan(0);
+    for (const corner of corners) {
+      const safeSpeed = getCornerSpeed(config, corner);
+      const inTurn = trajectory.filter(point =>
+        point.distanceTraveled >= corner.start * config.gridScale && point.distanceTraveled <= corner.end * config.gridScale);
+      expect(inTurn.length).toBeGreaterThan(0);
+      inTurn.forEach(point => expect(point.speed).toBeLessThanOrEqual(safeSpeed * 1.01));
+    }
+  });
+
+  it('finds the safe speed from the tyre grip and the turn radius', () => {
+    expect(getCornerSpeed(config, corners[0])).toBeCloseTo(Math.sqrt(TYRE_GRIP * GRAVITY * corners[0].radius * config.gridScale), 9);
+  });
+
+  it('takes the turns as arcs, shorter but slower than driving through the nodes', () => {
+    const sharp = runSimulation(createConfig('staircase')).result!;
+    expect(result!.distanceTraveled).toBeLessThan(sharp.distanceTraveled);
+    expect(result!.timeTaken).toBeGreaterThan(sharp.timeTaken);
+  });
+});
+
+describe('air drag', () => {
+  it('follows the chosen model', () => {
+    const config = createConfig('straight', { airResistance: 3, linearDrag: 2 });
+    expect(getAirDrag(config, 10)).toBe(3);
+    expect(getAirDrag({ ...config, dragModel: DragModel.LINEAR }, 10)).toBe(20);
+    expect(getAirDrag({ ...config, dragModel: DragModel.QUADRATIC }, 10)).toBeCloseTo(0.5 * 1.2 * 0.7 * 100, 9);
+  });
+
+  it('has a terminal velocity only when it grows with speed', () => {
+    expect(getTerminalVelocity(createConfig('straight', { airResistance: 50 }))).toBeNull();
+    // Ideal engine: (30 − v)·50 = 1·v
+    expect(getTerminalVelocity(createConfig('straight', { dragModel: DragModel.LINEAR }))).toBeCloseTo(1500 / 51, 6);
+    // Realistic car, force-limited: 80 = ½·1.2·0.7·v²
+    const engine = createEngineLimits(VEHICLES[VehicleType.CAR], 0.5);
+    expect(getTerminalVelocity(createConfig('straight', { dragModel: DragModel.QUADRATIC, engine }))).toBeCloseTo(Math.sqrt(80 / 0.42), 6);
+  });
+
+  it('keeps the vehicle below its terminal velocity', () => {
+    const config = createConfig('snake', { dragModel: DragModel.QUADRATIC, engine: createEngineLimits(VEHICLES[VehicleType.CAR], 0.5) });
+    const result = runSimulation(config).result!;
+    expect(result.terminalVelocity).toBe(getTerminalVelocity(config));
+    const { topSpeed } = getAccelerationStats(result);
+    expect(topSpeed).toBeLessThan(result.terminalVelocity!);
+    expect(topSpeed).toBeGreaterThan(result.terminalVelocity! * 0.95);
+  });
+});
@@ -0,0 +1,690 @@
+import { DragModel, EngineLimits, MapEdge, NodePoint, SegmentData, SimulationConfig, SimulationResult, SimulationRun, SimulationState, SurfaceZone, TelemetrySample, TrafficControlType, TrajectoryPoint, VehicleConfig, ZoneTime } from '../types';
+import { SURFACES } from '../constants';
+import { Corner, Track, buildTrack, getTrackPoint } from './track';
+import { getTrafficControl, isLightRed } from './traffic';
+import { getDirectionLabel, toPlanarVector } from './vectors';
+import { getRoadControl, getRoadLength } from './roads';
+
+// Headless physics engine. No React, no DOM and no wall-clock access:
+// the same config and time steps always produce the same run.
+
+export const GRAVITY = 9.8; // m/s²
+export const ENGINE_GAIN = 50; // N per m/s of speed error
+export const FIXED_TIME_STEP = 1 / 240; // s, physics tick on the simulated clock
+export const MAX_FRAME_TIME = 0.25; // s, wall-clock time the render loop may feed in per frame
+export const DEFAULT_MAX_TIME = 600; // s, least time a headless run gets before it is cut off
+export const TELEMETRY_INTERVAL = 0.1; // s of simulated time between telemetry samples
+export const MIN_RESPONSE_TIME = 0.25; // s, quickest throttle response of the realistic engine
+export const ARRIVAL_SPEED = 0.5; // m/s, crawl speed kept near the finish and stop lines
+export const TYRE_GRIP = 0.7; // µ for cornering outside surface zones
+export const MIN_CORNER_SPEED = 1; // m/s, crawl speed through sharp turns and reversals
+export const IDEAL_BRAKING = 6; // m/s², deceleration the ideal engine plans with before corners and stops
+export const STOP_SIGN_WAIT = 2; // s at a standstill before driving on from a stop sign
+
+export const createSimulationState = (path: NodePoint[]): SimulationState => {
+  const startNode = path[0];
+  return {
+    time: 0,
+    position: { x: startNode ? startNode.x : 0, y: startNode ? startNode.y : 0 },
+    angle: 0,
+    speed: 0,
+    acceleration: 0,
+    distanceTraveled: 0,
+    pathIndex: 0,
+    segmentStartTime: 0,
+    waitTime: 0,
+    segments: [],
+    telemetry: [],
+    zoneTimes: [],
+    isFinished: false,
+    isStalled: false,
+    result: null
+  };
+};
+
+export const createEngineLimits = (vehicle: VehicleConfig, reactionTime: number): EngineLimits => ({
+  maxForce: vehicle.maxEngineForce,
+  maxPower: vehicle.maxPower,
+  brakeForce: vehicle.maxBrakeForce,
+  reactionTime
+});
+
+// A finished or stalled vehicle will not move again.
+export const isSettled = (state: SimulationState) => state.isFinished || state.isStalled;
+
+// Grid units along the roads of a path, curves measured along their arc.
+export const getPathLength = (path: NodePoint[], roads: MapEdge[]) => {
+  let total = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    total += getRoadLength(path[i], path[i + 1], getRoadControl(roads, path[i].id, path[i + 1].id));
+  }
+  return total;
+};
+
+// Tracks are derived from the config once and reused for every step.
+const trackCache = new WeakMap<SimulationConfig, Track>();
+
+export const getTrack = (config: SimulationConfig) => {
+  let track = trackCache.get(config);
+  if (!track) {
+    track = buildTrack(config.path, config.roads, config.isCornering);
+    trackCache.set(config, track);
+  }
+  return track;
+};
+
+// --- Elevation ---
+// Nodes may sit at different heights, turning the roads between them into
+// slopes. Distances along a sloped road are longer than on the grid, so the
+// engine measures distance driven along the road and converts to the flat
+// track only to place the vehicle.
+
+interface RoadProfile {
+  nodeDistances: number[]; // m along the road at which each path node is passed
+  slopes: number[]; // sin θ of each road in the driving direction, positive uphill
+  length: number; // m
+  isSloped: boolean;
+}
+
+const profileCache = new WeakMap<SimulationConfig, RoadProfile>();
+
+export const getElevation = (node: NodePoint) => node.elevation ?? 0;
+
+export const getRoadProfile = (config: SimulationConfig) => {
+  let profile = profileCache.get(config);
+  if (!profile) {
+    const { path, gridScale } = config;
+    const track = getTrack(config);
+    const nodeDistances = [0];
+    const slopes: number[] = [];
+    let climb = 0; // m the slopes add to the flat track so far
+    for (let i = 0; i < path.length - 1; i++) {
+      const run = (track.nodeDistances[i + 1] - track.nodeDistances[i]) * gridScale;
+      const rise = getElevation(path[i + 1]) - getElevation(path[i]);
+      const length = Math.hypot(run, rise);
+      slopes.push(length > 0 ? rise / length : 0);
+      climb += length - run;
+      nodeDistances.push(track.nodeDistances[i + 1] * gridScale + climb);
+    }
+    profile = {
+      nodeDistances,
+      slopes,
+      length: track.length * gridScale + climb,
+      isSloped: slopes.some(slope => slope !== 0)
+    };
+    profileCache.set(config, profile);
+  }
+  return profile;
+};
+
+// Road being driven at a distance (m) along the road, and how far along it.
+// A node belongs to the road that starts there.
+const getRoadPosition = (config: SimulationConfig, distance: number) => {
+  const { nodeDistances } = getRoadProfile(config);
+  let pathIndex = 0;
+  while (pathIndex < config.path.length - 2 && nodeDistances[pathIndex + 1] <= distance) pathIndex++;
+  const span = (nodeDistances[pathIndex + 1] ?? 0) - nodeDistances[pathIndex];
+  return { pathIndex, ratio: span > 0 ? Math.min(Math.max((distance - nodeDistances[pathIndex]) / span, 0), 1) : 0 };
+};
+
+// Track distance (grid units) of a distance driven along the road (m).
+const toTrackDistance = (config: SimulationConfig, distance: number) => {
+  if (!getRoadProfile(config).isSloped) return distance / config.gridScale;
+  const { nodeDistances } = getTrack(config);
+  const { pathIndex, ratio } = getRoadPosition(config, distance);
+  return nodeDistances[pathIndex] + ((nodeDistances[pathIndex + 1] ?? nodeDistances[pathIndex]) - nodeDistances[pathIndex]) * ratio;
+};
+
+// Distance along the road (m) of a track distance (grid units).
+const toRoadDistance = (config: SimulationConfig, trackDistance: number) => {
+  const profile = getRoadProfile(config);
+  if (!profile.isSloped) return trackDistance * config.gridScale;
+  const { nodeDistances } = getTrack(config);
+  let i = 0;
+  while (i < nodeDistances.length - 2 && nodeDistances[i + 1] <= trackDistance) i++;
+  const span = nodeDistances[i + 1] - nodeDistances[i];
+  const ratio = span > 0 ? Math.min(Math.max((trackDistance - nodeDistances[i]) / span, 0), 1) : 0;
+  return profile.nodeDistances[i] + (profile.nodeDistances[i + 1] - profile.nodeDistances[i]) * ratio;
+};
+
+// Height (m) at a distance along the road, rising evenly between nodes.
+export const getElevationAt = (config: SimulationConfig, distance: number) => {
+  const { path } = config;
+  if (path.length < 2) return path[0] ? getElevation(path[0]) : 0;
+  const { pathIndex, ratio } = getRoadPosition(config, distance);
+  const from = getElevation(path[pathIndex]);
+  return from + (getElevation(path[pathIndex + 1]) - from) * ratio;
+};
+
+// Surface zone on the road from path[pathIndex] at a fraction of its length.
+// Zones apply in either driving direction; where zones overlap the one added
+// last wins.
+export const getZoneAt = (config: SimulationConfig, pathIndex: number, ratio: number): SurfaceZone | null => {
+  const { path, surfaceZones } = config;
+  if (pathIndex >= path.length - 1) return null;
+  const from = path[pathIndex].id;
+  const to = path[pathIndex + 1].id;
+  for (let i = surfaceZones.length - 1; i >= 0; i--) {
+    const zone = surfaceZones[i];
+    const along = zone.fromNodeId === from && zone.toNodeId === to ? ratio
+      : zone.fromNodeId === to && zone.toNodeId === from ? 1 - ratio
+        : null;
+    if (along !== null && along >= zone.start && along <= zone.end) return zone;
+  }
+  return null;
+};
+
+// Surface zone under the vehicle at a distance (m) along the road.
+export const getSurfaceZone = (config: SimulationConfig, distance: number) => {
+  const { pathIndex, ratio } = getRoadPosition(config, distance);
+  return getZoneAt(config, pathIndex, ratio);
+};
+
+// Fastest safe speed through a turn, v = √(µ g r). A corner whose roads are
+// covered by a surface zone where they meet uses the lowest grip of those
+// surfaces, a curved road the grip at its middle; elsewhere the tyres' own
+// grip applies.
+export const getCornerSpeed = (config: SimulationConfig, corner: Corner) => {
+  const zones = (corner.isBend
+    ? [getZoneAt(config, corner.nodeIndex, 0.5)]
+    : [getZoneAt(config, corner.nodeIndex - 1, 1), getZoneAt(config, corner.nodeIndex, 0)])
+    .filter((zone): zone is SurfaceZone => zone !== null);
+  const grip = zones.length > 0 ? Math.min(...zones.map(zone => SURFACES[zone.surface].grip)) : TYRE_GRIP;
+  return Math.max(MIN_CORNER_SPEED, Math.sqrt(grip * GRAVITY * corner.radius * config.gridScale));
+};
+
+// Highest speed from which the vehicle can still slow down for every corner
+// ahead, allowing for the distance rolled during its response time.
+const getCornerSpeedLimit = (state: SimulationState, config: SimulationConfig, deceleration: number, responseTime: number) => {
+  if (!config.isCornering) return Infinity;
+  let limit = Infinity;
+  for (const corner of getTrack(config).corners) {
+    if (toRoadDistance(config, corner.end) < state.distanceTraveled) continue;
+    const ahead = Math.max(0, toRoadDistance(config, corner.start) - state.distanceTraveled - state.speed * responseTime);
+    limit = Math.min(limit, Math.sqrt(getCornerSpeed(config, corner) ** 2 + 2 * deceleration * ahead));
+  }
+  return limit;
+};
+
+// Deceleration (m/s²) needed to be down to the safe speed of every corner
+// ahead by the time it begins. The speed limit above lets the engine lag
+// behind it, so once this reaches the planned deceleration the vehicle
+// brakes at least this hard and never enters a turn too fast.
+const getCornerDeceleration = (state: SimulationState, config: SimulationConfig) => {
+  if (!config.isCornering) return 0;
+  let needed = 0;
+  for (const corner of getTrack(config).corners) {
+    const ahead = toRoadDistance(config, corner.start) - state.distanceTraveled;
+    const safeSpeed = getCornerSpeed(config, corner);
+    if (ahead <= 0 || state.speed <= safeSpeed) continue;
+    needed = Math.max(needed, (state.speed ** 2 - safeSpeed ** 2) / (2 * ahead));
+  }
+  return needed;
+};
+
+// --- Traffic ---
+
+// Hardest braking the driver can count on to stop for a light.
+const getMaxBraking = (config: SimulationConfig) =>
+  (config.engine ? config.engine.brakeForce / config.mass : IDEAL_BRAKING);
+
+// Distance (m along the road) of the nearest stop line the vehicle must
+// still stop at, or null. Stop signs hold until the vehicle has stood still
+// at them for STOP_SIGN_WAIT. Red lights hold unless they are too close to
+// stop for, in which case the driver carries on through; near crawl speed
+// the vehicle can always stop.
+const getNextStop = (state: SimulationState, config: SimulationConfig): number | null => {
+  const { path, trafficControls } = config;
+  if (trafficControls.length === 0) return null;
+  const { nodeDistances } = getRoadProfile(config);
+  for (let i = state.pathIndex + 1; i < path.length - 1; i++) {
+    const control = getTrafficControl(trafficControls, path[i].id);
+    if (!control) continue;
+    const ahead = nodeDistances[i] - state.distanceTraveled;
+    const isHeld = control.type === TrafficControlType.STOP_SIGN
+      ? i > state.pathIndex + 1 || state.waitTime < STOP_SIGN_WAIT
+      : isLightRed(control, state.time)
+        && (state.speed <= 2 * ARRIVAL_SPEED || state.speed ** 2 <= 2 * getMaxBraking(config) * ahead);
+    if (isHeld) return nodeDistances[i];
+  }
+  return null;
+};
+
+// Highest speed from which the vehicle can still stop at the stop line,
+// allowing for the distance rolled during its response time. It crawls the
+// last stretch and stands still once there.
+const getStopSpeedLimit = (state: SimulationState, stop: number | null, deceleration: number, responseTime: number) => {
+  if (stop === null) return Infinity;
+  const ahead = stop - state.distanceTraveled;
+  if (ahead <= 0) return 0;
+  return Math.max(ARRIVAL_SPEED, Math.sqrt(2 * deceleration * Math.max(0, ahead - state.speed * responseTime)));
+};
+
+// Realistic driver: waits out the reaction time, then asks for the force that
+// closes the gap to the wanted speed within one response time. The wanted
+// speed drops near the finish so the vehicle can brake to a stop there,
+// before stop lines, and before corners when cornering is on. The
+// engine delivers at most maxForce, less at speed where power runs out; the
+// brakes at most brakeForce. Negative values brake.
+const getDriveForce = (state: SimulationState, config: SimulationConfig, engine: EngineLimits, resistance: number, stop: number | null) => {
+  if (state.time < engine.reactionTime) return 0;
+  const responseTime = Math.max(engine.reactionTime, MIN_RESPONSE_TIME);
+  // Braking starts early enough to cover the distance rolled while responding
+  const braking = (engine.brakeForce / config.mass) * 0.8;
+  const remaining = getRoadProfile(config).length - state.distanceTraveled;
+  const brakingDistance = Math.max(0, remaining - state.speed * responseTime);
+  const stoppingSpeed = Math.sqrt(2 * braking * brakingDistance);
+  const wanted = Math.min(
+    config.targetSpeed,
+    Math.max(stoppingSpeed, ARRIVAL_SPEED),
+    getCornerSpeedLimit(state, config, braking, responseTime),
+    getStopSpeedLimit(state, stop, braking, responseTime)
+  );
+  const cornerDeceleration = getCornerDeceleration(state, config);
+  const demand = Math.min(
+    (config.mass * (wanted - state.speed)) / responseTime + resistance,
+    cornerDeceleration >= braking ? resistance - config.mass * cornerDeceleration : Infinity
+  );
+  const available = Math.min(engine.maxForce, engine.maxPower / Math.max(state.speed, 1));
+  return Math.min(available, Math.max(-engine.brakeForce, demand));
+};
+
+// Air drag at a speed: the fixed force, k·v, or ½ρ·CdA·v².
+export const getAirDrag = (config: SimulationConfig, speed: number) => {
+  switch (config.dragModel) {
+    case DragModel.LINEAR:
+      return config.linearDrag * speed;
+    case DragModel.QUADRATIC:
+      return 0.5 * config.airDensity * config.dragArea * speed * speed;
+    default:
+      return config.airResistance;
+  }
+};
+
+// Engine push at a speed when the driver asks for everything: the ideal
+// engine's push shrinks as it nears the target, the realistic one is capped
+// by force and power.
+const getFullDriveForce = (config: SimulationConfig, speed: number) => (config.engine
+  ? Math.min(config.engine.maxForce, config.engine.maxPower / Math.max(speed, 1))
+  : (config.targetSpeed - speed) * ENGINE_GAIN);
+
+// Speed at which full engine push equals air drag on an open, level road,
+// found by bisection. Only speed-dependent drag has one; null also when the
+// engine always wins.
+export const getTerminalVelocity = (config: SimulationConfig): number | null => {
+  if (config.dragModel === DragModel.CONSTANT) return null;
+  const surplus = (speed: number) => getFullDriveForce(config, speed) - getAirDrag(config, speed);
+  let lo = 0;
+  let hi = config.engine ? 1000 : config.targetSpeed;
+  if (surplus(lo) <= 0) return 0;
+  if (getAirDrag(config, hi) === 0 || surplus(hi) > 0) return null;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (surplus(mid) > 0) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+export const buildResult = (config: SimulationConfig, state: SimulationState): SimulationResult => {
+  const { path, gridScale } = config;
+  const startNode = path[0];
+  const endNode = path[path.length - 1];
+  const displacementVector = toPlanarVector(endNode.x - startNode.x, endNode.y - startNode.y, gridScale);
+  const displacement = displacementVector.magnitude;
+  const elevationChange = getElevation(endNode) - getElevation(startNode);
+  const totalTime = state.time;
+
+  const pathSegments: string[] = [];
+  for (let i = 0; i < path.length - 1; i++) {
+    pathSegments.push(`${path[i].label}→${path[i + 1].label}`);
+  }
+  const breakdownStr = `${pathSegments.join(' + ')} = ${getRoadProfile(config).length.toFixed(0)}m`;
+
+  return {
+    timeTaken: totalTime,
+    distanceTraveled: state.distanceTraveled,
+    displacement: displacement,
+    displacement3D: Math.hypot(displacement, elevationChange),
+    elevationChange,
+    displacementVector,
+    averageVelocityVector: toPlanarVector(endNode.x - startNode.x, endNode.y - startNode.y, totalTime > 0 ? gridScale / totalTime : 0),
+    finalDestination: endNode.name,
+    averageSpeed: totalTime > 0 ? state.distanceTraveled / totalTime : 0,
+    averageVelocity: totalTime > 0 ? displacement / totalTime : 0,
+    pathBreakdown: breakdownStr,
+    segmentData: state.segments,
+    telemetry: state.telemetry,
+    zoneTimes: state.zoneTimes,
+    terminalVelocity: getTerminalVelocity(config)
+  };
+};
+
+const sampleTelemetry = (state: SimulationState, config: SimulationConfig, frictionForce: number, slopeForce: number): TelemetrySample => {
+  const start = config.path[0];
+  return {
+    time: state.time,
+    position: { ...state.position },
+    speed: state.speed,
+    velocity: { x: state.speed * Math.cos(state.angle), y: state.speed * Math.sin(state.angle) },
+    acceleration: state.acceleration,
+    distanceTraveled: state.distanceTraveled,
+    displacement: Math.hypot(state.position.x - start.x, state.position.y - start.y) * config.gridScale,
+    frictionForce,
+    airResistance: getAirDrag(config, state.speed),
+    elevation: getElevationAt(config, state.distanceTraveled),
+    slopeForce
+  };
+};
+
+// segDist is measured along the track, so rounded corners shorten it.
+const buildSegment = (fromNode: NodePoint, toNode: NodePoint, duration: number, segDist: number, waitTime: number): SegmentData => {
+  const segDX = toNode.x - fromNode.x;
+  const segDY = toNode.y - fromNode.y;
+  const dirStr = getDirectionLabel(segDX, segDY);
+  const segSpeed = segDist / duration;
+  return {
+    from: fromNode.label,
+    to: toNode.label,
+    distance: segDist,
+    time: duration,
+    speed: segSpeed,
+    waitTime,
+    direction: dirStr,
+    velocityLabel: `${segSpeed.toFixed(1)} m/s ${dirStr}`
+  };
+};
+
+// Adds time and distance spent on a zone to the tally, opening its entry the
+// first time the zone is reached.
+const addZoneTime = (zoneTimes: ZoneTime[], zone: SurfaceZone, road: string, time: number, distance: number): ZoneTime[] => {
+  const index = zoneTimes.findIndex(z => z.zoneId === zone.id);
+  if (index < 0) {
+    return [...zoneTimes, { zoneId: zone.id, surface: zone.surface, road, friction: zone.friction, distance, time }];
+  }
+  return zoneTimes.map((z, i) => (i === index ? { ...z, distance: z.distance + distance, time: z.time + time } : z));
+};
+
+const getRoadLabel = (path: NodePoint[], pathIndex: number) => `${path[pathIndex].label}→${path[pathIndex + 1].label}`;
+
+// Advances the simulation by dt seconds and returns the new state.
+// Forces are evaluated once per step; node arrivals inside the step are
+// timed exactly and the leftover time carries on into the next segment.
+export const stepSimulation = (state: SimulationState, config: SimulationConfig, dt: number): SimulationState => {
+  if (isSettled(state)) return state;
+
+  const { path, gridScale, mass, engine } = config;
+
+  // Forces. On a slope only the part of gravity pressing into the road
+  // makes friction; the part along the road holds back uphill and pushes
+  // downhill.
+  const road = getRoadPosition(config, state.distanceTraveled);
+  const zone = getZoneAt(config, road.pathIndex, road.ratio);
+  const mu = zone ? zone.friction : 0;
+  const slope = getRoadProfile(config).slopes[road.pathIndex] ?? 0;
+  const frictionForce = mu * mass * GRAVITY * Math.sqrt(1 - slope * slope);
+  const slopeForce = mass * GRAVITY * slope;
+  const resistance = frictionForce + getAirDrag(config, state.speed) + slopeForce;
+  const stop = getNextStop(state, config);
+  // Without engine limits a high gain lets the car reach target speed almost
+  // instantly when there is no resistance, keeping timing experiments
+  // calibrated. It only brakes to slow down for corners and stops.
+  const idealResponse = mass / ENGINE_GAIN;
+  const cornerDeceleration = engine ? 0 : getCornerDeceleration(state, config);
+  const engineForce = engine
+    ? getDriveForce(state, config, engine, resistance, stop)
+    : Math.min(
+      (Math.min(
+        config.targetSpeed,
+        getCornerSpeedLimit(state, config, IDEAL_BRAKING, idealResponse),
+        getStopSpeedLimit(state, stop, IDEAL_BRAKING, idealResponse)
+      ) - state.speed) * ENGINE_GAIN,
+      cornerDeceleration >= IDEAL_BRAKING ? resistance - mass * cornerDeceleration : Infinity
+    );
+  const netForce = engineForce - resistance;
+  let speed = Math.max(0, state.speed + (netForce / mass) * dt);
+  const acceleration = (speed - state.speed) / dt;
+  // At rest the forces no longer change, so an engine that cannot beat
+  // resistance now never will. Waiting at a stop line is not a stall.
+  const isStalled = speed === 0 && state.speed === 0 && engineForce <= resistance
+    && state.time >= (engine ? engine.reactionTime : 0) && state.distanceTraveled !== stop;
+
+  // The first step also records the launch position at t = 0
+  const telemetry = state.telemetry.length > 0
+    ? state.telemetry
+    : [sampleTelemetry({ ...state, acceleration }, config, frictionForce, slopeForce)];
+
+  const next: SimulationState = { ...state, speed, acceleration, telemetry };
+  const { nodeDistances } = getRoadProfile(config);
+  let remaining = dt;
+
+  // Track following: nodes are passed where the track says, timed exactly.
+  // A held stop line is reached instead of passed, and the rest of the step
+  // is spent waiting there.
+  while (next.pathIndex < path.length - 1 && remaining > 0) {
+    const nodeDistance = nodeDistances[next.pathIndex + 1];
+    const distToTargetMeters = nodeDistance - next.distanceTraveled;
+
+    if (nodeDistance === stop && speed * remaining >= distToTargetMeters) {
+      const arrivalTime = speed > 0 ? distToTargetMeters / speed : 0;
+      next.distanceTraveled = nodeDistance;
+      next.time += remaining;
+      next.waitTime += remaining - arrivalTime;
+      speed = 0;
+      next.speed = 0;
+      remaining = 0;
+    } else if (speed * remaining >= distToTargetMeters) {
+      const arrivalTime = speed > 0 ? distToTargetMeters / speed : 0;
+      remaining -= arrivalTime;
+      next.time += arrivalTime;
+      next.distanceTraveled = nodeDistance;
+
+      const segDuration = Math.max(0.001, next.time - next.segmentStartTime);
+      const segDist = nodeDistances[next.pathIndex + 1] - nodeDistances[next.pathIndex];
+      next.segments = [...next.segments, buildSegment(path[next.pathIndex], path[next.pathIndex + 1], segDuration, segDist, next.waitTime)];
+      next.pathIndex += 1;
+      next.segmentStartTime = next.time;
+      next.waitTime = 0;
+    } else {
+      next.distanceTraveled += speed * remaining;
+      next.time += remaining;
+      remaining = 0;
+    }
+  }
+
+  const point = getTrackPoint(getTrack(config), toTrackDistance(config, next.distanceTraveled));
+  if (point) {
+    next.position = point.position;
+    next.angle = point.angle;
+  }
+  // The whole step counts towards the zone it started on
+  if (zone) {
+    next.zoneTimes = addZoneTime(next.zoneTimes, zone, getRoadLabel(path, road.pathIndex), next.time - state.time, next.distanceTraveled - state.distanceTraveled);
+  }
+
+  const isFinished = next.pathIndex >= path.length - 1;
+  // Samples land on the TELEMETRY_INTERVAL grid; the finish and a stall are always recorded
+  if (isFinished || isStalled || next.time >= next.telemetry.length * TELEMETRY_INTERVAL - 1e-9) {
+    next.telemetry = [...next.telemetry, sampleTelemetry(next, config, frictionForce, slopeForce)];
+  }
+
+  if (isFinished) {
+    next.isFinished = true;
+    next.result = buildResult(config, next);
+  } else if (isStalled) {
+    next.isStalled = true;
+  }
+
+  return next;
+};
+
+// Feeds real frame time into the fixed-step simulated clock. Only whole
+// FIXED_TIME_STEP ticks are simulated; the remainder is returned so the
+// caller can carry it into the next frame. Results therefore depend only
+// on the settings, never on frame rate or machine load.
+export const advanceSimulation = (
+  state: SimulationState,
+  config: SimulationConfig,
+  frameTime: number,
+  accumulator: number,
+  timeStep: number = FIXED_TIME_STEP
+) => {
+  let next = state;
+  let acc = accumulator + Math.min(Math.max(frameTime, 0), MAX_FRAME_TIME);
+  while (acc >= timeStep && !isSettled(next)) {
+    next = stepSimulation(next, config, timeStep);
+    acc -= timeStep;
+  }
+  return { state: next, accumulator: isSettled(next) ? 0 : acc };
+};
+
+// Advances by a set amount of simulated time in whole ticks, for stepping
+// through a paused run. The frame accumulator is left untouched.
+export const advanceSimulationBy = (
+  state: SimulationState,
+  config: SimulationConfig,
+  duration: number,
+  timeStep: number = FIXED_TIME_STEP
+) => {
+  let next = state;
+  const ticks = Math.round(duration / timeStep);
+  for (let i = 0; i < ticks && !isSettled(next); i++) {
+    next = stepSimulation(next, config, timeStep);
+  }
+  return next;
+};
+
+// Reconstructs the state of a finished run at any moment from its telemetry,
+// for replay. Speed and distance are interpolated between samples; position
+// and heading come from following the track by distance, so corners keep
+// their shape.
+export const getStateAtTime = (config: SimulationConfig, result: SimulationResult, time: number): SimulationState => {
+  const { path, gridScale } = config;
+  const samples = result.telemetry;
+  const t = Math.min(Math.max(time, 0), result.timeTaken);
+
+  // Last sample at or before t
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (samples[mid].time <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  const before = samples[lo];
+  const after = samples[Math.min(lo + 1, samples.length - 1)];
+  const span = after.time - before.time;
+  const ratio = span > 0 ? (t - before.time) / span : 0;
+  const lerp = (a: number, b: number) => a + (b - a) * ratio;
+  const distanceTraveled = lerp(before.distanceTraveled, after.distanceTraveled);
+
+  const state = createSimulationState(path);
+  const point = getTrackPoint(getTrack(config), toTrackDistance(config, distanceTraveled));
+  if (point) {
+    state.position = point.position;
+    state.angle = point.angle;
+  }
+  // Zone tally rebuilt from the samples: each interval counts towards the
+  // zone it started on, like the steps of a live run
+  let zoneTimes: ZoneTime[] = [];
+  for (let i = 0; i <= lo; i++) {
+    const sample = samples[i];
+    const end = i < lo ? samples[i + 1] : { time: t, distanceTraveled };
+    const road = getRoadPosition(config, sample.distanceTraveled);
+    const zone = getZoneAt(config, road.pathIndex, road.ratio);
+    if (zone && end.time > sample.time) {
+      zoneTimes = addZoneTime(zoneTimes, zone, getRoadLabel(path, road.pathIndex), end.time - sample.time, end.distanceTraveled - sample.distanceTraveled);
+    }
+  }
+
+  // Segments completed by time t; the last node passed ends the last of them,
+  // so a vehicle waiting at a stop line has not passed its node yet
+  const segments: SegmentData[] = [];
+  let segmentStartTime = 0;
+  for (const seg of result.segmentData) {
+    if (segmentStartTime + seg.time > t + 1e-9) break;
+    segments.push(seg);
+    segmentStartTime += seg.time;
+  }
+
+  // Waiting so far: time since the first sample standing on the stop line
+  let waitTime = 0;
+  const line = getRoadProfile(config).nodeDistances[segments.length + 1];
+  if (line !== undefined && Math.abs(distanceTraveled - line) < 1e-6) {
+    const arrival = samples.find(s => s.time >= segmentStartTime && Math.abs(s.distanceTraveled - line) < 1e-6);
+    if (arrival) waitTime = Math.max(0, t - arrival.time);
+  }
+
+  const isFinished = t >= result.timeTaken;
+  return {
+    ...state,
+    time: t,
+    speed: lerp(before.speed, after.speed),
+    acceleration: before.acceleration,
+    distanceTraveled,
+    pathIndex: isFinished ? path.length - 1 : segments.length,
+    segmentStartTime,
+    waitTime: isFinished ? 0 : waitTime,
+    segments,
+    telemetry: samples.slice(0, lo + 1),
+    zoneTimes: isFinished ? result.zoneTimes : zoneTimes,
+    isFinished,
+    result: isFinished ? result : null
+  };
+};
+
+// Headline numbers of how the vehicle sped up and slowed down, read from the
+// telemetry. Runs without telemetry report zeros.
+export const getAccelerationStats = (result: SimulationResult) => {
+  const samples = result.telemetry;
+  const topSpeed = samples.reduce((max, s) => Math.max(max, s.speed), 0);
+  const reached = samples.find(s => s.speed >= topSpeed * 0.95);
+  return {
+    topSpeed,
+    timeToTopSpeed: topSpeed > 0 && reached ? reached.time : 0, // s until 95% of top speed
+    peakAcceleration: samples.reduce((max, s) => Math.max(max, s.acceleration), 0),
+    peakBraking: samples.reduce((max, s) => Math.max(max, -s.acceleration), 0)
+  };
+};
+
+const toTrajectoryPoint = (state: SimulationState): TrajectoryPoint => ({
+  time: state.time,
+  x: state.position.x,
+  y: state.position.y,
+  angle: state.angle,
+  speed: state.speed,
+  distanceTraveled: state.distanceTraveled
+});
+
+// Time a headless run may take before it is cut off: the whole route at the
+// slowest speed it should need to crawl at, plus a full wait at every control
+// it passes, doubled for speeding up and slowing down. Slow vehicles on long
+// routes get longer than DEFAULT_MAX_TIME; a vehicle that cannot move at all
+// gets just that.
+export const getMaxRunTime = (config: SimulationConfig) => {
+  const slowest = Math.min(config.targetSpeed, MIN_CORNER_SPEED, getTerminalVelocity(config) ?? Infinity);
+  if (slowest <= 0) return DEFAULT_MAX_TIME;
+  let waits = 0;
+  for (let i = 1; i < config.path.length - 1; i++) {
+    const control = getTrafficControl(config.trafficControls, config.path[i].id);
+    if (control) waits += control.type === TrafficControlType.STOP_SIGN ? STOP_SIGN_WAIT : control.redTime;
+  }
+  return Math.max(DEFAULT_MAX_TIME, 2 * (getRoadProfile(config).length / slowest + waits));
+};
+
+// Runs a complete simulation headlessly with a fixed time step.
+export const runSimulation = (
+  config: SimulationConfig,
+  timeStep: number = FIXED_TIME_STEP,
+  maxTime: number = getMaxRunTime(config)
+): SimulationRun => {
+  let state = createSimulationState(config.path);
+  const trajectory: TrajectoryPoint[] = [toTrajectoryPoint(state)];
+
+  while (!isSettled(state) && state.time < maxTime) {
+    state = stepSimulation(state, config, timeStep);
+    trajectory.push(toTrajectoryPoint(state));
+  }
+
+  return { trajectory, result: state.result };
+};
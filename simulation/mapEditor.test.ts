@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { BuildingType } from '../types';
+import {
+  CUSTOM_MAP_ID, MAX_HISTORY, addNode, createBlankMap, createHistory, deleteNode, getNextNodeId, moveNode, pushHistory,
+  redo, toCustomMap, toggleRoad, undo, updateNode
+} from './mapEditor';
+import { SNAKE_MAP, validateMap } from './maps';
+
+// Blank map with a house at A and a finish option at B, joined by a road.
+const createTwoNodeMap = () => toggleRoad(
+  addNode(addNode(createBlankMap(10, 10), 1, 1, BuildingType.HOUSE), 5, 1, BuildingType.FINISH),
+  'A',
+  'B'
+);
+
+describe('map editing', () => {
+  it('builds a valid map from a blank one', () => {
+    const map = createTwoNodeMap();
+    expect(map.defaultStartNodeId).toBe('A');
+    expect(map.defaultFinishNodeId).toBe('B');
+    expect(validateMap(map)).toEqual([]);
+  });
+
+  it('keeps one node per grid point', () => {
+    const map = createTwoNodeMap();
+    expect(addNode(map, 1, 1, BuildingType.SHOP)).toBe(map);
+    expect(moveNode(map, 'A', 5, 1)).toBe(map);
+    expect(moveNode(map, 'A', 2, 3).nodes[0]).toMatchObject({ x: 2, y: 3 });
+  });
+
+  it('adds a road once and removes it the second time', () => {
+    const map = createTwoNodeMap();
+    expect(map.edges).toEqual([{ from: 'A', to: 'B' }]);
+    expect(toggleRoad(map, 'B', 'A').edges).toEqual([]);
+    expect(toggleRoad(map, 'A', 'A')).toBe(map);
+  });
+
+  it('removes a deleted node with its roads and moves the defaults off it', () => {
+    const map = deleteNode(createTwoNodeMap(), 'B');
+    expect(map.nodes.map(n => n.id)).toEqual(['A']);
+    expect(map.edges).toEqual([]);
+    expect(map.defaultFinishNodeId).toBe('');
+  });
+
+  it('moves the default finish when its node stops being a finish option', () => {
+    const map = updateNode(toCustomMap(SNAKE_MAP), 'J', { isFinishOption: false });
+    expect(map.defaultFinishNodeId).not.toBe('J');
+    expect(map.nodes.find(n => n.id === map.defaultFinishNodeId)?.isFinishOption).toBe(true);
+  });
+
+  it('names new nodes by the first free letter', () => {
+    expect(getNextNodeId(deleteNode(toCustomMap(SNAKE_MAP), 'C'))).toBe('C');
+    expect(getNextNodeId(toCustomMap(SNAKE_MAP))).toBe('K');
+  });
+
+  it('edits a copy of a built-in map, never the map itself', () => {
+    const copy = toCustomMap(SNAKE_MAP);
+    expect(copy.id).toBe(CUSTOM_MAP_ID);
+    copy.nodes[0].x = 0;
+    expect(SNAKE_MAP.nodes[0].x).not.toBe(0);
+  });
+});
+
+describe('undo and redo', () => {
+  const first = createBlankMap(10, 10);
+  const second = addNode(first, 1, 1, BuildingType.HOUSE);
+  const third = addNode(second, 2, 2, BuildingType.SHOP);
+
+  it('steps back and forth through the edits', () => {
+    const history = pushHistory(pushHistory(createHistory(first), second), third);
+    expect(undo(history).present).toBe(second);
+    expect(undo(undo(history)).present).toBe(first);
+    expect(redo(undo(undo(history))).present).toBe(second);
+    expect(redo(undo(history)).present).toBe(third);
+  });
+
+  it('does nothing with nothing to undo or redo', () => {
+    const history = createHistory(first);
+    expect(undo(history)).toBe(history);
+    expect(redo(history)).toBe(history);
+  });
+
+  it('forgets undone edits once a new edit is made', () => {
+    const history = pushHistory(undo(pushHistory(createHistory(first), second)), third);
+    expect(history.future).toEqual([]);
+    expect(redo(history)).toBe(history);
+  });
+
+  it('ignores an edit that changed nothing', () => {
+    const history = createHistory(first);
+    expect(pushHistory(history, first)).toBe(history);
+  });
+
+  it(`keeps at most ${MAX_HISTORY} steps`, () => {
+    let history = createHistory(first);
+    for (let i = 0; i < MAX_HISTORY + 10; i++) history = pushHistory(history, { ...first, name: `Map ${i}` });
+    expect(history.past).toHaveLength(MAX_HISTORY);
+  });
+});
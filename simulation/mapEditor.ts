@@ -0,0 +1,148 @@
+import { BuildingType, MapDefinition, MapHistory, NodePoint } from '../types';
+import { getEdgeKey } from './routing';
+
+// Pure editing operations on a MapDefinition. Every operation returns a new
+// map and leaves its input untouched, so edits can be kept for undo/redo.
+
+export const CUSTOM_MAP_ID = 'custom';
+export const MAX_HISTORY = 100;
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export const createBlankMap = (gridCols: number, gridRows: number): MapDefinition => ({
+  id: CUSTOM_MAP_ID,
+  name: 'My Town',
+  description: 'A map built in the editor.',
+  gridCols,
+  gridRows,
+  nodes: [],
+  edges: [],
+  placements: {},
+  defaultStartNodeId: '',
+  defaultFinishNodeId: ''
+});
+
+// Copy of an existing map that can be edited as the custom map.
+export const toCustomMap = (map: MapDefinition): MapDefinition => ({
+  ...map,
+  id: CUSTOM_MAP_ID,
+  name: map.id === CUSTOM_MAP_ID ? map.name : `My ${map.name}`,
+  nodes: map.nodes.map(n => ({ ...n })),
+  edges: map.edges.map(e => ({ ...e })),
+  placements: { ...map.placements }
+});
+
+// First free letter, then N1, N2, ... once the alphabet runs out.
+export const getNextNodeId = (map: MapDefinition) => {
+  const used = new Set(map.nodes.map(n => n.id));
+  const letter = LETTERS.split('').find(l => !used.has(l));
+  if (letter) return letter;
+  let i = 1;
+  while (used.has(`N${i}`)) i++;
+  return `N${i}`;
+};
+
+export const findNodeAt = (map: MapDefinition, x: number, y: number) =>
+  map.nodes.find(n => n.x === x && n.y === y);
+
+export const addNode = (map: MapDefinition, x: number, y: number, type: BuildingType): MapDefinition => {
+  if (findNodeAt(map, x, y)) return map;
+  const id = getNextNodeId(map);
+  const node: NodePoint = {
+    id,
+    label: id,
+    x,
+    y,
+    type,
+    name: type === BuildingType.CORNER ? `Corner ${id}` : type.charAt(0) + type.slice(1).toLowerCase(),
+    isFinishOption: map.nodes.length > 0
+  };
+  return {
+    ...map,
+    nodes: [...map.nodes, node],
+    defaultStartNodeId: map.defaultStartNodeId || id,
+    defaultFinishNodeId: map.defaultFinishNodeId || (node.isFinishOption ? id : '')
+  };
+};
+
+export const moveNode = (map: MapDefinition, id: string, x: number, y: number): MapDefinition => {
+  const occupant = findNodeAt(map, x, y);
+  if (occupant && occupant.id !== id) return map;
+  return { ...map, nodes: map.nodes.map(n => (n.id === id ? { ...n, x, y } : n)) };
+};
+
+export const updateNode = (
+  map: MapDefinition,
+  id: string,
+  changes: Partial<Pick<NodePoint, 'label' | 'name' | 'type' | 'isFinishOption' | 'elevation'>>
+): MapDefinition => {
+  const nodes = map.nodes.map(n => (n.id === id ? { ...n, ...changes } : n));
+  let { defaultFinishNodeId } = map;
+  if (changes.isFinishOption === false && defaultFinishNodeId === id) {
+    defaultFinishNodeId = nodes.find(n => n.isFinishOption)?.id ?? '';
+  }
+  if (changes.isFinishOption && !defaultFinishNodeId) defaultFinishNodeId = id;
+  return { ...map, nodes, defaultFinishNodeId };
+};
+
+export const deleteNode = (map: MapDefinition, id: string): MapDefinition => {
+  const nodes = map.nodes.filter(n => n.id !== id);
+  const placements = { ...map.placements };
+  delete placements[id];
+  return {
+    ...map,
+    nodes,
+    edges: map.edges.filter(e => e.from !== id && e.to !== id),
+    placements,
+    defaultStartNodeId: map.defaultStartNodeId === id ? (nodes[0]?.id ?? '') : map.defaultStartNodeId,
+    defaultFinishNodeId: map.defaultFinishNodeId === id
+      ? (nodes.find(n => n.isFinishOption)?.id ?? '')
+      : map.defaultFinishNodeId
+  };
+};
+
+// Adds the road between two nodes, or removes it if it already exists.
+export const toggleRoad = (map: MapDefinition, fromId: string, toId: string): MapDefinition => {
+  if (fromId === toId) return map;
+  const key = getEdgeKey(fromId, toId);
+  const exists = map.edges.some(e => getEdgeKey(e.from, e.to) === key);
+  return {
+    ...map,
+    edges: exists
+      ? map.edges.filter(e => getEdgeKey(e.from, e.to) !== key)
+      : [...map.edges, { from: fromId, to: toId }]
+  };
+};
+
+export const setStartNode = (map: MapDefinition, id: string): MapDefinition => ({ ...map, defaultStartNodeId: id });
+
+// --- History ---
+
+export const createHistory = (map: MapDefinition): MapHistory => ({ past: [], present: map, future: [] });
+
+export const pushHistory = (history: MapHistory, map: MapDefinition): MapHistory => {
+  if (map === history.present) return history;
+  return {
+    past: [...history.past, history.present].slice(-MAX_HISTORY),
+    present: map,
+    future: []
+  };
+};
+
+export const undo = (history: MapHistory): MapHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+};
+
+export const redo = (history: MapHistory): MapHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PHYSICS, SETTING_LIMITS, VEHICLES } from '../constants';
+import { SimulationConfig } from '../types';
+import { createEngineLimits, runSimulation } from './engine';
+import { MAPS, SNAKE_MAP, getMapById, validateMap } from './maps';
+import { findTripRoute } from './routing';
+
+describe('built-in maps', () => {
+  it.each(MAPS.map(map => [map.name, map] as const))('%s is valid', (_, map) => {
+    expect(validateMap(map)).toEqual([]);
+  });
+
+  // Each vehicle with its own defaults on the default route, at the smallest
+  // grid scale, where slopes are steepest.
+  it.each(MAPS.map(map => [map.name, map] as const))('%s can be driven to the finish by every vehicle', (_, map) => {
+    const path = findTripRoute(map, map.defaultStartNodeId, [], map.defaultFinishNodeId, false)!;
+    for (const vehicle of Object.values(VEHICLES)) {
+      for (const isRealisticEngine of [false, true]) {
+        for (const isCornering of [false, true]) {
+          const config: SimulationConfig = {
+            path,
+            roads: map.edges,
+            gridScale: SETTING_LIMITS.gridScale.min,
+            targetSpeed: vehicle.baseSpeed,
+            mass: vehicle.defaultMass,
+            airResistance: DEFAULT_PHYSICS.airResistance,
+            dragModel: DEFAULT_PHYSICS.dragModel,
+            linearDrag: DEFAULT_PHYSICS.linearDrag,
+            airDensity: DEFAULT_PHYSICS.airDensity,
+            dragArea: vehicle.dragArea,
+            surfaceZones: [],
+            trafficControls: [],
+            engine: isRealisticEngine ? createEngineLimits(vehicle, DEFAULT_PHYSICS.reactionTime) : null,
+            isCornering
+          };
+          const run = `${vehicle.name}, ${isRealisticEngine ? 'realistic' : 'ideal'} engine, cornering ${isCornering ? 'on' : 'off'}`;
+          expect(runSimulation(config).result, run).not.toBeNull();
+        }
+      }
+    }
+  }, 60_000);
+});
+
+describe('getMapById', () => {
+  it('falls back to Snake Town for an unknown id', () => {
+    expect(getMapById('hill').id).toBe('hill');
+    expect(getMapById('nowhere')).toBe(SNAKE_MAP);
+  });
+});
+
+describe('validateMap', () => {
+  it('reports duplicate nodes, dangling roads and nodes off the grid', () => {
+    const errors = validateMap({
+      ...SNAKE_MAP,
+      nodes: [...SNAKE_MAP.nodes, { ...SNAKE_MAP.nodes[0] }, { ...SNAKE_MAP.nodes[1], id: 'Z', x: 99 }],
+      edges: [...SNAKE_MAP.edges, { from: 'A', to: 'Q' }, { from: 'A', to: 'A' }]
+    });
+    expect(errors).toEqual(expect.arrayContaining([
+      'Node id "A" is used more than once.',
+      'Node Z lies outside the 25×18 grid.',
+      'Road A–Q refers to a node that does not exist.',
+      'Road A–A starts and ends at the same node.'
+    ]));
+  });
+
+  it('reports finish options that cannot be reached from the start', () => {
+    const errors = validateMap({ ...SNAKE_MAP, edges: SNAKE_MAP.edges.filter(edge => edge.to !== 'J' && edge.from !== 'J') });
+    expect(errors).toContain('Finish J cannot be reached by road from A.');
+  });
+
+  it('reports a default finish that is not a finish option', () => {
+    expect(validateMap({ ...SNAKE_MAP, defaultFinishNodeId: 'A' })).toContain('Default finish "A" is not a finish option.');
+  });
+});
@@ -0,0 +1,293 @@
+import { BuildingType, Coordinates, MapDefinition, NodePoint } from '../types';
+import { getEdgeKey, getReachableIds } from './routing';
+
+// Built-in map registry. Maps are plain data: nodes, the roads between them
+// and where each building sits relative to its node.
+
+const UP: Coordinates = { x: 0, y: -1.5 };
+const DOWN: Coordinates = { x: 0, y: 1.5 };
+const RIGHT: Coordinates = { x: 1.5, y: 0 };
+const ON_NODE: Coordinates = { x: 0, y: 0 };
+const TOP_LEFT: Coordinates = { x: -1.05, y: -1.05 };
+const BOTTOM_LEFT: Coordinates = { x: -1.05, y: 1.05 };
+const BOTTOM_RIGHT: Coordinates = { x: 1.05, y: 1.05 };
+
+export const DEFAULT_PLACEMENT = UP;
+
+// Connects every node to the next one in road order.
+const chainEdges = (nodes: NodePoint[]) =>
+  nodes.slice(1).map((node, i) => ({ from: nodes[i].id, to: node.id }));
+
+// Snake Pattern A -> J. Center X is 12.
+const SNAKE_NODES: NodePoint[] = [
+  // Row 1: A -> B (Right)
+  { id: 'A', label: 'A', x: 12, y: 3, type: BuildingType.HOUSE, name: 'House' },
+  { id: 'B', label: 'B', x: 21, y: 3, type: BuildingType.CORNER, name: 'Corner B', isFinishOption: true },
+
+  // Row 2: C (Down) -> D (Left) -> E (Left)
+  { id: 'C', label: 'C', x: 21, y: 7, type: BuildingType.HOSPITAL, name: 'Hospital', isFinishOption: true },
+  { id: 'D', label: 'D', x: 12, y: 7, type: BuildingType.SCHOOL, name: 'School', isFinishOption: true },
+  { id: 'E', label: 'E', x: 3, y: 7, type: BuildingType.CORNER, name: 'Corner E', isFinishOption: true },
+
+  // Row 3: F (Down) -> G (Right) -> H (Right)
+  { id: 'F', label: 'F', x: 3, y: 11, type: BuildingType.TOWER, name: 'Tower', isFinishOption: true },
+  { id: 'G', label: 'G', x: 12, y: 11, type: BuildingType.FARM, name: 'Farm', isFinishOption: true },
+  { id: 'H', label: 'H', x: 21, y: 11, type: BuildingType.CORNER, name: 'Corner H', isFinishOption: true },
+
+  // Row 4: I (Down) -> J (Left, Finish)
+  { id: 'I', label: 'I', x: 21, y: 15, type: BuildingType.SHOP, name: 'Shop', isFinishOption: true },
+  { id: 'J', label: 'J', x: 12, y: 15, type: BuildingType.FINISH, name: 'Finish Line', isFinishOption: true },
+];
+
+export const SNAKE_MAP: MapDefinition = {
+  id: 'snake',
+  name: 'Snake Town',
+  description: 'The classic A to J snake through town.',
+  gridCols: 25,
+  gridRows: 18,
+  nodes: SNAKE_NODES,
+  edges: chainEdges(SNAKE_NODES),
+  placements: {
+    A: UP, B: ON_NODE, C: BOTTOM_RIGHT, D: UP, E: ON_NODE,
+    F: BOTTOM_LEFT, G: UP, H: ON_NODE, I: BOTTOM_RIGHT, J: DOWN
+  },
+  defaultStartNodeId: 'A',
+  defaultFinishNodeId: 'J'
+};
+
+// Straight East-bound road: distance and displacement are always equal.
+const STRAIGHT_NODES: NodePoint[] = [
+  { id: 'A', label: 'A', x: 2, y: 9, type: BuildingType.HOUSE, name: 'House' },
+  { id: 'B', label: 'B', x: 7, y: 9, type: BuildingType.SCHOOL, name: 'School', isFinishOption: true },
+  { id: 'C', label: 'C', x: 12, y: 9, type: BuildingType.HOSPITAL, name: 'Hospital', isFinishOption: true },
+  { id: 'D', label: 'D', x: 17, y: 9, type: BuildingType.SHOP, name: 'Shop', isFinishOption: true },
+  { id: 'E', label: 'E', x: 22, y: 9, type: BuildingType.FINISH, name: 'Finish Line', isFinishOption: true },
+];
+
+export const STRAIGHT_MAP: MapDefinition = {
+  id: 'straight',
+  name: 'Straight Road',
+  description: 'One road heading East, no turns.',
+  gridCols: 25,
+  gridRows: 18,
+  nodes: STRAIGHT_NODES,
+  edges: chainEdges(STRAIGHT_NODES),
+  placements: { A: UP, B: DOWN, C: UP, D: DOWN, E: UP },
+  defaultStartNodeId: 'A',
+  defaultFinishNodeId: 'E'
+};
+
+// Straight road over a hill: the same ground as the straight road, but the
+// climb makes the drive longer and slower than the horizontal displacement.
+// The steepest grade is 6% at the smallest grid scale, which the weakest
+// realistic engine (the truck's) can still climb.
+const HILL_NODES: NodePoint[] = [
+  { id: 'A', label: 'A', x: 2, y: 9, type: BuildingType.HOUSE, name: 'House', elevation: 0 },
+  { id: 'B', label: 'B', x: 7, y: 9, type: BuildingType.FARM, name: 'Farm', isFinishOption: true, elevation: 2 },
+  { id: 'C', label: 'C', x: 12, y: 9, type: BuildingType.TOWER, name: 'Hilltop Tower', isFinishOption: true, elevation: 5 },
+  { id: 'D', label: 'D', x: 17, y: 9, type: BuildingType.SCHOOL, name: 'School', isFinishOption: true, elevation: 2 },
+  { id: 'E', label: 'E', x: 22, y: 9, type: BuildingType.FINISH, name: 'Finish Line', isFinishOption: true, elevation: 0 },
+];
+
+export const HILL_MAP: MapDefinition = {
+  id: 'hill',
+  name: 'Hill Road',
+  description: 'One road heading East, up over a hill and back down.',
+  gridCols: 25,
+  gridRows: 18,
+  nodes: HILL_NODES,
+  edges: chainEdges(HILL_NODES),
+  placements: { A: UP, B: DOWN, C: UP, D: DOWN, E: UP },
+  defaultStartNodeId: 'A',
+  defaultFinishNodeId: 'E'
+};
+
+// Staircase down to the South-East: displacement points diagonally.
+const STAIRCASE_NODES: NodePoint[] = [
+  { id: 'A', label: 'A', x: 2, y: 2, type: BuildingType.HOUSE, name: 'House' },
+  { id: 'B', label: 'B', x: 8, y: 2, type: BuildingType.CORNER, name: 'Corner B', isFinishOption: true },
+  { id: 'C', label: 'C', x: 8, y: 6, type: BuildingType.SCHOOL, name: 'School', isFinishOption: true },
+  { id: 'D', label: 'D', x: 14, y: 6, type: BuildingType.CORNER, name: 'Corner D', isFinishOption: true },
+  { id: 'E', label: 'E', x: 14, y: 10, type: BuildingType.HOSPITAL, name: 'Hospital', isFinishOption: true },
+  { id: 'F', label: 'F', x: 20, y: 10, type: BuildingType.CORNER, name: 'Corner F', isFinishOption: true },
+  { id: 'G', label: 'G', x: 20, y: 15, type: BuildingType.FINISH, name: 'Finish Line', isFinishOption: true },
+];
+
+export const STAIRCASE_MAP: MapDefinition = {
+  id: 'staircase',
+  name: 'Staircase',
+  description: 'Alternating East and South steps.',
+  gridCols: 25,
+  gridRows: 18,
+  nodes: STAIRCASE_NODES,
+  edges: chainEdges(STAIRCASE_NODES),
+  placements: { A: DOWN, C: BOTTOM_LEFT, E: BOTTOM_LEFT, G: BOTTOM_LEFT },
+  defaultStartNodeId: 'A',
+  defaultFinishNodeId: 'G'
+};
+
+// Spiral outwards from the center: a long drive that ends near the start.
+const SPIRAL_NODES: NodePoint[] = [
+  { id: 'A', label: 'A', x: 12, y: 8, type: BuildingType.HOUSE, name: 'House' },
+  { id: 'B', label: 'B', x: 16, y: 8, type: BuildingType.CORNER, name: 'Corner B', isFinishOption: true },
+  { id: 'C', label: 'C', x: 16, y: 12, type: BuildingType.SHOP, name: 'Shop', isFinishOption: true },
+  { id: 'D', label: 'D', x: 7, y: 12, type: BuildingType.CORNER, name: 'Corner D', isFinishOption: true },
+  { id: 'E', label: 'E', x: 7, y: 4, type: BuildingType.SCHOOL, name: 'School', isFinishOption: true },
+  { id: 'F', label: 'F', x: 20, y: 4, type: BuildingType.CORNER, name: 'Corner F', isFinishOption: true },
+  { id: 'G', label: 'G', x: 20, y: 15, type: BuildingType.FARM, name: 'Farm', isFinishOption: true },
+  { id: 'H', label: 'H', x: 3, y: 15, type: BuildingType.CORNER, name: 'Corner H', isFinishOption: true },
+  { id: 'I', label: 'I', x: 3, y: 2, type: BuildingType.FINISH, name: 'Finish Line', isFinishOption: true },
+];
+
+export const SPIRAL_MAP: MapDefinition = {
+  id: 'spiral',
+  name: 'Spiral',
+  description: 'Winds outwards from the center of town.',
+  gridCols: 25,
+  gridRows: 18,
+  nodes: SPIRAL_NODES,
+  edges: chainEdges(SPIRAL_NODES),
+  placements: { A: UP, C: BOTTOM_RIGHT, E: TOP_LEFT, G: BOTTOM_RIGHT, I: RIGHT },
+  defaultStartNodeId: 'A',
+  defaultFinishNodeId: 'I'
+};
+
+// 3×3 block grid: many routes between the same two corners.
+const CITY_NODES: NodePoint[] = [
+  { id: 'A', label: 'A', x: 4, y: 3, type: BuildingType.HOUSE, name: 'House' },
+  { id: 'B', label: 'B', x: 12, y: 3, type: BuildingType.CORNER, name: 'Corner B', isFinishOption: true },
+  { id: 'C', label: 'C', x: 20, y: 3, type: BuildingType.SCHOOL, name: 'School', isFinishOption: true },
+  { id: 'D', label: 'D', x: 4, y: 9, type: BuildingType.CORNER, name: 'Corner D', isFinishOption: true },
+  { id: 'E', label: 'E', x: 12, y: 9, type: BuildingType.HOSPITAL, name: 'Hospital', isFinishOption: true },
+  { id: 'F', label: 'F', x: 20, y: 9, type: BuildingType.CORNER, name: 'Corner F', isFinishOption: true },
+  { id: 'G', label: 'G', x: 4, y: 15, type: BuildingType.SHOP, name: 'Shop', isFinishOption: true },
+  { id: 'H', label: 'H', x: 12, y: 15, type: BuildingType.CORNER, name: 'Corner H', isFinishOption: true },
+  { id: 'I', label: 'I', x: 20, y: 15, type: BuildingType.FINISH, name: 'Finish Line', isFinishOption: true },
+];
+
+export const CITY_BLOCKS_MAP: MapDefinition = {
+  id: 'city-blocks',
+  name: 'City Blocks',
+  description: 'A grid of streets with several routes to every corner.',
+  gridCols: 25,
+  gridRows: 18,
+  nodes: CITY_NODES,
+  edges: [
+    { from: 'A', to: 'B' }, { from: 'B', to: 'C' },
+    { from: 'D', to: 'E' }, { from: 'E', to: 'F' },
+    { from: 'G', to: 'H' }, { from: 'H', to: 'I' },
+    { from: 'A', to: 'D' }, { from: 'D', to: 'G' },
+    { from: 'B', to: 'E' }, { from: 'E', to: 'H' },
+    { from: 'C', to: 'F' }, { from: 'F', to: 'I' },
+  ],
+  placements: {
+    A: { x: 2, y: 2 }, C: { x: -2, y: 2 }, E: { x: 2, y: 2 },
+    G: { x: 2, y: -2 }, I: { x: -2, y: -2 }
+  },
+  defaultStartNodeId: 'A',
+  defaultFinishNodeId: 'I'
+};
+
+// Diagonal lanes and curved roads. Each curve leaves and joins its
+// neighbours in a straight line, so only the turn at F is a corner.
+const LANES_NODES: NodePoint[] = [
+  { id: 'A', label: 'A', x: 3, y: 14, type: BuildingType.HOUSE, name: 'House' },
+  { id: 'B', label: 'B', x: 8, y: 9, type: BuildingType.CORNER, name: 'Corner B', isFinishOption: true },
+  { id: 'C', label: 'C', x: 16, y: 6, type: BuildingType.SHOP, name: 'Shop', isFinishOption: true },
+  { id: 'D', label: 'D', x: 20, y: 6, type: BuildingType.CORNER, name: 'Corner D', isFinishOption: true },
+  { id: 'E', label: 'E', x: 23, y: 10, type: BuildingType.SCHOOL, name: 'School', isFinishOption: true },
+  { id: 'F', label: 'F', x: 23, y: 15, type: BuildingType.CORNER, name: 'Corner F', isFinishOption: true },
+  { id: 'G', label: 'G', x: 16, y: 15, type: BuildingType.FINISH, name: 'Finish Line', isFinishOption: true },
+];
+
+export const LANES_MAP: MapDefinition = {
+  id: 'lanes',
+  name: 'Country Lanes',
+  description: 'Diagonal lanes and sweeping bends: the road is longer than it looks.',
+  gridCols: 25,
+  gridRows: 18,
+  nodes: LANES_NODES,
+  edges: [
+    { from: 'A', to: 'B' },
+    { from: 'B', to: 'C', control: { x: 11, y: 6 } },
+    { from: 'C', to: 'D' },
+    { from: 'D', to: 'E', control: { x: 23, y: 6 } },
+    { from: 'E', to: 'F' },
+    { from: 'F', to: 'G' },
+  ],
+  placements: { A: DOWN, C: UP, E: { x: -2, y: 0 }, G: UP },
+  defaultStartNodeId: 'A',
+  defaultFinishNodeId: 'G'
+};
+
+export const MAPS: MapDefinition[] = [SNAKE_MAP, STRAIGHT_MAP, HILL_MAP, STAIRCASE_MAP, SPIRAL_MAP, CITY_BLOCKS_MAP, LANES_MAP];
+export const DEFAULT_MAP_ID = SNAKE_MAP.id;
+
+export const getMapById = (id: string) => MAPS.find(m => m.id === id) ?? SNAKE_MAP;
+
+export const getPlacement = (map: MapDefinition, nodeId: string) => map.placements[nodeId] ?? DEFAULT_PLACEMENT;
+
+const BUILDING_TYPES = Object.values(BuildingType) as string[];
+
+// Returns a readable message for every problem found; an empty list means the map is usable.
+export const validateMap = (map: MapDefinition): string[] => {
+  const errors: string[] = [];
+
+  if (!map.id) errors.push('Map is missing an id.');
+  if (!map.name) errors.push('Map is missing a name.');
+  if (!Number.isInteger(map.gridCols) || map.gridCols < 1) errors.push('Grid columns must be a positive whole number.');
+  if (!Number.isInteger(map.gridRows) || map.gridRows < 1) errors.push('Grid rows must be a positive whole number.');
+  if (map.nodes.length < 2) errors.push('A map needs at least two nodes.');
+
+  const ids = new Set<string>();
+  map.nodes.forEach(node => {
+    if (!node.id) {
+      errors.push('Every node needs an id.');
+      return;
+    }
+    if (ids.has(node.id)) errors.push(`Node id "${node.id}" is used more than once.`);
+    ids.add(node.id);
+    if (!Number.isFinite(node.x) || !Number.isFinite(node.y)
+      || node.x < 0 || node.x > map.gridCols || node.y < 0 || node.y > map.gridRows) {
+      errors.push(`Node ${node.id} lies outside the ${map.gridCols}×${map.gridRows} grid.`);
+    }
+    if (!BUILDING_TYPES.includes(node.type)) errors.push(`Node ${node.id} has unknown building type "${node.type}".`);
+    if (node.elevation !== undefined && !Number.isFinite(node.elevation)) errors.push(`Node ${node.id} has an invalid elevation.`);
+  });
+
+  const edgeKeys = new Set<string>();
+  map.edges.forEach(edge => {
+    if (!ids.has(edge.from) || !ids.has(edge.to)) {
+      errors.push(`Road ${edge.from}–${edge.to} refers to a node that does not exist.`);
+      return;
+    }
+    if (edge.from === edge.to) errors.push(`Road ${edge.from}–${edge.to} starts and ends at the same node.`);
+    if (edge.control && (!Number.isFinite(edge.control.x) || !Number.isFinite(edge.control.y)
+      || edge.control.x < 0 || edge.control.x > map.gridCols || edge.control.y < 0 || edge.control.y > map.gridRows)) {
+      errors.push(`Road ${edge.from}–${edge.to} bends towards a point outside the grid.`);
+    }
+    const key = getEdgeKey(edge.from, edge.to);
+    if (edgeKeys.has(key)) errors.push(`Road ${edge.from}–${edge.to} is defined more than once.`);
+    edgeKeys.add(key);
+  });
+
+  if (!ids.has(map.defaultStartNodeId)) errors.push(`Default start "${map.defaultStartNodeId}" is not a node.`);
+
+  const finishOptions = map.nodes.filter(n => n.isFinishOption);
+  if (finishOptions.length === 0) errors.push('At least one node must be a finish option.');
+  if (ids.has(map.defaultStartNodeId)) {
+    const reachable = getReachableIds(map, map.defaultStartNodeId);
+    finishOptions.filter(n => !reachable.has(n.id)).forEach(n => {
+      errors.push(`Finish ${n.id} cannot be reached by road from ${map.defaultStartNodeId}.`);
+    });
+  }
+  if (!finishOptions.some(n => n.id === map.defaultFinishNodeId)) {
+    errors.push(`Default finish "${map.defaultFinishNodeId}" is not a finish option.`);
+  }
+
+  Object.keys(map.placements).forEach(id => {
+    if (!ids.has(id)) errors.push(`Building placement refers to unknown node "${id}".`);
+  });
+
+  return errors;
+};
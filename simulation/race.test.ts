@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { RaceVehicle, VehicleType } from '../types';
+import { createTestConfig, createTestSettings } from '../utils/testFixtures';
+import { FIXED_TIME_STEP, runSimulation } from './engine';
+import {
+  advanceRace, advanceRaceBy, createRaceEntry, createRaceStates, getRacerName, getStandings, isRaceFinished
+} from './race';
+
+const createVehicle = (id: string, colorIndex: number, targetSpeed: number): RaceVehicle => ({
+  id,
+  name: getRacerName(VehicleType.CAR, colorIndex),
+  vehicleType: VehicleType.CAR,
+  colorIndex,
+  config: createTestConfig(createTestSettings('snake', { targetSpeed }))
+});
+
+// The main vehicle, a slower rival and a rival that ties with the main vehicle.
+const vehicles = [createVehicle('main', 0, 30), createVehicle('slow', 1, 10), createVehicle('twin', 2, 30)];
+
+describe('createRaceEntry', () => {
+  it('takes the first free color and the vehicle defaults', () => {
+    const first = createRaceEntry([], VehicleType.BUS);
+    expect(first).toMatchObject({ name: 'Bus 2', colorIndex: 1, vehicleType: VehicleType.BUS, finishNodeId: null });
+    expect(createRaceEntry([first]).colorIndex).toBe(2);
+  });
+});
+
+describe('advanceRace', () => {
+  it('gives each vehicle the result it would get running alone', () => {
+    const states = advanceRaceBy(createRaceStates(vehicles), vehicles, 600);
+    expect(isRaceFinished(states)).toBe(true);
+    vehicles.forEach((vehicle, i) => {
+      expect(states[i].result).toEqual(runSimulation(vehicle.config).result);
+    });
+  });
+
+  it('steps every vehicle by the same whole ticks', () => {
+    const { states, accumulator } = advanceRace(createRaceStates(vehicles), vehicles, 0.1, 0);
+    expect(states.map(state => state.time)).toEqual(states.map(() => states[0].time));
+    expect(states[0].time + accumulator).toBeCloseTo(0.1);
+    expect(accumulator).toBeLessThan(FIXED_TIME_STEP);
+  });
+
+  it('stops once every vehicle has settled', () => {
+    const finished = advanceRaceBy(createRaceStates(vehicles), vehicles, 600);
+    const { states, accumulator } = advanceRace(finished, vehicles, 0.1, 0);
+    expect(states).toBe(finished);
+    expect(accumulator).toBe(0);
+  });
+});
+
+describe('getStandings', () => {
+  it('orders finishers by time, ties in starting order', () => {
+    const states = advanceRaceBy(createRaceStates(vehicles), vehicles, 600);
+    const standings = getStandings(vehicles, states);
+    expect(standings.map(s => [s.place, s.id])).toEqual([[1, 'main'], [2, 'twin'], [3, 'slow']]);
+    expect(standings[2].targetSpeed).toBe(10);
+  });
+
+  it('leaves out vehicles that have not finished', () => {
+    const states = advanceRaceBy(createRaceStates(vehicles), vehicles, 30);
+    expect(getStandings(vehicles, states).map(s => s.id)).toEqual(['main', 'twin']);
+  });
+});
@@ -0,0 +1,86 @@
+import { RaceEntry, RaceStanding, RaceVehicle, SimulationState, VehicleType } from '../types';
+import { RACER_PALETTES, VEHICLES } from '../constants';
+import { FIXED_TIME_STEP, MAX_FRAME_TIME, createSimulationState, isSettled, stepSimulation } from './engine';
+
+// Several vehicles on one simulated clock. Every tick steps all unfinished
+// vehicles by the same time step, so a race is as deterministic as a
+// single run and each vehicle's result matches running it alone.
+
+// Racers are numbered after their color, e.g. "Bus 3".
+export const getRacerName = (vehicleType: VehicleType, colorIndex: number) =>
+  `${VEHICLES[vehicleType].name} ${colorIndex + 1}`;
+
+// New rival in the first free color, with the vehicle's default speed and mass.
+export const createRaceEntry = (entries: RaceEntry[], vehicleType: VehicleType = VehicleType.CAR): RaceEntry => {
+  const used = entries.map(e => e.colorIndex);
+  const colorIndex = RACER_PALETTES.findIndex((_, i) => i > 0 && !used.includes(i));
+  const vehicle = VEHICLES[vehicleType];
+  return {
+    id: `rival-${Date.now().toString(36)}-${colorIndex}`,
+    name: getRacerName(vehicleType, colorIndex),
+    vehicleType,
+    colorIndex,
+    targetSpeed: vehicle.baseSpeed,
+    mass: vehicle.defaultMass,
+    finishNodeId: null
+  };
+};
+
+export const createRaceStates = (vehicles: RaceVehicle[]) =>
+  vehicles.map(vehicle => createSimulationState(vehicle.config.path));
+
+// Stalled vehicles drop out; the race ends once nobody is still moving.
+export const isRaceFinished = (states: SimulationState[]) => states.every(isSettled);
+
+const stepRace = (states: SimulationState[], vehicles: RaceVehicle[], timeStep: number) =>
+  states.map((state, i) => stepSimulation(state, vehicles[i].config, timeStep));
+
+// Same contract as advanceSimulation: whole ticks only, remainder returned.
+export const advanceRace = (
+  states: SimulationState[],
+  vehicles: RaceVehicle[],
+  frameTime: number,
+  accumulator: number,
+  timeStep: number = FIXED_TIME_STEP
+) => {
+  let next = states;
+  let acc = accumulator + Math.min(Math.max(frameTime, 0), MAX_FRAME_TIME);
+  while (acc >= timeStep && !isRaceFinished(next)) {
+    next = stepRace(next, vehicles, timeStep);
+    acc -= timeStep;
+  }
+  return { states: next, accumulator: isRaceFinished(next) ? 0 : acc };
+};
+
+export const advanceRaceBy = (
+  states: SimulationState[],
+  vehicles: RaceVehicle[],
+  duration: number,
+  timeStep: number = FIXED_TIME_STEP
+) => {
+  let next = states;
+  const ticks = Math.round(duration / timeStep);
+  for (let i = 0; i < ticks && !isRaceFinished(next); i++) {
+    next = stepRace(next, vehicles, timeStep);
+  }
+  return next;
+};
+
+// Finish order by time taken; vehicles that tie keep their starting order.
+export const getStandings = (vehicles: RaceVehicle[], states: SimulationState[]): RaceStanding[] =>
+  vehicles
+    .flatMap((vehicle, i) => {
+      const result = states[i]?.result;
+      return result ? [{ vehicle, result, index: i }] : [];
+    })
+    .sort((a, b) => a.result.timeTaken - b.result.timeTaken || a.index - b.index)
+    .map(({ vehicle, result }, i) => ({
+      id: vehicle.id,
+      name: vehicle.name,
+      vehicleType: vehicle.vehicleType,
+      colorIndex: vehicle.colorIndex,
+      place: i + 1,
+      targetSpeed: vehicle.config.targetSpeed,
+      mass: vehicle.config.mass,
+      result
+    }));
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { MapEdge } from '../types';
+import {
+  CURVE_STEPS, findRoad, getMinCurveRadius, getRoadControl, getRoadHeading, getRoadLength, getRoadPointAt, sampleRoad,
+  sampleRoadStretch
+} from './roads';
+
+const from = { x: 0, y: 0 };
+const to = { x: 2, y: 0 };
+const control = { x: 1, y: 1 }; // bends the road into the parabola y = x − x²/2
+
+describe('findRoad', () => {
+  const edges: MapEdge[] = [{ from: 'A', to: 'B', control }, { from: 'B', to: 'C' }];
+
+  it('finds a road whichever way it is driven', () => {
+    expect(findRoad(edges, 'B', 'A')).toBe(edges[0]);
+    expect(findRoad(edges, 'A', 'C')).toBeUndefined();
+  });
+
+  it('gives the control point of curved roads only', () => {
+    expect(getRoadControl(edges, 'B', 'A')).toEqual(control);
+    expect(getRoadControl(edges, 'B', 'C')).toBeNull();
+  });
+});
+
+describe('road shapes', () => {
+  it('measures a straight road by its chord', () => {
+    expect(sampleRoad(from, to, null)).toEqual([from, to]);
+    expect(getRoadLength({ x: 0, y: 0 }, { x: 3, y: 4 }, null)).toBe(5);
+  });
+
+  it('measures a curved road along its arc', () => {
+    expect(sampleRoad(from, to, control)).toHaveLength(CURVE_STEPS + 1);
+    expect(getRoadLength(from, to, control)).toBeCloseTo(Math.SQRT2 + Math.asinh(1), 3);
+  });
+
+  it('places points by distance along the road', () => {
+    expect(getRoadPointAt(from, to, control, 0.5)).toEqual({ x: 1, y: 0.5 });
+    expect(getRoadPointAt(from, to, control, 1)).toEqual(to);
+    expect(getRoadPointAt({ x: 0, y: 0 }, { x: 4, y: 0 }, null, 0.25)).toEqual({ x: 1, y: 0 });
+  });
+
+  it('leaves each end heading towards the control point', () => {
+    expect(getRoadHeading(from, to, control, 0)).toBeCloseTo(Math.PI / 4, 9);
+    expect(getRoadHeading(from, to, control, 1)).toBeCloseTo(-Math.PI / 4, 9);
+    expect(getRoadHeading(from, to, from, 0)).toBeCloseTo(0, 9);
+  });
+
+  it('samples a stretch of a road between two fractions of its length', () => {
+    const stretch = sampleRoadStretch(from, to, control, 0.25, 0.75);
+    expect(stretch).toHaveLength(CURVE_STEPS / 2 + 1);
+    expect(stretch[0]).toEqual(getRoadPointAt(from, to, control, 0.25));
+    expect(sampleRoadStretch(from, to, null, 0.25, 0.75)).toEqual([{ x: 0.5, y: 0 }, { x: 1.5, y: 0 }]);
+  });
+
+  it('finds the tightest radius of a curve at its vertex', () => {
+    expect(getMinCurveRadius(from, control, to)).toBeCloseTo(1, 9);
+  });
+});
@@ -0,0 +1,113 @@
+import { Coordinates, MapEdge } from '../types';
+
+// Road shapes. A road is straight unless its edge has a control point, which
+// bends it into a quadratic Bézier curve: the road leaves each end heading
+// towards the control point, so the same curve is driven either way.
+// All positions and lengths are in grid units.
+
+export const CURVE_STEPS = 64; // chords a curve is measured and drawn with
+
+// The edge between two nodes, in either direction.
+export const findRoad = (edges: MapEdge[], fromId: string, toId: string) =>
+  edges.find(edge => (edge.from === fromId && edge.to === toId) || (edge.from === toId && edge.to === fromId));
+
+// Control point of the road between two nodes, null for a straight road.
+export const getRoadControl = (edges: MapEdge[], fromId: string, toId: string): Coordinates | null =>
+  findRoad(edges, fromId, toId)?.control ?? null;
+
+export const getBezierPoint = (from: Coordinates, control: Coordinates, to: Coordinates, t: number): Coordinates => {
+  const u = 1 - t;
+  return {
+    x: u * u * from.x + 2 * u * t * control.x + t * t * to.x,
+    y: u * u * from.y + 2 * u * t * control.y + t * t * to.y
+  };
+};
+
+// Derivative of the curve at parameter t.
+const getBezierTangent = (from: Coordinates, control: Coordinates, to: Coordinates, t: number): Coordinates => ({
+  x: 2 * (1 - t) * (control.x - from.x) + 2 * t * (to.x - control.x),
+  y: 2 * (1 - t) * (control.y - from.y) + 2 * t * (to.y - control.y)
+});
+
+// Heading (rad) of a road at a fraction t of its curve parameter. A control
+// point on top of an end has no tangent there, so the chord is used.
+export const getRoadHeading = (from: Coordinates, to: Coordinates, control: Coordinates | null, t: number) => {
+  if (control) {
+    const tangent = getBezierTangent(from, control, to, t);
+    if (Math.hypot(tangent.x, tangent.y) > 1e-9) return Math.atan2(tangent.y, tangent.x);
+  }
+  return Math.atan2(to.y - from.y, to.x - from.x);
+};
+
+// Points along a road from one end to the other, both ends included.
+export const sampleRoad = (from: Coordinates, to: Coordinates, control: Coordinates | null): Coordinates[] => {
+  if (!control) return [from, to];
+  const points: Coordinates[] = [];
+  for (let i = 0; i <= CURVE_STEPS; i++) points.push(getBezierPoint(from, control, to, i / CURVE_STEPS));
+  return points;
+};
+
+// Length along the road at each sample point, starting from 0.
+export const getSampleLengths = (points: Coordinates[]) => {
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  return lengths;
+};
+
+// Arc length of a road; the chord for a straight one.
+export const getRoadLength = (from: Coordinates, to: Coordinates, control: Coordinates | null) => {
+  const lengths = getSampleLengths(sampleRoad(from, to, control));
+  return lengths[lengths.length - 1];
+};
+
+// Point at a fraction of the length of sampled points.
+const getPointAt = (points: Coordinates[], lengths: number[], ratio: number): Coordinates => {
+  const target = Math.min(Math.max(ratio, 0), 1) * lengths[lengths.length - 1];
+  let i = 1;
+  while (i < points.length - 1 && lengths[i] < target) i++;
+  const span = lengths[i] - lengths[i - 1];
+  const along = span > 0 ? (target - lengths[i - 1]) / span : 0;
+  return {
+    x: points[i - 1].x + (points[i].x - points[i - 1].x) * along,
+    y: points[i - 1].y + (points[i].y - points[i - 1].y) * along
+  };
+};
+
+// Point at a fraction of a road's length, e.g. 0.5 for the middle.
+export const getRoadPointAt = (from: Coordinates, to: Coordinates, control: Coordinates | null, ratio: number) => {
+  const points = sampleRoad(from, to, control);
+  return getPointAt(points, getSampleLengths(points), ratio);
+};
+
+// Points covering the stretch of a road between two fractions of its length,
+// spaced so the whole road would take `steps` chords.
+export const sampleRoadStretch = (
+  from: Coordinates,
+  to: Coordinates,
+  control: Coordinates | null,
+  start: number,
+  end: number,
+  steps = CURVE_STEPS
+) => {
+  const points = sampleRoad(from, to, control);
+  const lengths = getSampleLengths(points);
+  const count = control ? Math.max(1, Math.ceil(steps * (end - start))) : 1;
+  const stretch: Coordinates[] = [];
+  for (let i = 0; i <= count; i++) stretch.push(getPointAt(points, lengths, start + ((end - start) * i) / count));
+  return stretch;
+};
+
+// Tightest radius of curvature along a curve, |B'|³ / |B' × B''|.
+export const getMinCurveRadius = (from: Coordinates, control: Coordinates, to: Coordinates) => {
+  const ddx = 2 * (from.x - 2 * control.x + to.x);
+  const ddy = 2 * (from.y - 2 * control.y + to.y);
+  let radius = Infinity;
+  for (let i = 0; i <= CURVE_STEPS; i++) {
+    const tangent = getBezierTangent(from, control, to, i / CURVE_STEPS);
+    const cross = Math.abs(tangent.x * ddy - tangent.y * ddx);
+    if (cross > 1e-12) radius = Math.min(radius, Math.hypot(tangent.x, tangent.y) ** 3 / cross);
+  }
+  return radius;
+};
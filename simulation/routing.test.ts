@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { NodePoint } from '../types';
+import { CITY_BLOCKS_MAP, SNAKE_MAP } from './maps';
+import { findRouteVia, findShortestRoute, findTripRoute, getEdgeKey, getReachableIds, getRouteEdgeKeys } from './routing';
+
+const ids = (route: NodePoint[] | null) => route?.map(node => node.id).join('') ?? null;
+
+// Grid squares along a route of straight roads.
+const length = (route: NodePoint[]) =>
+  route.slice(1).reduce((total, node, i) => total + Math.hypot(node.x - route[i].x, node.y - route[i].y), 0);
+
+// City Blocks without the roads into its middle column.
+const CUT_CITY = {
+  ...CITY_BLOCKS_MAP,
+  edges: CITY_BLOCKS_MAP.edges.filter(edge => ![edge.from, edge.to].some(id => id === 'B' || id === 'E' || id === 'H'))
+};
+
+describe('findShortestRoute', () => {
+  it('takes the shortest of several routes', () => {
+    expect(ids(findShortestRoute(CITY_BLOCKS_MAP, 'A', 'C'))).toBe('ABC');
+    expect(length(findShortestRoute(CITY_BLOCKS_MAP, 'A', 'I')!)).toBe(28);
+  });
+
+  it('is null when no road connects the nodes', () => {
+    expect(findShortestRoute(CUT_CITY, 'A', 'C')).toBeNull();
+    expect(findShortestRoute(CITY_BLOCKS_MAP, 'A', 'nowhere')).toBeNull();
+  });
+});
+
+describe('findRouteVia', () => {
+  it('passes the checkpoints in order', () => {
+    const route = findRouteVia(CITY_BLOCKS_MAP, 'A', ['G'], 'C')!;
+    expect(ids(route)!.startsWith('ADG')).toBe(true);
+    expect(route[route.length - 1].id).toBe('C');
+    expect(length(route)).toBe(40);
+  });
+
+  it('follows the snake when it is the only road', () => {
+    expect(ids(findRouteVia(SNAKE_MAP, 'A', [], 'J'))).toBe('ABCDEFGHIJ');
+    expect(ids(findRouteVia(SNAKE_MAP, 'C', ['A'], 'D'))).toBe('CBABCD');
+  });
+
+  it('is null when a leg cannot be driven', () => {
+    expect(findRouteVia(CUT_CITY, 'A', ['C'], 'G')).toBeNull();
+  });
+});
+
+describe('findTripRoute', () => {
+  it('goes one way to the destination', () => {
+    expect(ids(findTripRoute(CITY_BLOCKS_MAP, 'A', ['G'], 'C', false))).toBe(ids(findRouteVia(CITY_BLOCKS_MAP, 'A', ['G'], 'C')));
+  });
+
+  it('comes back to the start by the shortest way on a round trip', () => {
+    expect(ids(findTripRoute(SNAKE_MAP, 'A', [], 'D', true))).toBe('ABCDCBA');
+    const route = findTripRoute(CITY_BLOCKS_MAP, 'A', ['G'], 'C', true)!;
+    expect(route[route.length - 1].id).toBe('A');
+    expect(length(route)).toBe(40 + length(findShortestRoute(CITY_BLOCKS_MAP, 'C', 'A')!));
+  });
+
+  it('is null when the destination cannot be reached', () => {
+    expect(findTripRoute(CUT_CITY, 'A', [], 'C', true)).toBeNull();
+  });
+});
+
+describe('getReachableIds', () => {
+  it('finds every node connected to the start', () => {
+    expect([...getReachableIds(CUT_CITY, 'A')].sort()).toEqual(['A', 'D', 'G']);
+    expect(getReachableIds(CITY_BLOCKS_MAP, 'A').size).toBe(9);
+  });
+});
+
+describe('getRouteEdgeKeys', () => {
+  it('names each road the same whichever way it is driven', () => {
+    expect(getEdgeKey('B', 'A')).toBe(getEdgeKey('A', 'B'));
+    expect(getRouteEdgeKeys(findShortestRoute(CITY_BLOCKS_MAP, 'C', 'A')!)).toEqual(['B|C', 'A|B']);
+  });
+});
@@ -0,0 +1,126 @@
+import { MapDefinition, NodePoint } from '../types';
+import { getRoadLength } from './roads';
+
+// Road network as an undirected graph, weighted by road length in grid
+// squares, measured along the curve for curved roads.
+
+export interface RoadLink {
+  to: string;
+  length: number;
+}
+
+export type RoadGraph = Map<string, RoadLink[]>;
+
+// Order-independent key for the road between two nodes.
+export const getEdgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+export const buildRoadGraph = (map: MapDefinition): RoadGraph => {
+  const graph: RoadGraph = new Map();
+  const byId = new Map(map.nodes.map(n => [n.id, n]));
+  map.nodes.forEach(n => graph.set(n.id, []));
+
+  map.edges.forEach(edge => {
+    const from = byId.get(edge.from);
+    const to = byId.get(edge.to);
+    if (!from || !to) return;
+    const length = getRoadLength(from, to, edge.control ?? null);
+    graph.get(from.id)!.push({ to: to.id, length });
+    graph.get(to.id)!.push({ to: from.id, length });
+  });
+
+  return graph;
+};
+
+// Dijkstra over the road graph. Returns the node ids from start to finish,
+// or null when no road connects them.
+const shortestIds = (graph: RoadGraph, startId: string, finishId: string): string[] | null => {
+  if (!graph.has(startId) || !graph.has(finishId)) return null;
+
+  const dist = new Map<string, number>([[startId, 0]]);
+  const prev = new Map<string, string>();
+  const visited = new Set<string>();
+
+  while (true) {
+    let current: string | null = null;
+    let best = Infinity;
+    for (const [id, d] of dist) {
+      if (!visited.has(id) && d < best) {
+        current = id;
+        best = d;
+      }
+    }
+    if (current === null) return null;
+    if (current === finishId) break;
+    visited.add(current);
+
+    for (const link of graph.get(current)!) {
+      const candidate = best + link.length;
+      if (candidate < (dist.get(link.to) ?? Infinity)) {
+        dist.set(link.to, candidate);
+        prev.set(link.to, current);
+      }
+    }
+  }
+
+  const ids = [finishId];
+  while (ids[0] !== startId) ids.unshift(prev.get(ids[0])!);
+  return ids;
+};
+
+const toNodes = (map: MapDefinition, ids: string[]) =>
+  ids.map(id => map.nodes.find(n => n.id === id)!);
+
+export const findShortestRoute = (map: MapDefinition, startId: string, finishId: string): NodePoint[] | null => {
+  const ids = shortestIds(buildRoadGraph(map), startId, finishId);
+  return ids ? toNodes(map, ids) : null;
+};
+
+// Shortest route that passes the checkpoints in the given order.
+export const findRouteVia = (
+  map: MapDefinition,
+  startId: string,
+  checkpointIds: string[],
+  finishId: string
+): NodePoint[] | null => {
+  const graph = buildRoadGraph(map);
+  const stops = [startId, ...checkpointIds, finishId];
+  const ids: string[] = [startId];
+
+  for (let i = 0; i < stops.length - 1; i++) {
+    const leg = shortestIds(graph, stops[i], stops[i + 1]);
+    if (!leg) return null;
+    ids.push(...leg.slice(1));
+  }
+
+  return toNodes(map, ids);
+};
+
+// Route of a whole trip. A round trip turns at the destination and comes
+// back to the start by the shortest way, so it ends where it began.
+export const findTripRoute = (
+  map: MapDefinition,
+  startId: string,
+  checkpointIds: string[],
+  finishId: string,
+  isRoundTrip: boolean
+): NodePoint[] | null => (isRoundTrip
+  ? findRouteVia(map, startId, [...checkpointIds, finishId], startId)
+  : findRouteVia(map, startId, checkpointIds, finishId));
+
+// Every node id that can be reached by road from the start.
+export const getReachableIds = (map: MapDefinition, startId: string) => {
+  const graph = buildRoadGraph(map);
+  const reached = new Set<string>();
+  const queue = graph.has(startId) ? [startId] : [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reached.has(id)) continue;
+    reached.add(id);
+    graph.get(id)!.forEach(link => queue.push(link.to));
+  }
+  return reached;
+};
+
+// Road keys along a route, in driving order.
+export const getRouteEdgeKeys = (route: NodePoint[]) =>
+  route.slice(1).map((node, i) => getEdgeKey(route[i].id, node.id));
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Surface, SurfaceZone } from '../types';
+import { SURFACES } from '../constants';
+import { createTestConfig, createTestSettings } from '../utils/testFixtures';
+import { runSimulation } from './engine';
+import { SNAKE_MAP } from './maps';
+import { findShortestRoute } from './routing';
+import { createSurfaceZone, describeSurfaceZone, getRouteZones, isZoneOnMap } from './surfaces';
+
+const zone = (id: string, fromNodeId: string, toNodeId: string, start: number, end: number, surface = Surface.GRAVEL): SurfaceZone =>
+  ({ id, fromNodeId, toNodeId, start, end, surface, friction: SURFACES[surface].friction });
+
+describe('surface zones', () => {
+  it('start out covering the whole road with the preset µ', () => {
+    expect(createSurfaceZone('B', 'C', Surface.MUD)).toMatchObject({ start: 0, end: 1, surface: Surface.MUD, friction: 0.8 });
+  });
+
+  it('are labelled by their road and the part of it they cover', () => {
+    expect(describeSurfaceZone(SNAKE_MAP, zone('z', 'B', 'C', 0, 1))).toBe('B→C Gravel');
+    expect(describeSurfaceZone(SNAKE_MAP, zone('z', 'B', 'C', 0.2, 0.6, Surface.ICE))).toBe('B→C 20–60% Ice');
+  });
+
+  it('only apply while their road is on the map', () => {
+    expect(isZoneOnMap(SNAKE_MAP, zone('z', 'C', 'B', 0, 1))).toBe(true);
+    expect(isZoneOnMap(SNAKE_MAP, zone('z', 'A', 'C', 0, 1))).toBe(false);
+  });
+});
+
+describe('getRouteZones', () => {
+  it('lists the zones on a route in the order they are driven', () => {
+    const zones = [zone('late', 'C', 'D', 0.5, 1), zone('off-route', 'I', 'J', 0, 1), zone('early', 'C', 'D', 0, 0.4), zone('first', 'B', 'A', 0, 1)];
+    expect(getRouteZones(findShortestRoute(SNAKE_MAP, 'A', 'D')!, zones).map(z => z.id)).toEqual(['first', 'early', 'late']);
+    expect(getRouteZones(findShortestRoute(SNAKE_MAP, 'D', 'A')!, zones).map(z => z.id)).toEqual(['late', 'early', 'first']);
+  });
+});
+
+describe('zone times', () => {
+  const settings = createTestSettings('snake', { surfaceZones: [zone('mud', 'C', 'B', 0, 1, Surface.MUD), zone('ice', 'D', 'E', 0.5, 1, Surface.ICE)] });
+  const result = runSimulation(createTestConfig(settings)).result!;
+
+  it('records the time and distance spent on each zone, in either driving direction', () => {
+    expect(result.zoneTimes.map(z => [z.zoneId, z.road])).toEqual([['mud', 'B→C'], ['ice', 'D→E']]);
+    expect(result.zoneTimes[0].distance).toBeCloseTo(40, 0);
+    expect(result.zoneTimes[1].distance).toBeCloseTo(45, 0);
+    result.zoneTimes.forEach(z => expect(z.time).toBeGreaterThan(0));
+  });
+
+  it('slows the vehicle more on rougher surfaces', () => {
+    const icy = runSimulation(createTestConfig({ ...settings, surfaceZones: [zone('ice', 'C', 'B', 0, 1, Surface.ICE)] })).result!;
+    expect(result.zoneTimes[0].time).toBeGreaterThan(icy.zoneTimes[0].time);
+    const plain = runSimulation(createTestConfig(createTestSettings())).result!;
+    expect(result.timeTaken).toBeGreaterThan(plain.timeTaken);
+    expect(plain.zoneTimes).toEqual([]);
+  });
+});
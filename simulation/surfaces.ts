@@ -0,0 +1,46 @@
+import { MapDefinition, NodePoint, Surface, SurfaceZone } from '../types';
+import { SURFACES } from '../constants';
+import { getEdgeKey } from './routing';
+
+// Surface zones: stretches of road with their own µ. Zones are tied to a road
+// by its two node ids, so they stay put when nodes are renamed or moved.
+
+// New zone covering the whole road, with the surface's preset µ.
+export const createSurfaceZone = (fromNodeId: string, toNodeId: string, surface: Surface = Surface.GRAVEL): SurfaceZone => ({
+  id: `zone-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  fromNodeId,
+  toNodeId,
+  start: 0,
+  end: 1,
+  surface,
+  friction: SURFACES[surface].friction
+});
+
+// Zones whose road was removed from the map no longer apply.
+export const isZoneOnMap = (map: MapDefinition, zone: SurfaceZone) => {
+  const key = getEdgeKey(zone.fromNodeId, zone.toNodeId);
+  return map.edges.some(edge => getEdgeKey(edge.from, edge.to) === key);
+};
+
+// Short label such as "B→C Gravel" or "B→C 20–60% Ice".
+export const describeSurfaceZone = (map: MapDefinition, zone: SurfaceZone) => {
+  const label = (id: string) => map.nodes.find(n => n.id === id)?.label ?? id;
+  const part = zone.start > 0 || zone.end < 1
+    ? ` ${Math.round(zone.start * 100)}–${Math.round(zone.end * 100)}%`
+    : '';
+  return `${label(zone.fromNodeId)}→${label(zone.toNodeId)}${part} ${SURFACES[zone.surface].name}`;
+};
+
+// Zones lying on the roads of a path, in the order they are driven, each once.
+export const getRouteZones = (path: NodePoint[], zones: SurfaceZone[]) => {
+  const found: SurfaceZone[] = [];
+  for (let i = 0; i < path.length - 1; i++) {
+    const key = getEdgeKey(path[i].id, path[i + 1].id);
+    const onRoad = zones
+      .filter(zone => getEdgeKey(zone.fromNodeId, zone.toNodeId) === key && !found.includes(zone))
+      .map(zone => ({ zone, along: zone.fromNodeId === path[i].id ? zone.start : 1 - zone.end }))
+      .sort((a, b) => a.along - b.along);
+    found.push(...onRoad.map(({ zone }) => zone));
+  }
+  return found;
+};
@@ -0,0 +1,184 @@
+import { Coordinates, MapEdge, NodePoint } from '../types';
+import { getBezierPoint, getMinCurveRadius, getRoadControl, getRoadHeading, getSampleLengths, sampleRoad } from './roads';
+
+// The line a vehicle actually drives along a path. Without cornering it
+// follows the roads through the nodes, straight or curved. With cornering
+// every turn between two straight roads is rounded into a circular arc
+// tangent to both, so the drive is shorter and the vehicle passes each node
+// at the middle of its arc; curved roads bend by themselves and meet their
+// neighbours sharply. All lengths and positions are in grid units.
+
+export const CORNER_CUT = 1; // grid units before a node where its arc may start at most
+const MIN_TURN = 1e-6; // rad, anything straighter is not a turn
+const MAX_ARC_TURN = Math.PI - 0.01; // rad, reversals stay sharp
+
+interface LinePiece {
+  kind: 'line';
+  start: number; // track distance where the piece begins
+  length: number;
+  from: Coordinates;
+  to: Coordinates;
+  angle: number;
+}
+
+interface ArcPiece {
+  kind: 'arc';
+  start: number;
+  length: number;
+  center: Coordinates;
+  radius: number;
+  startHeading: number; // rad, heading where the arc begins
+  turn: number; // rad, signed change of heading over the arc
+}
+
+// A curved road, driven from `from` to `to`.
+interface CurvePiece {
+  kind: 'curve';
+  start: number;
+  length: number;
+  from: Coordinates;
+  control: Coordinates;
+  to: Coordinates;
+  lengths: number[]; // distance along the piece at each of its sample points
+}
+
+export type TrackPiece = LinePiece | ArcPiece | CurvePiece;
+
+export interface Corner {
+  nodeIndex: number; // path index of the node the turn belongs to, or where a curved road begins
+  start: number; // track distance where the turn begins
+  end: number; // equal to start for a sharp turn
+  radius: number; // 0 for a sharp turn, the tightest radius for a curved road
+  turn: number; // rad, unsigned change of heading
+  isBend: boolean; // a curved road rather than a turn at a node
+}
+
+export interface Track {
+  pieces: TrackPiece[];
+  nodeDistances: number[]; // track distance at which each path node is passed
+  corners: Corner[];
+  length: number;
+}
+
+const normalizeAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+export const buildTrack = (path: NodePoint[], roads: MapEdge[], isCornering: boolean): Track => {
+  const pieces: TrackPiece[] = [];
+  const nodeDistances: number[] = [0];
+  const corners: Corner[] = [];
+  const controls = path.slice(1).map((node, i) => getRoadControl(roads, path[i].id, node.id));
+  let cursor: Coordinates = path[0] ? { x: path[0].x, y: path[0].y } : { x: 0, y: 0 };
+  let distance = 0;
+
+  const addLine = (to: Coordinates) => {
+    const length = Math.hypot(to.x - cursor.x, to.y - cursor.y);
+    if (length > 0) {
+      const end = { x: to.x, y: to.y };
+      pieces.push({ kind: 'line', start: distance, length, from: cursor, to: end, angle: Math.atan2(to.y - cursor.y, to.x - cursor.x) });
+      distance += length;
+    }
+    cursor = { x: to.x, y: to.y };
+  };
+
+  // Curved roads always start at a node, as no arc is cut into them
+  const addCurve = (control: Coordinates, to: Coordinates, roadIndex: number) => {
+    const lengths = getSampleLengths(sampleRoad(cursor, to, control));
+    const length = lengths[lengths.length - 1];
+    if (length > 0) {
+      pieces.push({ kind: 'curve', start: distance, length, from: cursor, control, to: { x: to.x, y: to.y }, lengths });
+      const turn = Math.abs(normalizeAngle(getRoadHeading(cursor, to, control, 1) - getRoadHeading(cursor, to, control, 0)));
+      if (isCornering && turn >= MIN_TURN) {
+        corners.push({ nodeIndex: roadIndex, start: distance, end: distance + length, radius: getMinCurveRadius(cursor, control, to), turn, isBend: true });
+      }
+      distance += length;
+    }
+    cursor = { x: to.x, y: to.y };
+  };
+
+  for (let i = 1; i < path.length; i++) {
+    const node = path[i];
+    const next = path[i + 1];
+    const inControl = controls[i - 1];
+    const outControl = next ? controls[i] : null;
+    const addRoad = () => (inControl ? addCurve(inControl, node, i - 1) : addLine(node));
+    const inLength = Math.hypot(node.x - path[i - 1].x, node.y - path[i - 1].y);
+    const outLength = next ? Math.hypot(next.x - node.x, next.y - node.y) : 0;
+    if (!next || inLength === 0 || outLength === 0) {
+      addRoad();
+      nodeDistances.push(distance);
+      continue;
+    }
+
+    const inHeading = getRoadHeading(path[i - 1], node, inControl, 1);
+    const turn = normalizeAngle(getRoadHeading(node, next, outControl, 0) - inHeading);
+    const size = Math.abs(turn);
+    if (size < MIN_TURN) {
+      addRoad();
+      nodeDistances.push(distance);
+      continue;
+    }
+    if (!isCornering || size > MAX_ARC_TURN || inControl || outControl) {
+      addRoad();
+      nodeDistances.push(distance);
+      corners.push({ nodeIndex: i, start: distance, end: distance, radius: 0, turn: size, isBend: false });
+      continue;
+    }
+
+    // Tangent points sit `cut` before and after the node, at most halfway along either road
+    const cut = Math.min(CORNER_CUT, inLength / 2, outLength / 2);
+    const radius = cut / Math.tan(size / 2);
+    const side = Math.sign(turn);
+    addLine({ x: node.x - Math.cos(inHeading) * cut, y: node.y - Math.sin(inHeading) * cut });
+    const center = {
+      x: cursor.x - Math.sin(inHeading) * radius * side,
+      y: cursor.y + Math.cos(inHeading) * radius * side
+    };
+    const length = radius * size;
+    pieces.push({ kind: 'arc', start: distance, length, center, radius, startHeading: inHeading, turn });
+    corners.push({ nodeIndex: i, start: distance, end: distance + length, radius, turn: size, isBend: false });
+    nodeDistances.push(distance + length / 2);
+    distance += length;
+    const outHeading = inHeading + turn;
+    cursor = { x: node.x + Math.cos(outHeading) * cut, y: node.y + Math.sin(outHeading) * cut };
+  }
+
+  return { pieces, nodeDistances, corners, length: distance };
+};
+
+// Position and heading at a track distance, clamped to the track. A distance
+// exactly on a joint belongs to the piece that starts there.
+export const getTrackPoint = (track: Track, distance: number): { position: Coordinates; angle: number } | null => {
+  const { pieces } = track;
+  if (pieces.length === 0) return null;
+  const d = Math.min(Math.max(distance, 0), track.length);
+  let index = pieces.length - 1;
+  while (index > 0 && pieces[index].start > d) index--;
+  const piece = pieces[index];
+  const along = Math.min(d - piece.start, piece.length);
+
+  if (piece.kind === 'line') {
+    const ratio = along / piece.length;
+    return {
+      position: { x: piece.from.x + (piece.to.x - piece.from.x) * ratio, y: piece.from.y + (piece.to.y - piece.from.y) * ratio },
+      angle: piece.angle
+    };
+  }
+  if (piece.kind === 'curve') {
+    // Curve parameter at this distance, from the sampled lengths
+    const { lengths } = piece;
+    let i = 1;
+    while (i < lengths.length - 1 && lengths[i] < along) i++;
+    const span = lengths[i] - lengths[i - 1];
+    const t = (i - 1 + (span > 0 ? (along - lengths[i - 1]) / span : 0)) / (lengths.length - 1);
+    return {
+      position: getBezierPoint(piece.from, piece.control, piece.to, t),
+      angle: getRoadHeading(piece.from, piece.to, piece.control, t)
+    };
+  }
+  const heading = piece.startHeading + piece.turn * (along / piece.length);
+  const radial = heading - (Math.sign(piece.turn) * Math.PI) / 2;
+  return {
+    position: { x: piece.center.x + Math.cos(radial) * piece.radius, y: piece.center.y + Math.sin(radial) * piece.radius },
+    angle: heading
+  };
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { TrafficControl, TrafficControlType } from '../types';
+import { createTestConfig, createTestSettings } from '../utils/testFixtures';
+import { STOP_SIGN_WAIT, runSimulation } from './engine';
+import { SNAKE_MAP } from './maps';
+import { createTrafficControl, describeTrafficControl, isControlOnMap, isLightRed } from './traffic';
+
+const light = (nodeId: string, greenTime: number, redTime: number, offset = 0): TrafficControl =>
+  ({ ...createTrafficControl(nodeId, TrafficControlType.TRAFFIC_LIGHT), greenTime, redTime, offset });
+
+const runWith = (trafficControls: TrafficControl[]) =>
+  runSimulation(createTestConfig(createTestSettings('snake', { trafficControls }))).result!;
+
+describe('isLightRed', () => {
+  it('starts each cycle green', () => {
+    const control = light('B', 8, 6);
+    expect([0, 7.9, 8, 13.9, 14, 22].map(time => isLightRed(control, time))).toEqual([false, false, true, true, false, true]);
+  });
+
+  it('shifts the cycle by its offset', () => {
+    expect(isLightRed(light('B', 8, 6, 8), 0)).toBe(true);
+    expect(isLightRed(light('B', 8, 6, 8), 6)).toBe(false);
+  });
+
+  it('stays green without a cycle', () => {
+    expect(isLightRed(light('B', 0, 0), 5)).toBe(false);
+  });
+});
+
+describe('traffic controls', () => {
+  it('are labelled by their node', () => {
+    expect(describeTrafficControl(SNAKE_MAP, light('C', 8, 6))).toBe('Light at C (8 s / 6 s)');
+    expect(describeTrafficControl(SNAKE_MAP, createTrafficControl('D', TrafficControlType.STOP_SIGN))).toBe('Stop at D');
+  });
+
+  it('only apply while their node is on the map', () => {
+    expect(isControlOnMap(SNAKE_MAP, light('C', 8, 6))).toBe(true);
+    expect(isControlOnMap(SNAKE_MAP, light('Q', 8, 6))).toBe(false);
+  });
+});
+
+describe('waiting', () => {
+  const plain = runWith([]);
+
+  it('stands still at a stop sign before driving on', () => {
+    const result = runWith([createTrafficControl('C', TrafficControlType.STOP_SIGN)]);
+    const [, toStop, fromStop] = result.segmentData;
+    expect(toStop.waitTime).toBeGreaterThanOrEqual(STOP_SIGN_WAIT);
+    expect(toStop.waitTime).toBeLessThan(STOP_SIGN_WAIT + 0.1);
+    expect(fromStop.waitTime).toBe(0);
+    expect(result.timeTaken).toBeGreaterThan(plain.timeTaken + STOP_SIGN_WAIT);
+  });
+
+  it('waits at a red light until it turns green', () => {
+    const result = runWith([light('B', 1, 20)]);
+    const arrival = result.segmentData[0].time - result.segmentData[0].waitTime;
+    expect(result.segmentData[0].waitTime).toBeCloseTo(21 - arrival, 1);
+  });
+
+  it('drives straight through a green light', () => {
+    expect(runWith([light('B', 60, 6)]).timeTaken).toBeCloseTo(plain.timeTaken, 9);
+  });
+
+  it('ignores controls at the start and the finish', () => {
+    const stops = ['A', 'J'].map(id => createTrafficControl(id, TrafficControlType.STOP_SIGN));
+    expect(runWith(stops).segmentData.every(seg => seg.waitTime === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,37 @@
+import { MapDefinition, TrafficControl, TrafficControlType } from '../types';
+import { DEFAULT_LIGHT_TIMING } from '../constants';
+
+// Traffic lights and stop signs. Controls are tied to a node by its id and
+// apply every time a route passes through that node, except at its start and
+// finish.
+
+// New control at a node, with the default light timing.
+export const createTrafficControl = (nodeId: string, type: TrafficControlType): TrafficControl => ({
+  id: `traffic-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  nodeId,
+  type,
+  ...DEFAULT_LIGHT_TIMING
+});
+
+// Controls whose node was removed from the map no longer apply.
+export const isControlOnMap = (map: MapDefinition, control: TrafficControl) =>
+  map.nodes.some(node => node.id === control.nodeId);
+
+export const getTrafficControl = (controls: TrafficControl[], nodeId: string) =>
+  controls.find(control => control.nodeId === nodeId) ?? null;
+
+// Whether a light shows red at a simulated time. The cycle starts green.
+export const isLightRed = (control: TrafficControl, time: number) => {
+  const cycle = control.greenTime + control.redTime;
+  if (cycle <= 0) return false;
+  const phase = (((time + control.offset) % cycle) + cycle) % cycle;
+  return phase >= control.greenTime;
+};
+
+// Short label such as "Light at C (8 s / 6 s)" or "Stop at D".
+export const describeTrafficControl = (map: MapDefinition, control: TrafficControl) => {
+  const label = map.nodes.find(n => n.id === control.nodeId)?.label ?? control.nodeId;
+  return control.type === TrafficControlType.STOP_SIGN
+    ? `Stop at ${label}`
+    : `Light at ${label} (${control.greenTime} s / ${control.redTime} s)`;
+};
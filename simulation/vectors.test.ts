@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeBearing, describeComponents, getBearing, getDirectionLabel, toCompassNotation, toPlanarVector
+} from './vectors';
+
+describe('getBearing', () => {
+  it('measures clockwise from North', () => {
+    expect([[0, 1], [1, 0], [0, -1], [-1, 0]].map(([east, north]) => getBearing(east, north))).toEqual([0, 90, 180, 270]);
+    expect(getBearing(-1, 1)).toBeCloseTo(315, 9);
+  });
+});
+
+describe('toCompassNotation', () => {
+  it('names the angle off North or South towards East or West', () => {
+    expect(toCompassNotation(getBearing(3, 4))).toBe('N 36.9° E');
+    expect(toCompassNotation(getBearing(3, -4))).toBe('S 36.9° E');
+    expect(toCompassNotation(getBearing(-3, -4))).toBe('S 36.9° W');
+    expect(toCompassNotation(getBearing(-3, 4))).toBe('N 36.9° W');
+  });
+
+  it('gives due headings as a single letter', () => {
+    expect([0, 90, 180, 270, 359.99].map(toCompassNotation)).toEqual(['N', 'E', 'S', 'W', 'N']);
+  });
+});
+
+describe('getDirectionLabel', () => {
+  it('flips the grid so a move down the screen heads South', () => {
+    expect(getDirectionLabel(0, 1)).toBe('South');
+    expect(getDirectionLabel(1, -1)).toBe('North-East');
+  });
+
+  it('does not round diagonal roads to the nearest compass point', () => {
+    expect(getDirectionLabel(2, -1)).toBe('N 63.4° E');
+    expect(getDirectionLabel(0, 0)).toBe('Stationary');
+  });
+});
+
+describe('planar vectors', () => {
+  it('scale grid moves to metres East and North', () => {
+    const vector = toPlanarVector(3, 4, 10);
+    expect(vector).toMatchObject({ x: 30, y: -40, magnitude: 50 });
+    expect(describeBearing(vector)).toBe('143.1° (S 36.9° E)');
+    expect(describeComponents(vector, 0, 'm')).toBe('30 m E, 40 m S');
+  });
+
+  it('have no direction when they have no length', () => {
+    const vector = toPlanarVector(0, 0, 10);
+    expect(vector.bearing).toBeNull();
+    expect(describeBearing(vector)).toBe('no direction');
+  });
+});
@@ -0,0 +1,52 @@
+import { PlanarVector } from '../types';
+
+// Vectors on the map in compass terms: x grows East and y grows North (the
+// grid's y grows South, so it is flipped here). Bearings are degrees
+// clockwise from North, as on a compass.
+
+const MIN_MAGNITUDE = 1e-9; // anything shorter has no direction
+const ROSE = ['North', 'North-East', 'East', 'South-East', 'South', 'South-West', 'West', 'North-West'];
+
+// Degrees clockwise from North, in [0, 360).
+export const getBearing = (east: number, north: number) => ((Math.atan2(east, north) * 180) / Math.PI + 360) % 360;
+
+// Quadrant notation such as "N 36.9° E"; due headings are just "N", "E", "S" or "W".
+export const toCompassNotation = (bearing: number) => {
+  const isNorth = bearing <= 90 || bearing >= 270;
+  const isEast = bearing > 0 && bearing < 180;
+  const angle = (isNorth ? Math.min(bearing, 360 - bearing) : Math.abs(180 - bearing)).toFixed(1);
+  if (angle === '0.0') return isNorth ? 'N' : 'S';
+  if (angle === '90.0') return isEast ? 'E' : 'W';
+  return `${isNorth ? 'N' : 'S'} ${angle}° ${isEast ? 'E' : 'W'}`;
+};
+
+// Heading of a move by (dx, dy) grid units: a name on the 8-point rose when
+// it lies on one, otherwise compass notation, so diagonal roads are not
+// mistaken for their nearest axis.
+export const getDirectionLabel = (dx: number, dy: number) => {
+  if (Math.hypot(dx, dy) < MIN_MAGNITUDE) return 'Stationary';
+  const bearing = getBearing(dx, -dy);
+  const point = bearing / 45;
+  if (Math.abs(point - Math.round(point)) < 1e-6) return ROSE[Math.round(point) % ROSE.length];
+  return toCompassNotation(bearing);
+};
+
+// Vector for a move of (dx, dy) grid units, multiplied by `scale` (metres
+// per square, or that divided by a time for a velocity).
+export const toPlanarVector = (dx: number, dy: number, scale: number): PlanarVector => {
+  const x = dx * scale;
+  const y = -dy * scale;
+  const magnitude = Math.hypot(x, y);
+  return { x, y, magnitude, bearing: magnitude < MIN_MAGNITUDE ? null : getBearing(x, y) };
+};
+
+// "123.7° (S 56.3° E)", or "no direction" for a zero vector.
+export const describeBearing = (vector: PlanarVector) =>
+  vector.bearing === null ? 'no direction' : `${vector.bearing.toFixed(1)}° (${toCompassNotation(vector.bearing)})`;
+
+// "120 m E, 80 m S" with the given number of decimals.
+export const describeComponents = (vector: PlanarVector, decimals: number, unit: string) => {
+  const part = (value: number, positive: string, negative: string) =>
+    `${Math.abs(value).toFixed(decimals)} ${unit} ${value < 0 ? negative : positive}`;
+  return `${part(vector.x, 'E', 'W')}, ${part(vector.y, 'N', 'S')}`;
+};
@@ -1,5 +1,9 @@
 export enum VehicleType {
-  CAR = 'CAR'
+  CAR = 'CAR',
+  BICYCLE = 'BICYCLE',
+  PEDESTRIAN = 'PEDESTRIAN',
+  BUS = 'BUS',
+  TRUCK = 'TRUCK'
 }
 
 export enum BuildingType {
@@ -13,46 +17,322 @@ export enum BuildingType {
   CORNER = 'CORNER'
 }
 
+export enum RunStatus {
+  IDLE = 'IDLE',
+  RUNNING = 'RUNNING',
+  PAUSED = 'PAUSED',
+  FINISHED = 'FINISHED'
+}
+
+export enum DragModel {
+  CONSTANT = 'CONSTANT', // fixed force
+  LINEAR = 'LINEAR', // k·v
+  QUADRATIC = 'QUADRATIC' // ½ρ·CdA·v²
+}
+
+export enum Surface {
+  ASPHALT = 'ASPHALT',
+  GRAVEL = 'GRAVEL',
+  ICE = 'ICE',
+  MUD = 'MUD'
+}
+
+export enum TrafficControlType {
+  TRAFFIC_LIGHT = 'TRAFFIC_LIGHT',
+  STOP_SIGN = 'STOP_SIGN'
+}
+
+export enum EditorTool {
+  SELECT = 'SELECT',
+  NODE = 'NODE',
+  ROAD = 'ROAD',
+  DELETE = 'DELETE'
+}
+
 export interface Coordinates {
   x: number;
   y: number;
 }
 
+// A horizontal vector in compass terms: x points East, y points North.
+export interface PlanarVector {
+  x: number;
+  y: number;
+  magnitude: number;
+  bearing: number | null; // degrees clockwise from North, null for a zero vector
+}
+
 export interface NodePoint extends Coordinates {
   id: string;
   label: string;
   type: BuildingType;
   name: string;
   isFinishOption?: boolean;
+  elevation?: number; // m, height above the map's ground level; missing means 0
+}
+
+export interface MapEdge {
+  from: string;
+  to: string;
+  control?: Coordinates; // grid units, Bézier control point that bends the road towards it; straight without
+}
+
+export interface MapDefinition {
+  id: string;
+  name: string;
+  description: string;
+  gridCols: number;
+  gridRows: number;
+  nodes: NodePoint[];
+  edges: MapEdge[]; // two-way roads between nodes
+  placements: Record<string, Coordinates>; // building offset from its node, in grid squares
+  defaultStartNodeId: string;
+  defaultFinishNodeId: string;
+}
+
+export interface MapHistory {
+  past: MapDefinition[];
+  present: MapDefinition;
+  future: MapDefinition[];
+}
+
+// A stretch of one road with its own surface. start and end are fractions of
+// the road measured from fromNodeId towards toNodeId, so 0–1 covers all of it.
+export interface SurfaceZone {
+  id: string;
+  fromNodeId: string;
+  toNodeId: string;
+  start: number;
+  end: number;
+  surface: Surface;
+  friction: number; // µ
+}
+
+// A traffic light or stop sign at a node. Vehicles stop at the node itself
+// before driving on. A light is green for greenTime, then red for redTime,
+// and offset shifts where in that cycle it is at launch. Stop signs ignore
+// the timings.
+export interface TrafficControl {
+  id: string;
+  nodeId: string;
+  type: TrafficControlType;
+  greenTime: number; // s
+  redTime: number; // s
+  offset: number; // s into the cycle at launch
+}
+
+// Everything the sidebar and header control, apart from the map itself.
+export interface ExperimentSettings {
+  mapId: string;
+  startNodeId: string;
+  finishNodeId: string;
+  checkpointIds: string[];
+  isRoundTrip: boolean; // drive back to the start after reaching the destination
+  gridScale: number; // meters per square
+  targetSpeed: number; // m/s
+  isFrictionOn: boolean;
+  surfaceZones: SurfaceZone[];
+  trafficControls: TrafficControl[];
+  airResistance: number; // N, constant drag
+  dragModel: DragModel;
+  linearDrag: number; // N·s/m, k of linear drag
+  airDensity: number; // kg/m³, ρ of quadratic drag
+  dragArea: number; // m², Cd·A of quadratic drag
+  mass: number; // kg
+  vehicleType: VehicleType;
+  isRealisticEngine: boolean;
+  reactionTime: number; // s, driver delay with the realistic engine
+  isCornering: boolean;
+}
+
+export interface ExperimentSetup {
+  version: number;
+  map: MapDefinition;
+  settings: ExperimentSettings;
+}
+
+export interface RunRecord {
+  id: string;
+  timestamp: number; // ms since epoch
+  setup: ExperimentSetup;
+  result: SimulationResult;
 }
 
 export interface SegmentData {
   from: string;
   to: string;
   distance: number;
-  time: number;
-  speed: number;
+  time: number; // s, including waitTime
+  speed: number; // distance ÷ time, so stops lower it
+  waitTime: number; // s stopped at a traffic light or stop sign at the segment's end
   direction: string;
   velocityLabel: string;
 }
 
+// Time a run spent on one surface zone.
+export interface ZoneTime {
+  zoneId: string;
+  surface: Surface;
+  road: string; // e.g. "B→C", in the direction driven
+  friction: number; // µ
+  distance: number; // m
+  time: number; // s
+}
+
 export interface SimulationResult {
   timeTaken: number;
   distanceTraveled: number;
-  displacement: number;
+  displacement: number; // m, horizontal straight line from start to finish
+  displacement3D: number; // m, straight line including the change in height
+  elevationChange: number; // m, finish height minus start height
+  displacementVector: PlanarVector; // m
+  averageVelocityVector: PlanarVector; // m/s, displacementVector ÷ timeTaken
   finalDestination: string;
   averageSpeed: number;
   averageVelocity: number;
   pathBreakdown: string;
   segmentData: SegmentData[];
+  telemetry: TelemetrySample[];
+  zoneTimes: ZoneTime[]; // surface zones in the order they were entered
+  terminalVelocity: number | null; // m/s where full engine push equals drag, null without speed-dependent drag
+}
+
+// One reading of the vehicle's state, taken at a fixed simulated interval.
+export interface TelemetrySample {
+  time: number; // s
+  position: Coordinates; // grid units
+  speed: number; // m/s
+  velocity: Coordinates; // m/s, y grows southward like the grid
+  acceleration: number; // m/s²
+  distanceTraveled: number; // m
+  displacement: number; // m, horizontal straight line from the start
+  frictionForce: number; // N
+  airResistance: number; // N, drag at this speed
+  elevation: number; // m
+  slopeForce: number; // N, gravity along the road, positive uphill where it holds the vehicle back
 }
 
 export interface VehicleConfig {
   type: VehicleType;
   name: string;
-  baseSpeed: number; // m/s
-  maxSpeed?: number;
+  baseSpeed: number; // m/s, target speed when the vehicle is picked
+  minSpeed: number; // m/s, bottom of the speed slider
+  maxSpeed: number; // m/s, top of the speed slider
+  speedStep: number; // m/s per slider notch
+  defaultMass: number; // kg
+  dragArea: number; // m², drag coefficient × frontal area
+  maxEngineForce: number; // N, used by the realistic engine model
+  maxPower: number; // W, caps the engine force at speed
+  maxBrakeForce: number; // N
   isAdjustable: boolean;
   color: string;
   icon: string;
-}
\ No newline at end of file
+}
+
+export interface SurfaceConfig {
+  surface: Surface;
+  name: string;
+  friction: number; // µ a new zone starts with
+  grip: number; // µ for cornering on this surface
+  color: string; // road tint
+  markColor: string; // texture drawn on top of the tint
+}
+
+// --- Simulation Engine ---
+
+// Limits of the realistic engine model
+export interface EngineLimits {
+  maxForce: number; // N
+  maxPower: number; // W
+  brakeForce: number; // N
+  reactionTime: number; // s before the driver reacts, also the throttle response time
+}
+
+export interface SimulationConfig {
+  path: NodePoint[];
+  roads: MapEdge[]; // the map's roads, whose shapes the path follows
+  gridScale: number; // meters per square
+  targetSpeed: number; // m/s
+  mass: number; // kg
+  airResistance: number; // N, constant drag
+  dragModel: DragModel;
+  linearDrag: number; // N·s/m
+  airDensity: number; // kg/m³
+  dragArea: number; // m²
+  surfaceZones: SurfaceZone[]; // empty when friction is off
+  trafficControls: TrafficControl[];
+  engine: EngineLimits | null; // null: ideal engine that holds the target speed
+  isCornering: boolean; // turns are driven as arcs at a safe speed
+}
+
+export interface SimulationState {
+  time: number; // simulated seconds since launch
+  position: Coordinates; // grid units
+  angle: number; // heading in radians, 0 = East
+  speed: number; // m/s
+  acceleration: number; // m/s² over the last step
+  distanceTraveled: number; // meters
+  pathIndex: number; // index of the node last passed
+  segmentStartTime: number;
+  waitTime: number; // s stopped at the stop line of the current segment
+  segments: SegmentData[];
+  telemetry: TelemetrySample[];
+  zoneTimes: ZoneTime[];
+  isFinished: boolean;
+  isStalled: boolean; // stopped for good: the engine cannot overcome resistance
+  result: SimulationResult | null;
+}
+
+export interface TrajectoryPoint {
+  time: number;
+  x: number;
+  y: number;
+  angle: number;
+  speed: number;
+  distanceTraveled: number;
+}
+
+export interface SimulationRun {
+  trajectory: TrajectoryPoint[];
+  result: SimulationResult | null; // null if the vehicle never reached the finish
+}
+
+// --- Race Mode ---
+
+export interface VehiclePalette {
+  shade: string; // body edges
+  body: string;
+  highlight: string; // body center, also the UI swatch
+  trim: string; // outline and spoiler
+}
+
+// A rival racing against the main vehicle. Start, checkpoints and the
+// environment are shared; speed, mass and destination are its own.
+export interface RaceEntry {
+  id: string;
+  name: string;
+  vehicleType: VehicleType;
+  colorIndex: number; // into RACER_PALETTES
+  targetSpeed: number; // m/s
+  mass: number; // kg
+  finishNodeId: string | null; // null = same destination as the main vehicle
+}
+
+export interface RaceVehicle {
+  id: string;
+  name: string;
+  vehicleType: VehicleType;
+  colorIndex: number;
+  config: SimulationConfig;
+}
+
+export interface RaceStanding {
+  id: string;
+  name: string;
+  vehicleType: VehicleType;
+  colorIndex: number;
+  place: number; // 1 = winner
+  targetSpeed: number;
+  mass: number;
+  result: SimulationResult;
+}
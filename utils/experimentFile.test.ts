@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DragModel, Surface, VehicleType } from '../types';
+import { DEFAULT_PHYSICS } from '../constants';
+import { getMapById } from '../simulation/maps';
+import { SETUP_FILE_VERSION, parseSetup, serializeSetup } from './experimentFile';
+import { createTestSetup } from './testFixtures';
+
+// A file as the first version of the format wrote it.
+const createVersion1File = (settings: object = {}) => JSON.stringify({
+  version: 1,
+  map: getMapById('snake'),
+  settings: {
+    mapId: 'snake',
+    startNodeId: 'A',
+    finishNodeId: 'J',
+    checkpointIds: [],
+    gridScale: 10,
+    targetSpeed: 30,
+    isFrictionOn: true,
+    friction: 0.4,
+    frictionStartNode: 'B',
+    frictionEndNode: 'D',
+    airResistance: 5,
+    mass: 20,
+    ...settings
+  }
+});
+
+describe('parseSetup', () => {
+  it('reads back a saved setup', () => {
+    const setup = createTestSetup('lanes', { isRoundTrip: true, checkpointIds: ['C'] });
+    expect(parseSetup(serializeSetup(setup))).toEqual({ setup, errors: [] });
+  });
+
+  it('upgrades a version 1 file with the defaults of every later setting', () => {
+    const { setup, errors } = parseSetup(createVersion1File());
+    expect(errors).toEqual([]);
+    expect(setup!.version).toBe(SETUP_FILE_VERSION);
+    expect(setup!.settings).toMatchObject({
+      vehicleType: VehicleType.CAR,
+      isRealisticEngine: false,
+      reactionTime: DEFAULT_PHYSICS.reactionTime,
+      isCornering: false,
+      dragModel: DragModel.CONSTANT,
+      airResistance: 5,
+      trafficControls: [],
+      isRoundTrip: false
+    });
+    expect(setup!.settings).not.toHaveProperty('friction');
+  });
+
+  it('turns the old friction zone into gravel on each road of its route', () => {
+    const zones = parseSetup(createVersion1File()).setup!.settings.surfaceZones;
+    expect(zones.map(zone => `${zone.fromNodeId}${zone.toNodeId}`)).toEqual(['BC', 'CD']);
+    expect(zones.every(zone => zone.surface === Surface.GRAVEL && zone.friction === 0.4)).toBe(true);
+    expect(zones.every(zone => zone.start === 0 && zone.end === 1)).toBe(true);
+  });
+
+  it('drops an old friction zone without friction', () => {
+    expect(parseSetup(createVersion1File({ friction: 0 })).setup!.settings.surfaceZones).toEqual([]);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(parseSetup('{').errors).toEqual(['The file is not valid JSON.']);
+    expect(parseSetup('[]').errors).toEqual(['The file is not an experiment setup.']);
+    expect(parseSetup('{"version": 0}').errors).toEqual(['The file has no valid version number.']);
+    expect(parseSetup(JSON.stringify({ version: SETUP_FILE_VERSION + 1 })).errors[0]).toMatch(/newer version/);
+  });
+
+  it('lists every setting of the wrong type or out of range', () => {
+    const setup = createTestSetup('snake', { targetSpeed: 500 });
+    const { setup: parsed, errors } = parseSetup(serializeSetup({ ...setup, settings: { ...setup.settings, isCornering: 'yes' as never } }));
+    expect(parsed).toBeNull();
+    expect(errors).toContain('settings.isCornering must be true or false.');
+    expect(errors.some(error => error.startsWith('settings.targetSpeed'))).toBe(true);
+  });
+
+  it('checks node references once the shape is right', () => {
+    const { errors } = parseSetup(serializeSetup(createTestSetup('snake', { startNodeId: 'Z' })));
+    expect(errors).toEqual(['settings.startNodeId refers to node "Z", which is not on the map.']);
+  });
+});
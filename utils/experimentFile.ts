@@ -0,0 +1,316 @@
+import { BuildingType, DragModel, ExperimentSettings, ExperimentSetup, MapDefinition, Surface, SurfaceZone, TrafficControlType, VehicleType } from '../types';
+import { DEFAULT_PHYSICS, LIGHT_PHASE_LIMITS, SETTING_LIMITS, ZONE_FRICTION_LIMITS } from '../constants';
+import { validateMap } from '../simulation/maps';
+import { findShortestRoute } from '../simulation/routing';
+import { isZoneOnMap } from '../simulation/surfaces';
+import { isControlOnMap } from '../simulation/traffic';
+
+// Versioned JSON file holding a complete experiment: the map plus every setting.
+// Bump SETUP_FILE_VERSION whenever the format changes and register a migration
+// that upgrades files of the previous version. Optional fields that older
+// files simply lack, such as node elevation or curved roads, need no bump.
+
+export const SETUP_FILE_VERSION = 8;
+export const SETUP_FILE_EXTENSION = '.funweb.json';
+
+type RawData = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The single friction zone covered the shortest route between two nodes with
+// one µ. It becomes a gravel zone on every road of that route. This is an
+// approximation: the route is not in the file but found again on the file's
+// map, so where two routes are equally short the zone can land on other roads
+// than the saving app showed, and the surface is gravel whatever µ was.
+const migrateFrictionZone = (settings: RawData, map: unknown): RawData => {
+  const { friction, frictionStartNode, frictionEndNode, ...rest } = settings;
+  const route = isObject(map) && Array.isArray(map.nodes) && Array.isArray(map.edges)
+    && typeof friction === 'number' && friction > 0
+    && typeof frictionStartNode === 'string' && typeof frictionEndNode === 'string' && frictionStartNode !== frictionEndNode
+    ? findShortestRoute(map as unknown as MapDefinition, frictionStartNode, frictionEndNode)
+    : null;
+  const surfaceZones: SurfaceZone[] = (route ?? []).slice(1).map((node, i) => ({
+    id: `zone-${i + 1}`,
+    fromNodeId: route![i].id,
+    toNodeId: node.id,
+    start: 0,
+    end: 1,
+    surface: Surface.GRAVEL,
+    friction: friction as number
+  }));
+  return { ...rest, surfaceZones };
+};
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1.
+const MIGRATIONS: Record<number, (data: RawData) => RawData> = {
+  // v2 added the vehicle type; every earlier experiment used the car
+  1: data => ({
+    ...data,
+    settings: isObject(data.settings) ? { vehicleType: VehicleType.CAR, ...data.settings } : data.settings
+  }),
+  // v3 added the realistic engine model, off for older experiments
+  2: data => ({
+    ...data,
+    settings: isObject(data.settings)
+      ? { isRealisticEngine: false, reactionTime: DEFAULT_PHYSICS.reactionTime, ...data.settings }
+      : data.settings
+  }),
+  // v4 added cornering physics, off for older experiments
+  3: data => ({
+    ...data,
+    settings: isObject(data.settings) ? { isCornering: false, ...data.settings } : data.settings
+  }),
+  // v5 added drag models; older experiments used the constant force
+  4: data => ({
+    ...data,
+    settings: isObject(data.settings)
+      ? {
+        dragModel: DragModel.CONSTANT,
+        linearDrag: DEFAULT_PHYSICS.linearDrag,
+        airDensity: DEFAULT_PHYSICS.airDensity,
+        dragArea: DEFAULT_PHYSICS.dragArea,
+        ...data.settings
+      }
+      : data.settings
+  }),
+  // v6 replaced the friction zone with any number of surface zones
+  5: data => ({
+    ...data,
+    settings: isObject(data.settings) ? migrateFrictionZone(data.settings, data.map) : data.settings
+  }),
+  // v7 added traffic lights and stop signs, none in older experiments
+  6: data => ({
+    ...data,
+    settings: isObject(data.settings) ? { trafficControls: [], ...data.settings } : data.settings
+  }),
+  // v8 added round trips; older experiments ended at the destination
+  7: data => ({
+    ...data,
+    settings: isObject(data.settings) ? { isRoundTrip: false, ...data.settings } : data.settings
+  }),
+};
+
+// setup is null whenever errors is non-empty.
+export interface ParseSetupResult {
+  setup: ExperimentSetup | null;
+  errors: string[];
+}
+
+export const createSetup = (map: MapDefinition, settings: ExperimentSettings): ExperimentSetup => ({
+  version: SETUP_FILE_VERSION,
+  map,
+  settings
+});
+
+export const serializeSetup = (setup: ExperimentSetup) => JSON.stringify(setup, null, 2);
+
+export const migrateSetup = (data: RawData): RawData => {
+  let current = data;
+  while (typeof current.version === 'number' && current.version < SETUP_FILE_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) break;
+    current = { ...migrate(current), version: current.version + 1 };
+  }
+  return current;
+};
+
+// --- Schema checks ---
+
+const checkString = (errors: string[], obj: RawData, key: string, path: string) => {
+  if (typeof obj[key] !== 'string') errors.push(`${path}.${key} must be text.`);
+};
+
+const checkNumber = (errors: string[], obj: RawData, key: string, path: string, min?: number, max?: number) => {
+  const value = obj[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path}.${key} must be a number.`);
+  } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    errors.push(`${path}.${key} must be between ${min} and ${max} (found ${value}).`);
+  }
+};
+
+const checkMapShape = (errors: string[], map: unknown) => {
+  if (!isObject(map)) {
+    errors.push('The file does not contain a map.');
+    return;
+  }
+  ['id', 'name', 'defaultStartNodeId', 'defaultFinishNodeId'].forEach(key => checkString(errors, map, key, 'map'));
+  checkNumber(errors, map, 'gridCols', 'map');
+  checkNumber(errors, map, 'gridRows', 'map');
+
+  if (!Array.isArray(map.nodes)) {
+    errors.push('map.nodes must be a list.');
+  } else {
+    const types = Object.values(BuildingType) as string[];
+    map.nodes.forEach((node, i) => {
+      const path = `map.nodes[${i}]`;
+      if (!isObject(node)) {
+        errors.push(`${path} must be an object.`);
+        return;
+      }
+      ['id', 'label', 'name'].forEach(key => checkString(errors, node, key, path));
+      checkNumber(errors, node, 'x', path);
+      checkNumber(errors, node, 'y', path);
+      if (node.elevation !== undefined) checkNumber(errors, node, 'elevation', path);
+      if (!types.includes(node.type as string)) errors.push(`${path}.type must be one of ${types.join(', ')}.`);
+    });
+  }
+
+  if (!Array.isArray(map.edges)) {
+    errors.push('map.edges must be a list.');
+  } else {
+    map.edges.forEach((edge, i) => {
+      const path = `map.edges[${i}]`;
+      if (!isObject(edge)) {
+        errors.push(`${path} must be an object.`);
+        return;
+      }
+      ['from', 'to'].forEach(key => checkString(errors, edge, key, path));
+      if (edge.control !== undefined) {
+        if (!isObject(edge.control)) errors.push(`${path}.control must be an object.`);
+        else ['x', 'y'].forEach(key => checkNumber(errors, edge.control as RawData, key, `${path}.control`));
+      }
+    });
+  }
+
+  if (!isObject(map.placements)) {
+    errors.push('map.placements must be an object.');
+  } else {
+    Object.entries(map.placements).forEach(([id, offset]) => {
+      if (!isObject(offset)) errors.push(`map.placements.${id} must be an object.`);
+      else ['x', 'y'].forEach(key => checkNumber(errors, offset, key, `map.placements.${id}`));
+    });
+  }
+};
+
+const checkSurfaceZones = (errors: string[], zones: unknown) => {
+  if (!Array.isArray(zones)) {
+    errors.push('settings.surfaceZones must be a list.');
+    return;
+  }
+  const surfaces = Object.values(Surface) as string[];
+  zones.forEach((zone, i) => {
+    const path = `settings.surfaceZones[${i}]`;
+    if (!isObject(zone)) {
+      errors.push(`${path} must be an object.`);
+      return;
+    }
+    ['id', 'fromNodeId', 'toNodeId'].forEach(key => checkString(errors, zone, key, path));
+    checkNumber(errors, zone, 'start', path, 0, 1);
+    checkNumber(errors, zone, 'end', path, 0, 1);
+    checkNumber(errors, zone, 'friction', path, ZONE_FRICTION_LIMITS.min, ZONE_FRICTION_LIMITS.max);
+    if (typeof zone.start === 'number' && typeof zone.end === 'number' && zone.start >= zone.end) {
+      errors.push(`${path} must start before it ends.`);
+    }
+    if (!surfaces.includes(zone.surface as string)) errors.push(`${path}.surface must be one of ${surfaces.join(', ')}.`);
+  });
+};
+
+const checkTrafficControls = (errors: string[], controls: unknown) => {
+  if (!Array.isArray(controls)) {
+    errors.push('settings.trafficControls must be a list.');
+    return;
+  }
+  const types = Object.values(TrafficControlType) as string[];
+  controls.forEach((control, i) => {
+    const path = `settings.trafficControls[${i}]`;
+    if (!isObject(control)) {
+      errors.push(`${path} must be an object.`);
+      return;
+    }
+    ['id', 'nodeId'].forEach(key => checkString(errors, control, key, path));
+    checkNumber(errors, control, 'greenTime', path, LIGHT_PHASE_LIMITS.min, LIGHT_PHASE_LIMITS.max);
+    checkNumber(errors, control, 'redTime', path, LIGHT_PHASE_LIMITS.min, LIGHT_PHASE_LIMITS.max);
+    checkNumber(errors, control, 'offset', path, 0);
+    if (!types.includes(control.type as string)) errors.push(`${path}.type must be one of ${types.join(', ')}.`);
+  });
+};
+
+const checkSettingsShape = (errors: string[], settings: unknown) => {
+  if (!isObject(settings)) {
+    errors.push('The file does not contain settings.');
+    return;
+  }
+  ['mapId', 'startNodeId', 'finishNodeId']
+    .forEach(key => checkString(errors, settings, key, 'settings'));
+  if (!Array.isArray(settings.checkpointIds) || settings.checkpointIds.some(id => typeof id !== 'string')) {
+    errors.push('settings.checkpointIds must be a list of node ids.');
+  }
+  if (typeof settings.isRoundTrip !== 'boolean') errors.push('settings.isRoundTrip must be true or false.');
+  if (typeof settings.isFrictionOn !== 'boolean') errors.push('settings.isFrictionOn must be true or false.');
+  if (typeof settings.isRealisticEngine !== 'boolean') errors.push('settings.isRealisticEngine must be true or false.');
+  if (typeof settings.isCornering !== 'boolean') errors.push('settings.isCornering must be true or false.');
+  const vehicleTypes = Object.values(VehicleType) as string[];
+  if (!vehicleTypes.includes(settings.vehicleType as string)) {
+    errors.push(`settings.vehicleType must be one of ${vehicleTypes.join(', ')}.`);
+  }
+  const dragModels = Object.values(DragModel) as string[];
+  if (!dragModels.includes(settings.dragModel as string)) {
+    errors.push(`settings.dragModel must be one of ${dragModels.join(', ')}.`);
+  }
+  (Object.keys(SETTING_LIMITS) as (keyof typeof SETTING_LIMITS)[]).forEach(key => {
+    const { min, max } = SETTING_LIMITS[key];
+    checkNumber(errors, settings, key, 'settings', min, max);
+  });
+  checkSurfaceZones(errors, settings.surfaceZones);
+  checkTrafficControls(errors, settings.trafficControls);
+};
+
+// Node references only make sense once both halves have the right shape.
+const checkReferences = (errors: string[], map: MapDefinition, settings: ExperimentSettings) => {
+  const ids = new Set(map.nodes.map(n => n.id));
+  const refs: [string, string][] = [
+    ['startNodeId', settings.startNodeId],
+    ['finishNodeId', settings.finishNodeId],
+    ...settings.checkpointIds.map((id, i): [string, string] => [`checkpointIds[${i}]`, id])
+  ];
+  refs.forEach(([key, id]) => {
+    if (!ids.has(id)) errors.push(`settings.${key} refers to node "${id}", which is not on the map.`);
+  });
+  settings.surfaceZones.forEach((zone, i) => {
+    if (!isZoneOnMap(map, zone)) {
+      errors.push(`settings.surfaceZones[${i}] lies on a road from "${zone.fromNodeId}" to "${zone.toNodeId}", which is not on the map.`);
+    }
+  });
+  const controlled = new Set<string>();
+  settings.trafficControls.forEach((control, i) => {
+    if (!isControlOnMap(map, control)) {
+      errors.push(`settings.trafficControls[${i}] refers to node "${control.nodeId}", which is not on the map.`);
+    } else if (controlled.has(control.nodeId)) {
+      errors.push(`settings.trafficControls[${i}] is a second control at node "${control.nodeId}".`);
+    }
+    controlled.add(control.nodeId);
+  });
+};
+
+export const parseSetup = (text: string): ParseSetupResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { setup: null, errors: ['The file is not valid JSON.'] };
+  }
+  if (!isObject(data)) return { setup: null, errors: ['The file is not an experiment setup.'] };
+
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    return { setup: null, errors: ['The file has no valid version number.'] };
+  }
+  if (data.version > SETUP_FILE_VERSION) {
+    return { setup: null, errors: [`The file was made by a newer version of FunWeb (format ${data.version}). Please update the app.`] };
+  }
+
+  const migrated = migrateSetup(data);
+  const errors: string[] = [];
+  checkMapShape(errors, migrated.map);
+  checkSettingsShape(errors, migrated.settings);
+  if (errors.length > 0) return { setup: null, errors };
+
+  const map = { description: '', ...(migrated.map as RawData) } as unknown as MapDefinition;
+  const settings = migrated.settings as unknown as ExperimentSettings;
+  errors.push(...validateMap(map).map(e => `Map: ${e}`));
+  checkReferences(errors, map, settings);
+  if (errors.length > 0) return { setup: null, errors };
+
+  return { setup: { version: SETUP_FILE_VERSION, map, settings }, errors: [] };
+};
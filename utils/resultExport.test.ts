@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { historyToCsv, historyToJson, resultToCsv } from './resultExport';
+import { createRunRecord } from './storage';
+import { createTestResult, createTestSettings, createTestSetup } from './testFixtures';
+
+const result = createTestResult(createTestSettings());
+
+describe('resultToCsv', () => {
+  it('writes the summary, segment and telemetry tables separated by blank lines', () => {
+    const tables = resultToCsv(result).trimEnd().split('\n\n');
+    expect(tables).toHaveLength(3);
+    expect(tables[0].split('\n')[0]).toBe('Metric,Value,Unit');
+    expect(tables[1].split('\n')).toHaveLength(result.segmentData.length + 1);
+    expect(tables[2].split('\n')).toHaveLength(result.telemetry.length + 1);
+  });
+
+  it('quotes a path breakdown that holds commas', () => {
+    const csv = resultToCsv({ ...result, pathBreakdown: 'A, B' });
+    expect(csv).toContain('Path,"A, B",');
+  });
+});
+
+describe('historyToCsv', () => {
+  const withMapName = (name: string) => {
+    const setup = createTestSetup();
+    return historyToCsv([createRunRecord({ ...setup, map: { ...setup.map, name } }, result)]);
+  };
+
+  it('writes a header and one row per run', () => {
+    const lines = withMapName('Snake Town').trimEnd().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[1].split(',')[1]).toBe('Snake Town');
+  });
+
+  it('quotes fields with quotes, commas or line breaks', () => {
+    expect(withMapName('The "Big" Loop')).toContain(',"The ""Big"" Loop",');
+    expect(withMapName('Loop, North')).toContain(',"Loop, North",');
+    expect(withMapName('Loop\nNorth')).toContain(',"Loop\nNorth",');
+    expect(withMapName('Loop\rNorth')).toContain(',"Loop\rNorth",');
+  });
+});
+
+describe('historyToJson', () => {
+  it('keeps the full records', () => {
+    const record = createRunRecord(createTestSetup(), result);
+    expect(JSON.parse(historyToJson([record]))).toEqual([record]);
+  });
+});
@@ -0,0 +1,124 @@
+import { PlanarVector, RunRecord, SimulationResult } from '../types';
+import { SURFACES, VEHICLES } from '../constants';
+import { toCompassNotation } from '../simulation/vectors';
+import { describeSurfaceZones, describeTrafficControls, getWaitTimeTotal, getZoneTimeTotal } from './runComparison';
+
+// Spreadsheet-friendly exports of run results. Numbers are rounded to three
+// decimals so pasted data stays readable; JSON keeps the full records.
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number)[][]) => rows.map(row => row.map(escapeCsv).join(',')).join('\n');
+
+// Components, bearing and compass heading of a vector, one row each.
+const vectorRows = (label: string, vector: PlanarVector, unit: string): (string | number)[][] => [
+  [`${label} East (x)`, round(vector.x), unit],
+  [`${label} North (y)`, round(vector.y), unit],
+  [`${label} Bearing`, vector.bearing === null ? '' : round(vector.bearing), '°'],
+  [`${label} Heading`, vector.bearing === null ? '' : toCompassNotation(vector.bearing), ''],
+];
+
+const summaryRows = (result: SimulationResult): (string | number)[][] => [
+  ['Metric', 'Value', 'Unit'],
+  ['Destination', result.finalDestination, ''],
+  ['Time Taken', round(result.timeTaken), 's'],
+  ['Distance Traveled', round(result.distanceTraveled), 'm'],
+  ['Displacement', round(result.displacement), 'm'],
+  ...vectorRows('Displacement', result.displacementVector, 'm'),
+  ['3D Displacement', round(result.displacement3D), 'm'],
+  ['Elevation Change', round(result.elevationChange), 'm'],
+  ['Average Speed', round(result.averageSpeed), 'm/s'],
+  ['Average Velocity', round(result.averageVelocity), 'm/s'],
+  ...vectorRows('Average Velocity', result.averageVelocityVector, 'm/s'),
+  ['Time Waiting', round(getWaitTimeTotal(result)), 's'],
+  ['Terminal Velocity', result.terminalVelocity === null ? '' : round(result.terminalVelocity), 'm/s'],
+  ['Path', result.pathBreakdown, ''],
+];
+
+const segmentRows = (result: SimulationResult): (string | number)[][] => [
+  ['Segment', 'From', 'To', 'Distance (m)', 'Time (s)', 'Waiting (s)', 'Speed (m/s)', 'Direction', 'Velocity'],
+  ...result.segmentData.map((seg, i) => [
+    i + 1, seg.from, seg.to, round(seg.distance), round(seg.time), round(seg.waitTime), round(seg.speed), seg.direction, seg.velocityLabel
+  ]),
+];
+
+const zoneRows = (result: SimulationResult): (string | number)[][] => [
+  ['Zone', 'Road', 'Surface', 'µ', 'Distance (m)', 'Time (s)'],
+  ...result.zoneTimes.map((zone, i) => [
+    i + 1, zone.road, SURFACES[zone.surface].name, zone.friction, round(zone.distance), round(zone.time)
+  ]),
+];
+
+const telemetryRows = (result: SimulationResult): (string | number)[][] => [
+  [
+    'Time (s)', 'X (grid)', 'Y (grid)', 'Speed (m/s)', 'Velocity X (m/s)', 'Velocity Y (m/s)', 'Acceleration (m/s²)',
+    'Distance (m)', 'Displacement (m)', 'Elevation (m)', 'Friction Force (N)', 'Air Drag (N)', 'Slope Force (N)'
+  ],
+  ...result.telemetry.map(sample => [
+    round(sample.time), round(sample.position.x), round(sample.position.y), round(sample.speed),
+    round(sample.velocity.x), round(sample.velocity.y), round(sample.acceleration), round(sample.distanceTraveled),
+    round(sample.displacement), round(sample.elevation), round(sample.frictionForce), round(sample.airResistance),
+    round(sample.slopeForce)
+  ]),
+];
+
+// Summary table, one row per segment, the surface zones driven over, then
+// the telemetry samples, each separated by a blank line.
+export const resultToCsv = (result: SimulationResult) => {
+  const tables = [summaryRows(result), segmentRows(result)];
+  if (result.zoneTimes.length > 0) tables.push(zoneRows(result));
+  if (result.telemetry.length > 0) tables.push(telemetryRows(result));
+  return `${tables.map(toCsv).join('\n\n')}\n`;
+};
+
+export const resultToJson = (result: SimulationResult) => JSON.stringify(result, null, 2);
+
+// One row per run with its settings and summary numbers.
+export const historyToCsv = (records: RunRecord[]) => {
+  const header = [
+    'Date', 'Map', 'Start', 'Finish', 'Via', 'Round Trip', 'Grid Scale (m)', 'Vehicle', 'Target Speed (m/s)', 'Mass (kg)',
+    'Surface Zones', 'Traffic Controls', 'Air Resistance (N)', 'Drag Model', 'k (N·s/m)', 'ρ (kg/m³)', 'CdA (m²)',
+    'Engine', 'Reaction Time (s)', 'Cornering', 'Time (s)', 'Distance (m)', 'Displacement (m)', 'Displacement Heading', 'Average Speed (m/s)', 'Average Velocity (m/s)',
+    'Terminal Velocity (m/s)', 'Time on Surface Zones (s)', 'Time Waiting (s)', 'Path'
+  ];
+  const rows = records.map(({ timestamp, setup: { map, settings }, result }) => [
+    new Date(timestamp).toISOString(),
+    map.name,
+    settings.startNodeId,
+    settings.finishNodeId,
+    settings.checkpointIds.join(' '),
+    settings.isRoundTrip ? 'Yes' : 'No',
+    settings.gridScale,
+    VEHICLES[settings.vehicleType].name,
+    settings.targetSpeed,
+    settings.mass,
+    describeSurfaceZones(map, settings),
+    describeTrafficControls(map, settings),
+    settings.airResistance,
+    settings.dragModel,
+    settings.linearDrag,
+    settings.airDensity,
+    settings.dragArea,
+    settings.isRealisticEngine ? 'Realistic' : 'Ideal',
+    settings.isRealisticEngine ? settings.reactionTime : '',
+    settings.isCornering ? 'On' : 'Off',
+    round(result.timeTaken),
+    round(result.distanceTraveled),
+    round(result.displacement),
+    result.displacementVector.bearing === null ? '' : toCompassNotation(result.displacementVector.bearing),
+    round(result.averageSpeed),
+    round(result.averageVelocity),
+    result.terminalVelocity === null ? '' : round(result.terminalVelocity),
+    round(getZoneTimeTotal(result)),
+    round(getWaitTimeTotal(result)),
+    result.pathBreakdown
+  ]);
+  return `${toCsv([header, ...rows])}\n`;
+};
+
+export const historyToJson = (records: RunRecord[]) => JSON.stringify(records, null, 2);
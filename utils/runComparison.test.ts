@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { DragModel, RunRecord, Surface, TrafficControlType } from '../types';
+import { getMapById } from '../simulation/maps';
+import { createRunRecord } from './storage';
+import {
+  describeAirDrag, describeSurfaceZones, describeTrafficControls, getResultRows, getSegmentRows, getSettingRows,
+  getWaitTimeTotal, getZoneTimeTotal
+} from './runComparison';
+import { createTestResult, createTestSettings, createTestSetup } from './testFixtures';
+
+const createTestRecord = (mapId: string, overrides: Parameters<typeof createTestSettings>[1] = {}): RunRecord =>
+  createRunRecord(createTestSetup(mapId, overrides), createTestResult(createTestSettings(mapId, overrides)));
+
+const baseline = createTestRecord('snake');
+const heavier = createTestRecord('snake', { mass: 80 });
+const shorter = createTestRecord('snake', { finishNodeId: 'D' });
+
+const row = <T extends { label: string }>(rows: T[], label: string) => rows.find(r => r.label === label)!;
+
+describe('descriptions', () => {
+  it('name the drag model with its parameters', () => {
+    const settings = createTestSettings('snake', { airResistance: 5 });
+    expect(describeAirDrag(settings)).toBe('5 N');
+    expect(describeAirDrag({ ...settings, dragModel: DragModel.LINEAR })).toBe('k·v, k = 1 N·s/m');
+    expect(describeAirDrag({ ...settings, dragModel: DragModel.QUADRATIC }))
+      .toBe('½ρCdAv², ρ = 1.2 kg/m³, CdA = 0.7 m²');
+  });
+
+  it('list the surface zones and traffic controls, or say there are none', () => {
+    const map = getMapById('snake');
+    const settings = createTestSettings('snake', {
+      surfaceZones: [{ id: 'zone-1', fromNodeId: 'B', toNodeId: 'C', start: 0.2, end: 0.6, surface: Surface.ICE, friction: 0.05 }],
+      trafficControls: [
+        { id: 'traffic-1', nodeId: 'C', type: TrafficControlType.TRAFFIC_LIGHT, greenTime: 8, redTime: 6, offset: 0 },
+        { id: 'traffic-2', nodeId: 'D', type: TrafficControlType.STOP_SIGN, greenTime: 8, redTime: 6, offset: 0 }
+      ]
+    });
+    expect(describeSurfaceZones(map, settings)).toBe('B→C 20–60% Ice µ 0.05');
+    expect(describeSurfaceZones(map, { ...settings, isFrictionOn: false })).toBe('Off');
+    expect(describeTrafficControls(map, settings)).toBe('Light at C (8 s / 6 s); Stop at D');
+    expect(describeTrafficControls(map, createTestSettings())).toBe('None');
+  });
+});
+
+describe('totals', () => {
+  it('add up the time spent on surface zones and waiting', () => {
+    const record = createTestRecord('snake', {
+      surfaceZones: [{ id: 'zone-1', fromNodeId: 'B', toNodeId: 'C', start: 0, end: 1, surface: Surface.GRAVEL, friction: 0.3 }],
+      trafficControls: [{ id: 'traffic-1', nodeId: 'D', type: TrafficControlType.STOP_SIGN, greenTime: 8, redTime: 6, offset: 0 }]
+    });
+    expect(getZoneTimeTotal(record.result)).toBeCloseTo(record.result.zoneTimes[0].time);
+    expect(getZoneTimeTotal(record.result)).toBeGreaterThan(0);
+    expect(getWaitTimeTotal(record.result)).toBeGreaterThan(0);
+    expect(getZoneTimeTotal(baseline.result)).toBe(0);
+    expect(getWaitTimeTotal(baseline.result)).toBe(0);
+  });
+});
+
+describe('getSettingRows', () => {
+  it('holds one value per run and marks only the settings that differ', () => {
+    const rows = getSettingRows([baseline, heavier]);
+    expect(row(rows, 'Mass')).toEqual({ label: 'Mass', values: ['20 kg', '80 kg'], isDifferent: true });
+    expect(row(rows, 'Vehicle')).toEqual({ label: 'Vehicle', values: ['Car', 'Car'], isDifferent: false });
+    expect(rows.filter(r => r.isDifferent).map(r => r.label)).toEqual(['Mass']);
+  });
+});
+
+describe('getResultRows', () => {
+  it('marks results that differ by more than rounding', () => {
+    const rows = getResultRows([baseline, createTestRecord('snake'), shorter]);
+    expect(row(rows, 'Time').values[0]).toBe(baseline.result.timeTaken);
+    expect(row(rows, 'Time').isDifferent).toBe(true);
+    expect(getResultRows([baseline, createTestRecord('snake')]).some(r => r.isDifferent)).toBe(false);
+  });
+});
+
+describe('getSegmentRows', () => {
+  it('lines segments up by position and leaves gaps for shorter runs', () => {
+    const rows = getSegmentRows([baseline, shorter]);
+    expect(rows).toHaveLength(baseline.result.segmentData.length);
+    expect(rows[0]).toMatchObject({ label: '1', legs: ['A→B', 'A→B'], isDifferent: false });
+    const last = rows[rows.length - 1];
+    expect(last.legs[1]).toBeNull();
+    expect(last.times[1]).toBeNull();
+    expect(last.isDifferent).toBe(true);
+  });
+});
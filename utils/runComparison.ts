@@ -0,0 +1,126 @@
+import { DragModel, ExperimentSettings, MapDefinition, RunRecord, SimulationResult } from '../types';
+import { VEHICLES } from '../constants';
+import { getAccelerationStats } from '../simulation/engine';
+import { describeSurfaceZone } from '../simulation/surfaces';
+import { describeTrafficControl } from '../simulation/traffic';
+
+// Table rows for comparing runs side by side. Each row holds one cell per
+// run, in the order the runs were given; the first run is the baseline.
+
+export const MAX_COMPARED_RUNS = 4;
+
+export interface TextRow {
+  label: string;
+  values: string[];
+  isDifferent: boolean;
+}
+
+export interface NumberRow {
+  label: string;
+  unit: string;
+  values: number[];
+  isDifferent: boolean;
+}
+
+export interface SegmentRow {
+  label: string; // segment number
+  legs: (string | null)[]; // e.g. "A→B", null if the run has fewer segments
+  times: (number | null)[];
+  isDifferent: boolean;
+}
+
+const TOLERANCE = 0.005;
+
+const allEqual = <T>(values: T[], equals: (a: T, b: T) => boolean) =>
+  values.every(v => equals(v, values[0]));
+
+// Short text for the drag model and its parameters.
+export const describeAirDrag = (settings: ExperimentSettings) => {
+  switch (settings.dragModel) {
+    case DragModel.LINEAR:
+      return `k·v, k = ${settings.linearDrag} N·s/m`;
+    case DragModel.QUADRATIC:
+      return `½ρCdAv², ρ = ${settings.airDensity} kg/m³, CdA = ${settings.dragArea} m²`;
+    default:
+      return `${settings.airResistance} N`;
+  }
+};
+
+// Every surface zone with its µ, or "Off".
+export const describeSurfaceZones = (map: MapDefinition, settings: ExperimentSettings) =>
+  (settings.isFrictionOn && settings.surfaceZones.length > 0
+    ? settings.surfaceZones.map(zone => `${describeSurfaceZone(map, zone)} µ ${zone.friction}`).join('; ')
+    : 'Off');
+
+export const getZoneTimeTotal = (result: SimulationResult) =>
+  result.zoneTimes.reduce((total, zone) => total + zone.time, 0);
+
+// Every traffic light and stop sign, or "None".
+export const describeTrafficControls = (map: MapDefinition, settings: ExperimentSettings) =>
+  (settings.trafficControls.length > 0
+    ? settings.trafficControls.map(control => describeTrafficControl(map, control)).join('; ')
+    : 'None');
+
+export const getWaitTimeTotal = (result: SimulationResult) =>
+  result.segmentData.reduce((total, seg) => total + seg.waitTime, 0);
+
+const nodeLabel = (record: RunRecord, id: string) =>
+  record.setup.map.nodes.find(n => n.id === id)?.label ?? id;
+
+export const getSettingRows = (records: RunRecord[]): TextRow[] => {
+  const fields: [string, (record: RunRecord) => string][] = [
+    ['Map', r => r.setup.map.name],
+    ['Start', r => nodeLabel(r, r.setup.settings.startNodeId)],
+    ['Destination', r => nodeLabel(r, r.setup.settings.finishNodeId)],
+    ['Via', r => r.setup.settings.checkpointIds.map(id => nodeLabel(r, id)).join(', ') || '—'],
+    ['Round Trip', r => (r.setup.settings.isRoundTrip ? 'Yes' : 'No')],
+    ['Grid Scale', r => `${r.setup.settings.gridScale} m`],
+    ['Vehicle', r => VEHICLES[r.setup.settings.vehicleType].name],
+    ['Target Speed', r => `${r.setup.settings.targetSpeed} m/s`],
+    ['Mass', r => `${r.setup.settings.mass} kg`],
+    ['Surface Zones', r => describeSurfaceZones(r.setup.map, r.setup.settings)],
+    ['Traffic Controls', r => describeTrafficControls(r.setup.map, r.setup.settings)],
+    ['Air Resistance', r => describeAirDrag(r.setup.settings)],
+    ['Cornering', r => (r.setup.settings.isCornering ? 'On' : 'Off')],
+    ['Engine', r => (r.setup.settings.isRealisticEngine ? `Realistic, ${r.setup.settings.reactionTime} s reaction` : 'Ideal')],
+  ];
+  return fields.map(([label, describe]) => {
+    const values = records.map(describe);
+    return { label, values, isDifferent: !allEqual(values, (a, b) => a === b) };
+  });
+};
+
+export const getResultRows = (records: RunRecord[]): NumberRow[] => {
+  const fields: [string, string, (record: RunRecord) => number][] = [
+    ['Time', 's', r => r.result.timeTaken],
+    ['Distance', 'm', r => r.result.distanceTraveled],
+    ['Displacement', 'm', r => r.result.displacement],
+    ['Displacement East (x)', 'm', r => r.result.displacementVector.x],
+    ['Displacement North (y)', 'm', r => r.result.displacementVector.y],
+    ['3D Displacement', 'm', r => r.result.displacement3D],
+    ['Average Speed', 'm/s', r => r.result.averageSpeed],
+    ['Average Velocity', 'm/s', r => r.result.averageVelocity],
+    ['Top Speed', 'm/s', r => getAccelerationStats(r.result).topSpeed],
+    ['Time to Top Speed', 's', r => getAccelerationStats(r.result).timeToTopSpeed],
+    ['Peak Acceleration', 'm/s²', r => getAccelerationStats(r.result).peakAcceleration],
+    ['Time on Surface Zones', 's', r => getZoneTimeTotal(r.result)],
+    ['Time Waiting', 's', r => getWaitTimeTotal(r.result)],
+  ];
+  return fields.map(([label, unit, read]) => {
+    const values = records.map(read);
+    return { label, unit, values, isDifferent: !allEqual(values, (a, b) => Math.abs(a - b) < TOLERANCE) };
+  });
+};
+
+// Segments are lined up by position along each run's path.
+export const getSegmentRows = (records: RunRecord[]): SegmentRow[] => {
+  const count = Math.max(...records.map(r => r.result.segmentData.length));
+  return Array.from({ length: count }, (_, i) => {
+    const segments = records.map(r => r.result.segmentData[i] ?? null);
+    const legs = segments.map(seg => (seg ? `${seg.from}→${seg.to}` : null));
+    const times = segments.map(seg => (seg ? seg.time : null));
+    const isDifferent = !allEqual(legs, (a, b) => a === b)
+      || !allEqual(times, (a, b) => a !== null && b !== null && Math.abs(a - b) < TOLERANCE);
+    return { label: `${i + 1}`, legs, times, isDifferent };
+  });
+};
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RunRecord } from '../types';
+import {
+  MAX_HISTORY_ENTRIES, MAX_STORED_SAMPLES, addRunRecord, createRunRecord, loadHistory, loadPreferences, loadStoredSetup,
+  storeHistory, storePreferences, storeSetup
+} from './storage';
+import { createTestResult, createTestSettings, createTestSetup } from './testFixtures';
+
+// localStorage kept in memory, refusing writes longer than `quota` characters.
+const createStorage = (quota = Infinity) => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (value.length > quota) throw new Error('QuotaExceededError');
+      items.set(key, value);
+    }
+  };
+};
+
+let storage = createStorage();
+
+beforeEach(() => {
+  storage = createStorage();
+  vi.stubGlobal('window', { localStorage: storage });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const setup = createTestSetup();
+const result = createTestResult(createTestSettings());
+const record = createRunRecord(setup, result);
+
+describe('setup and preferences', () => {
+  it('reads back what was stored', () => {
+    storeSetup(setup);
+    storePreferences({ isDarkMode: false, showBuildings: true });
+    expect(loadStoredSetup()).toEqual(setup);
+    expect(loadPreferences()).toEqual({ isDarkMode: false, showBuildings: true });
+  });
+
+  it('treats missing or damaged data as nothing stored', () => {
+    expect(loadStoredSetup()).toBeNull();
+    expect(loadPreferences()).toBeNull();
+    storage.items.set('funweb.setup', '{"version": 1}');
+    storage.items.set('funweb.preferences', '{"isDarkMode": "yes"}');
+    expect(loadStoredSetup()).toBeNull();
+    expect(loadPreferences()).toBeNull();
+  });
+
+  it('keeps running when storage is unavailable', () => {
+    vi.stubGlobal('window', {});
+    expect(storeSetup(setup)).toBe(false);
+    expect(loadStoredSetup()).toBeNull();
+  });
+});
+
+describe('addRunRecord', () => {
+  it('puts the newest run first and keeps the history short', () => {
+    let records: RunRecord[] = [];
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) records = addRunRecord(records, { ...record, id: `run-${i}` });
+    expect(records).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(records[0].id).toBe(`run-${MAX_HISTORY_ENTRIES + 4}`);
+  });
+});
+
+describe('loadHistory', () => {
+  it('reads back stored runs', () => {
+    storeHistory([record]);
+    expect(loadHistory()).toEqual([record]);
+  });
+
+  it('drops only the entries it cannot read', () => {
+    const entries = [
+      record,
+      { ...record, id: 'no-result', result: null },
+      { ...record, id: 'no-setup', setup: { version: 1 } },
+      { ...record, id: 'no-timestamp', timestamp: 'yesterday' },
+      'not a run'
+    ];
+    storage.items.set('funweb.history', JSON.stringify(entries));
+    expect(loadHistory().map(run => run.id)).toEqual([record.id]);
+  });
+
+  it('fills in what runs saved by older versions lack', () => {
+    const {
+      telemetry, zoneTimes, terminalVelocity, displacement3D, elevationChange, displacementVector, averageVelocityVector,
+      ...oldResult
+    } = result;
+    const oldRecord = { ...record, result: { ...oldResult, segmentData: result.segmentData.map(({ waitTime, ...seg }) => seg) } };
+    storage.items.set('funweb.history', JSON.stringify([oldRecord]));
+    const [loaded] = loadHistory();
+    expect(loaded.result.telemetry).toEqual([]);
+    expect(loaded.result.zoneTimes).toEqual([]);
+    expect(loaded.result.terminalVelocity).toBeNull();
+    expect(loaded.result.displacement3D).toBe(result.displacement);
+    expect(loaded.result.elevationChange).toBe(0);
+    expect(loaded.result.segmentData.every(seg => seg.waitTime === 0)).toBe(true);
+    expect(loaded.result.displacementVector).toEqual(displacementVector);
+  });
+
+  it('returns nothing for a history that is not valid JSON', () => {
+    storage.items.set('funweb.history', '[{');
+    expect(loadHistory()).toEqual([]);
+  });
+});
+
+describe('storeHistory', () => {
+  const longRun = (id: string): RunRecord => ({
+    ...record,
+    id,
+    result: {
+      ...result,
+      telemetry: Array.from({ length: 3000 }, (_, i) => ({ ...result.telemetry[0], time: i / 10 }))
+    }
+  });
+
+  it('thins telemetry evenly, keeping the first and last samples', () => {
+    expect(storeHistory([longRun('long')])).toBe(0);
+    const [loaded] = loadHistory();
+    expect(loaded.result.telemetry).toHaveLength(MAX_STORED_SAMPLES);
+    expect(loaded.result.telemetry[0].time).toBe(0);
+    expect(loaded.result.telemetry[MAX_STORED_SAMPLES - 1].time).toBe(299.9);
+  });
+
+  it('leaves out the oldest runs that do not fit the budget', () => {
+    const runs = Array.from({ length: 30 }, (_, i) => longRun(`run-${i}`));
+    const leftOut = storeHistory(runs);
+    expect(leftOut).toBeGreaterThan(0);
+    expect(loadHistory().map(run => run.id)).toEqual(runs.slice(0, runs.length - leftOut).map(run => run.id));
+  });
+
+  it('leaves out runs the browser refuses to store', () => {
+    storage = createStorage(10);
+    vi.stubGlobal('window', { localStorage: storage });
+    expect(storeHistory([record, record])).toBe(2);
+    expect(loadHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+import { ExperimentSetup, RunRecord, SimulationResult } from '../types';
+import { parseSetup, serializeSetup } from './experimentFile';
+import { toPlanarVector } from '../simulation/vectors';
+
+// Browser storage for the current setup and the run history. Storage can be
+// full, disabled or hold data from an older app version, so every read is
+// validated and every failure falls back to "nothing stored".
+
+const SETUP_KEY = 'funweb.setup';
+const HISTORY_KEY = 'funweb.history';
+const PREFERENCES_KEY = 'funweb.preferences';
+
+export const MAX_HISTORY_ENTRIES = 30;
+export const MAX_STORED_SAMPLES = 500; // telemetry samples kept per stored run
+const HISTORY_BUDGET = 2_000_000; // characters of JSON the stored history may take
+
+export interface Preferences {
+  isDarkMode: boolean;
+  showBuildings: boolean;
+}
+
+const read = (key: string) => {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+// Returns false when nothing was stored.
+const write = (key: string, value: string) => {
+  try {
+    window.localStorage.setItem(key, value);
+    return true;
+  } catch {
+    // Quota exceeded or storage disabled: keep running without persistence
+    return false;
+  }
+};
+
+export const loadStoredSetup = (): ExperimentSetup | null => {
+  const text = read(SETUP_KEY);
+  return text ? parseSetup(text).setup : null;
+};
+
+export const storeSetup = (setup: ExperimentSetup) => write(SETUP_KEY, serializeSetup(setup));
+
+export const loadPreferences = (): Preferences | null => {
+  try {
+    const data = JSON.parse(read(PREFERENCES_KEY) ?? 'null');
+    if (typeof data?.isDarkMode !== 'boolean' || typeof data?.showBuildings !== 'boolean') return null;
+    return { isDarkMode: data.isDarkMode, showBuildings: data.showBuildings };
+  } catch {
+    return null;
+  }
+};
+
+export const storePreferences = (preferences: Preferences) => write(PREFERENCES_KEY, JSON.stringify(preferences));
+
+// Start-to-finish vectors of a run saved before they were recorded, rebuilt
+// from its setup.
+const getRunVectors = (setup: ExperimentSetup, timeTaken: number) => {
+  const { map, settings } = setup;
+  const start = map.nodes.find(n => n.id === settings.startNodeId);
+  const end = settings.isRoundTrip ? start : map.nodes.find(n => n.id === settings.finishNodeId);
+  const dx = start && end ? end.x - start.x : 0;
+  const dy = start && end ? end.y - start.y : 0;
+  return {
+    displacementVector: toPlanarVector(dx, dy, settings.gridScale),
+    averageVelocityVector: toPlanarVector(dx, dy, timeTaken > 0 ? settings.gridScale / timeTaken : 0)
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A stored history entry as a run record, with what runs saved by older
+// versions lack filled in, or null when it cannot be read.
+const normalizeRecord = (entry: unknown): RunRecord | null => {
+  if (!isObject(entry) || typeof entry.id !== 'string' || typeof entry.timestamp !== 'number') return null;
+  const stored = entry.result;
+  if (!isObject(stored) || typeof stored.timeTaken !== 'number') return null;
+  const setup = parseSetup(JSON.stringify(entry.setup ?? null)).setup;
+  if (!setup) return null;
+  // Runs saved before telemetry, zone times, terminal velocity, elevation, waits or vectors were recorded have none
+  const result = {
+    ...(isObject(stored.displacementVector) ? {} : getRunVectors(setup, stored.timeTaken)),
+    ...stored,
+    telemetry: Array.isArray(stored.telemetry)
+      ? stored.telemetry.filter(isObject).map(sample => ({ elevation: 0, slopeForce: 0, ...sample }))
+      : [],
+    zoneTimes: Array.isArray(stored.zoneTimes) ? stored.zoneTimes.filter(isObject) : [],
+    segmentData: Array.isArray(stored.segmentData)
+      ? stored.segmentData.filter(isObject).map(seg => ({ waitTime: 0, ...seg }))
+      : [],
+    terminalVelocity: typeof stored.terminalVelocity === 'number' ? stored.terminalVelocity : null,
+    displacement3D: typeof stored.displacement3D === 'number' ? stored.displacement3D : stored.displacement,
+    elevationChange: typeof stored.elevationChange === 'number' ? stored.elevationChange : 0
+  } as SimulationResult;
+  return { id: entry.id, timestamp: entry.timestamp, setup, result };
+};
+
+// Entries that cannot be read are dropped one by one, so a damaged entry
+// does not take the rest of the history with it.
+export const loadHistory = (): RunRecord[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(read(HISTORY_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(data)) return [];
+  return data.flatMap(entry => {
+    try {
+      const record = normalizeRecord(entry);
+      return record ? [record] : [];
+    } catch {
+      return [];
+    }
+  });
+};
+
+// Evenly spaced samples, the first and last always among them, so long runs
+// keep the shape of their graphs in a fraction of the space.
+const thinTelemetry = <T>(samples: T[]): T[] => {
+  if (samples.length <= MAX_STORED_SAMPLES) return samples;
+  const step = (samples.length - 1) / (MAX_STORED_SAMPLES - 1);
+  return Array.from({ length: MAX_STORED_SAMPLES }, (_, i) => samples[Math.round(i * step)]);
+};
+
+// Stores the newest runs that fit the budget and the browser's quota, with
+// their telemetry thinned. Returns how many of the oldest runs were left out.
+export const storeHistory = (records: RunRecord[]) => {
+  const entries = records.map(record => JSON.stringify({
+    ...record,
+    result: { ...record.result, telemetry: thinTelemetry(record.result.telemetry) }
+  }));
+  let count = entries.length;
+  let size = entries.reduce((total, entry) => total + entry.length + 1, 2);
+  while (count > 0 && size > HISTORY_BUDGET) size -= entries[--count].length + 1;
+  while (count > 0 && !write(HISTORY_KEY, `[${entries.slice(0, count).join(',')}]`)) count--;
+  if (count === 0) write(HISTORY_KEY, '[]');
+  return records.length - count;
+};
+
+export const createRunRecord = (setup: ExperimentSetup, result: SimulationResult): RunRecord => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  timestamp: Date.now(),
+  setup,
+  result
+});
+
+// Newest first, trimmed to MAX_HISTORY_ENTRIES.
+export const addRunRecord = (records: RunRecord[], record: RunRecord) =>
+  [record, ...records].slice(0, MAX_HISTORY_ENTRIES);
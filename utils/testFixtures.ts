@@ -0,0 +1,54 @@
+import { ExperimentSettings, ExperimentSetup, SimulationConfig, SimulationResult, VehicleType } from '../types';
+import { DEFAULT_GRID_SCALE, DEFAULT_PHYSICS } from '../constants';
+import { getMapById } from '../simulation/maps';
+import { findTripRoute } from '../simulation/routing';
+import { runSimulation } from '../simulation/engine';
+import { createSetup } from './experimentFile';
+
+// Inputs shared by the unit tests: the app's default settings on a built-in
+// map, and the engine config and result they lead to.
+
+export const createTestSettings = (mapId = 'snake', overrides: Partial<ExperimentSettings> = {}): ExperimentSettings => {
+  const map = getMapById(mapId);
+  return {
+    mapId: map.id,
+    startNodeId: map.defaultStartNodeId,
+    finishNodeId: map.defaultFinishNodeId,
+    checkpointIds: [],
+    isRoundTrip: false,
+    gridScale: DEFAULT_GRID_SCALE,
+    vehicleType: VehicleType.CAR,
+    surfaceZones: [],
+    trafficControls: [],
+    ...DEFAULT_PHYSICS,
+    ...overrides
+  };
+};
+
+export const createTestSetup = (mapId = 'snake', overrides: Partial<ExperimentSettings> = {}): ExperimentSetup =>
+  createSetup(getMapById(mapId), createTestSettings(mapId, overrides));
+
+// Engine config for settings on a built-in map, as the app builds it with the
+// ideal engine.
+export const createTestConfig = (settings: ExperimentSettings): SimulationConfig => {
+  const map = getMapById(settings.mapId);
+  return {
+    path: findTripRoute(map, settings.startNodeId, settings.checkpointIds, settings.finishNodeId, settings.isRoundTrip)!,
+    roads: map.edges,
+    gridScale: settings.gridScale,
+    targetSpeed: settings.targetSpeed,
+    mass: settings.mass,
+    airResistance: settings.airResistance,
+    dragModel: settings.dragModel,
+    linearDrag: settings.linearDrag,
+    airDensity: settings.airDensity,
+    dragArea: settings.dragArea,
+    surfaceZones: settings.isFrictionOn ? settings.surfaceZones : [],
+    trafficControls: settings.trafficControls,
+    engine: null,
+    isCornering: settings.isCornering
+  };
+};
+
+export const createTestResult = (settings: ExperimentSettings): SimulationResult =>
+  runSimulation(createTestConfig(settings)).result!;
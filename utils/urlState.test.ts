@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DragModel, Surface, TrafficControlType, VehicleType } from '../types';
+import { DEFAULT_PHYSICS } from '../constants';
+import { toCustomMap } from '../simulation/mapEditor';
+import { getMapById } from '../simulation/maps';
+import { decodeShareHash, encodeShareHash } from './urlState';
+import { createTestSettings } from './testFixtures';
+
+const preferences = { isDarkMode: true, showBuildings: false };
+
+describe('share links', () => {
+  it('carry every setting of a built-in map experiment', () => {
+    const settings = createTestSettings('city-blocks', {
+      finishNodeId: 'I',
+      checkpointIds: ['C', 'G'],
+      isRoundTrip: true,
+      gridScale: 25,
+      surfaceZones: [{ id: 'zone-1', fromNodeId: 'A', toNodeId: 'B', start: 0.25, end: 0.75, surface: Surface.ICE, friction: 0.05 }],
+      trafficControls: [{ id: 'traffic-1', nodeId: 'E', type: TrafficControlType.TRAFFIC_LIGHT, greenTime: 8, redTime: 6, offset: 3 }],
+      dragModel: DragModel.QUADRATIC,
+      vehicleType: VehicleType.BUS,
+      isRealisticEngine: true,
+      isCornering: true
+    });
+    const hash = encodeShareHash(getMapById('city-blocks'), settings, preferences);
+    expect(hash.startsWith('m=city-blocks&')).toBe(true);
+    const shared = decodeShareHash(`#${hash}`)!;
+    expect(shared.errors).toEqual([]);
+    expect(shared.setup!.settings).toEqual(settings);
+    expect(shared.preferences).toEqual(preferences);
+  });
+
+  it('carry an edited map inside the link', () => {
+    const map = { ...toCustomMap(getMapById('lanes')), name: 'Lanes & Bends' };
+    const settings = createTestSettings('lanes', { mapId: map.id });
+    const hash = encodeShareHash(map, settings, preferences);
+    expect(hash.startsWith('cm=')).toBe(true);
+    expect(decodeShareHash(hash)!.setup).toMatchObject({ map, settings });
+  });
+
+  it('fill in what a short link leaves out with the defaults', () => {
+    const { setup } = decodeShareHash('#m=hill')!;
+    expect(setup!.settings).toEqual(createTestSettings('hill'));
+    expect(setup!.settings.targetSpeed).toBe(DEFAULT_PHYSICS.targetSpeed);
+  });
+
+  it('are ignored when they hold no experiment', () => {
+    expect(decodeShareHash('')).toBeNull();
+    expect(decodeShareHash('#section-2')).toBeNull();
+  });
+
+  it('report what is wrong with a damaged link', () => {
+    expect(decodeShareHash('#m=atlantis')!.errors).toEqual(['This link refers to an unknown map "atlantis".']);
+    expect(decodeShareHash('#cm=!!!')!.errors).toEqual(['The custom map in this link is damaged.']);
+    expect(decodeShareHash('#m=snake&s=%E0%A4%A')!.errors).toEqual(['This link is damaged.']);
+    expect(decodeShareHash('#m=snake&ts=fast')!.setup).toBeNull();
+  });
+});
@@ -0,0 +1,165 @@
+import { DragModel, ExperimentSettings, ExperimentSetup, MapDefinition, Surface, SurfaceZone, TrafficControl, TrafficControlType, VehicleType } from '../types';
+import { DEFAULT_GRID_SCALE, DEFAULT_PHYSICS } from '../constants';
+import { MAPS } from '../simulation/maps';
+import { Preferences } from './storage';
+import { createSetup, parseSetup, serializeSetup } from './experimentFile';
+
+// Compact URL hash for sharing an experiment, e.g.
+//   #m=snake&s=A&f=J&rtn=0&g=10&ts=30&fr=1&sz=B%3AC%3A0%3A1%3AGRAVEL%3A0.5&tc=F%3ATRAFFIC_LIGHT%3A8%3A6%3A0&air=0&dm=QUADRATIC&k=1&rho=1.2&cda=0.7&kg=20&vt=CAR&re=1&rt=0.5&cn=1&dk=1&bl=1
+// Built-in maps are referenced by id; custom maps travel as base64url JSON in "cm".
+// Lists are comma separated, each item URI-encoded on its own. A surface zone
+// is one item of colon separated fields: from:to:start:end:surface:µ; a
+// traffic control likewise is node:type:green:red:offset.
+
+// setup is null whenever errors is non-empty.
+export interface SharedExperiment {
+  setup: ExperimentSetup | null;
+  preferences: Partial<Preferences>;
+  errors: string[];
+}
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+const encodeList = (items: string[]) => items.map(encodeURIComponent).join(',');
+const decodeList = (value: string) => (value ? value.split(',').map(decodeURIComponent) : []);
+
+const encodeZone = (zone: SurfaceZone) =>
+  [zone.fromNodeId, zone.toNodeId, zone.start, zone.end, zone.surface, zone.friction].map(v => encodeURIComponent(v)).join(':');
+
+const decodeZone = (item: string, index: number): SurfaceZone => {
+  const [fromNodeId = '', toNodeId = '', start, end, surface, friction] = item.split(':').map(decodeURIComponent);
+  return {
+    id: `zone-${index + 1}`,
+    fromNodeId,
+    toNodeId,
+    start: Number(start),
+    end: Number(end),
+    surface: surface as Surface,
+    friction: Number(friction)
+  };
+};
+
+const encodeControl = (control: TrafficControl) =>
+  [control.nodeId, control.type, control.greenTime, control.redTime, control.offset].map(v => encodeURIComponent(v)).join(':');
+
+const decodeControl = (item: string, index: number): TrafficControl => {
+  const [nodeId = '', type, greenTime, redTime, offset] = item.split(':').map(decodeURIComponent);
+  return {
+    id: `traffic-${index + 1}`,
+    nodeId,
+    type: type as TrafficControlType,
+    greenTime: Number(greenTime),
+    redTime: Number(redTime),
+    offset: Number(offset)
+  };
+};
+
+const isBuiltInMap = (map: MapDefinition) => {
+  const builtIn = MAPS.find(m => m.id === map.id);
+  return !!builtIn && JSON.stringify(builtIn) === JSON.stringify(map);
+};
+
+export const encodeShareHash = (map: MapDefinition, settings: ExperimentSettings, preferences: Preferences) => {
+  const params: [string, string][] = [
+    isBuiltInMap(map) ? ['m', map.id] : ['cm', toBase64Url(JSON.stringify(map))],
+    ['s', encodeURIComponent(settings.startNodeId)],
+    ['f', encodeURIComponent(settings.finishNodeId)],
+    ['v', encodeList(settings.checkpointIds)],
+    ['rtn', settings.isRoundTrip ? '1' : '0'],
+    ['g', String(settings.gridScale)],
+    ['ts', String(settings.targetSpeed)],
+    ['fr', settings.isFrictionOn ? '1' : '0'],
+    ['sz', encodeList(settings.surfaceZones.map(encodeZone))],
+    ['tc', encodeList(settings.trafficControls.map(encodeControl))],
+    ['air', String(settings.airResistance)],
+    ['dm', settings.dragModel],
+    ['k', String(settings.linearDrag)],
+    ['rho', String(settings.airDensity)],
+    ['cda', String(settings.dragArea)],
+    ['kg', String(settings.mass)],
+    ['vt', settings.vehicleType],
+    ['re', settings.isRealisticEngine ? '1' : '0'],
+    ['rt', String(settings.reactionTime)],
+    ['cn', settings.isCornering ? '1' : '0'],
+    ['dk', preferences.isDarkMode ? '1' : '0'],
+    ['bl', preferences.showBuildings ? '1' : '0'],
+  ];
+  return params.filter(([, value]) => value !== '').map(([key, value]) => `${key}=${value}`).join('&');
+};
+
+// Returns null when the hash holds no experiment at all. Missing values fall
+// back to the map and physics defaults; the result is checked like an
+// imported setup file.
+export const decodeShareHash = (hash: string): SharedExperiment | null => {
+  const raw = new Map<string, string>();
+  hash.replace(/^#/, '').split('&').forEach(pair => {
+    const index = pair.indexOf('=');
+    if (index > 0) raw.set(pair.slice(0, index), pair.slice(index + 1));
+  });
+  if (!raw.has('m') && !raw.has('cm')) return null;
+
+  let map: MapDefinition | undefined;
+  try {
+    map = raw.has('cm') ? JSON.parse(fromBase64Url(raw.get('cm')!)) : MAPS.find(m => m.id === raw.get('m'));
+  } catch {
+    return { setup: null, preferences: {}, errors: ['The custom map in this link is damaged.'] };
+  }
+  if (!map || typeof map !== 'object' || !Array.isArray(map.nodes)) {
+    return { setup: null, preferences: {}, errors: [`This link refers to an unknown map "${raw.get('m')}".`] };
+  }
+
+  const text = (key: string, fallback: string) => (raw.has(key) ? decodeURIComponent(raw.get(key)!) : fallback);
+  const num = (key: string, fallback: number) => (raw.has(key) ? Number(raw.get(key)) : fallback);
+  const flag = (key: string) => (raw.has(key) ? raw.get(key) === '1' : undefined);
+
+  // A truncated or hand-edited link can hold escapes that do not decode
+  let settings: ExperimentSettings;
+  try {
+    settings = {
+      mapId: map.id,
+      startNodeId: text('s', map.defaultStartNodeId),
+      finishNodeId: text('f', map.defaultFinishNodeId),
+      checkpointIds: decodeList(raw.get('v') ?? ''),
+      isRoundTrip: flag('rtn') ?? false,
+      gridScale: num('g', DEFAULT_GRID_SCALE),
+      targetSpeed: num('ts', DEFAULT_PHYSICS.targetSpeed),
+      isFrictionOn: flag('fr') ?? DEFAULT_PHYSICS.isFrictionOn,
+      surfaceZones: decodeList(raw.get('sz') ?? '').map(decodeZone),
+      trafficControls: decodeList(raw.get('tc') ?? '').map(decodeControl),
+      airResistance: num('air', DEFAULT_PHYSICS.airResistance),
+      dragModel: text('dm', DEFAULT_PHYSICS.dragModel) as DragModel,
+      linearDrag: num('k', DEFAULT_PHYSICS.linearDrag),
+      airDensity: num('rho', DEFAULT_PHYSICS.airDensity),
+      dragArea: num('cda', DEFAULT_PHYSICS.dragArea),
+      mass: num('kg', DEFAULT_PHYSICS.mass),
+      vehicleType: text('vt', VehicleType.CAR) as VehicleType,
+      isRealisticEngine: flag('re') ?? DEFAULT_PHYSICS.isRealisticEngine,
+      reactionTime: num('rt', DEFAULT_PHYSICS.reactionTime),
+      isCornering: flag('cn') ?? DEFAULT_PHYSICS.isCornering
+    };
+  } catch {
+    return { setup: null, preferences: {}, errors: ['This link is damaged.'] };
+  }
+
+  const parsed = parseSetup(serializeSetup(createSetup(map, settings)));
+  const preferences: Partial<Preferences> = {};
+  const dark = flag('dk');
+  const buildings = flag('bl');
+  if (dark !== undefined) preferences.isDarkMode = dark;
+  if (buildings !== undefined) preferences.showBuildings = buildings;
+
+  return { setup: parsed.setup, preferences, errors: parsed.errors };
+};
+
+export const buildShareUrl = (hash: string) =>
+  `${window.location.origin}${window.location.pathname}${window.location.search}#${hash}`;